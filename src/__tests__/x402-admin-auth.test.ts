@@ -0,0 +1,130 @@
+import './x402-env';
+import { afterEach, beforeAll, describe, expect, it, mock, spyOn } from 'bun:test';
+import type { IAgentRuntime, Memory, RouteRequest, RouteResponse } from '@elizaos/core';
+import { X402AdminAuth } from '../plugins/x402/admin-auth';
+import { adminRoute } from '../plugins/x402/admin-routes';
+import { CONFIG } from '../plugins/x402/config';
+import { X402Database } from '../plugins/x402/database';
+import { X402Service } from '../plugins/x402/service';
+
+// Calls an admin route guarded by `scope` with the bearer token and returns the HTTP status
+async function callAdminRoute(auth: X402AdminAuth, token: string, scope: 'billing' | 'moderation' = 'billing'): Promise<number> {
+    let status = 0;
+    const res = {
+        status: (code: number) => {
+            status = code;
+            return res;
+        },
+        json: () => res,
+    } as unknown as RouteResponse;
+    const service = { getAdminAuth: () => auth, getDatabase: () => null } as unknown as X402Service;
+    const runtime = { getService: () => service } as unknown as IAgentRuntime;
+    const handler = adminRoute([scope], async (_req, routeRes) => {
+        routeRes.status(200).json({ success: true });
+    });
+    await handler({ headers: { authorization: `Bearer ${token}` }, path: '/x402/admin/test' } as RouteRequest, res, runtime);
+    return status;
+}
+
+describe('admin REST credentials', () => {
+    let db: X402Database;
+    let auth: X402AdminAuth;
+
+    beforeAll(async () => {
+        db = X402Database.getInstance();
+        await db.init();
+        auth = new X402AdminAuth(db);
+    });
+
+    afterEach(() => {
+        mock.restore();
+        delete process.env.ADMIN_API_KEY;
+    });
+
+    it('accepts the imported ADMIN_API_KEY in chat login but not on the REST API', async () => {
+        process.env.ADMIN_API_KEY = 'legacy-admin-key-1234';
+        await auth.importLegacyKey();
+
+        expect(await auth.authenticate('legacy-admin-key-1234')).toEqual({ name: 'default', scopes: ['billing', 'moderation'] });
+        expect(await auth.authenticateBearer('legacy-admin-key-1234')).toEqual({ success: false });
+        expect(await callAdminRoute(auth, 'legacy-admin-key-1234')).toBe(401);
+    });
+
+    it('looks a bearer key up by its key id and checks only that credential', async () => {
+        const key = await auth.createCredential('rest-billing', ['billing']);
+        const listAll = spyOn(db, 'getAdminCredentials');
+        const byKeyId = spyOn(db, 'getAdminCredentialByKeyId');
+
+        expect(await callAdminRoute(auth, key)).toBe(200);
+        expect(await callAdminRoute(auth, key, 'moderation')).toBe(401);
+        expect(await callAdminRoute(auth, 'x402_0000000000000000_unknown')).toBe(401);
+        expect(await callAdminRoute(auth, 'not-an-admin-key')).toBe(401);
+
+        expect(listAll).not.toHaveBeenCalled();
+        expect(byKeyId).toHaveBeenCalledTimes(3);
+        expect(byKeyId.mock.calls[0][0]).toBe(key.split('_')[1]);
+    });
+
+    it('locks a key on the REST API after repeated wrong secrets, like chat login', async () => {
+        const key = await auth.createCredential('rest-lockout', ['billing']);
+        const keyId = key.split('_')[1];
+        const wrongKey = `x402_${keyId}_wrong-secret`;
+
+        for (let attempt = 1; attempt < CONFIG.ADMIN_MAX_FAILED_ATTEMPTS; attempt++) {
+            expect(await callAdminRoute(auth, wrongKey)).toBe(401);
+        }
+        expect(await callAdminRoute(auth, wrongKey)).toBe(429);
+        // The right key is refused too until the lockout ends or is cleared
+        expect(await callAdminRoute(auth, key)).toBe(429);
+
+        await db.clearAdminLoginFailures(`rest:${keyId}`);
+        expect(await callAdminRoute(auth, key)).toBe(200);
+    });
+
+    it('rotating a key by name gives it a new key id', async () => {
+        const oldKey = await auth.createCredential('rest-rotate', ['billing']);
+        const newKey = await auth.createCredential('rest-rotate', ['billing']);
+
+        expect(await callAdminRoute(auth, oldKey)).toBe(401);
+        expect(await callAdminRoute(auth, newKey)).toBe(200);
+    });
+});
+
+describe('admin sessions', () => {
+    let db: X402Database;
+    let auth: X402AdminAuth;
+
+    // A Telegram message from the numeric sender id
+    function messageFrom(senderId: number): Memory {
+        return { roomId: 'room-admin', content: { text: 'hi' }, metadata: { raw: { senderId } } } as unknown as Memory;
+    }
+
+    beforeAll(async () => {
+        db = X402Database.getInstance();
+        await db.init();
+        auth = new X402AdminAuth(db);
+        // One account with two linked identities; only 7001 logged in as admin
+        await db.linkIdentity('7001', 'admin-account', 'telegram');
+        await db.linkIdentity('7002', 'admin-account', 'telegram');
+        await db.createAdminSession('support', '7001', ['billing', 'moderation'], new Date(Date.now() + 60 * 60 * 1000));
+    });
+
+    it('belong to the exact sender the session was opened for', async () => {
+        expect(await auth.isAdminSender(messageFrom(7001))).toBe(true);
+        expect(await auth.getSenderCredential(messageFrom(7001), 'billing')).toBe('support');
+    });
+
+    it('do not extend to other identities linked to the same account', async () => {
+        expect(await auth.isAdminSender(messageFrom(7002))).toBe(false);
+        expect(await auth.getSenderCredential(messageFrom(7002), 'billing')).toBeNull();
+        expect(await db.isAdmin('admin-account')).toBe(false);
+    });
+
+    it('do not give the account free access outside the sender check', async () => {
+        const service = new X402Service({ agentId: 'agent-admin-test' } as IAgentRuntime);
+        const access = await service.canAccess('admin-account');
+
+        expect(access.reason).not.toBe('admin');
+        expect((await service.reserveAccess('admin-account')).reason).not.toBe('admin');
+    });
+});
@@ -0,0 +1,89 @@
+import './x402-env';
+import { afterEach, beforeAll, describe, expect, it, setSystemTime } from 'bun:test';
+import { CONFIG } from '../plugins/x402/config';
+import { X402Database } from '../plugins/x402/database';
+import { getBusinessDate, getBusinessDayEnd } from '../plugins/x402/time';
+
+// 15:00 UTC is midnight in Asia/Tokyo (UTC+9, no DST)
+const BEFORE_MIDNIGHT = new Date('2026-03-01T14:59:00.000Z');
+const AT_MIDNIGHT = new Date('2026-03-01T15:00:00.000Z');
+
+describe('x402 business day (JST)', () => {
+    let db: X402Database;
+
+    beforeAll(async () => {
+        db = X402Database.getInstance();
+        await db.init();
+    });
+
+    afterEach(() => {
+        setSystemTime();
+    });
+
+    describe('getBusinessDate', () => {
+        it('is still the same day at 14:59 UTC', () => {
+            setSystemTime(BEFORE_MIDNIGHT);
+            expect(getBusinessDate()).toBe('2026-03-01');
+        });
+
+        it('moves to the next day at 15:00 UTC', () => {
+            setSystemTime(AT_MIDNIGHT);
+            expect(getBusinessDate()).toBe('2026-03-02');
+        });
+
+        it('ends each day at 14:59:59.999 UTC', () => {
+            setSystemTime(BEFORE_MIDNIGHT);
+            expect(getBusinessDayEnd().toISOString()).toBe('2026-03-01T14:59:59.999Z');
+            setSystemTime(AT_MIDNIGHT);
+            expect(getBusinessDayEnd().toISOString()).toBe('2026-03-02T14:59:59.999Z');
+        });
+    });
+
+    describe('daily free tier', () => {
+        it('keeps the used queries until 15:00 UTC and resets them at 15:00', async () => {
+            setSystemTime(BEFORE_MIDNIGHT);
+            for (let i = 0; i < CONFIG.FREE_DAILY_LIMIT; i++) {
+                expect(await db.consumeDailyFree('free-user')).toBe(true);
+            }
+            expect(await db.consumeDailyFree('free-user')).toBe(false);
+            expect(await db.getDailyFreeRemaining('free-user')).toBe(0);
+
+            setSystemTime(AT_MIDNIGHT);
+            expect(await db.getDailyFreeRemaining('free-user')).toBe(CONFIG.FREE_DAILY_LIMIT);
+            expect(await db.consumeDailyFree('free-user')).toBe(true);
+            expect(await db.getDailyFreeRemaining('free-user')).toBe(CONFIG.FREE_DAILY_LIMIT - 1);
+        });
+
+        it('resets only once per business day', async () => {
+            setSystemTime(AT_MIDNIGHT);
+            await db.consumeDailyFree('once-user');
+            setSystemTime(new Date('2026-03-02T14:59:00.000Z'));
+            expect(await db.getDailyFreeRemaining('once-user')).toBe(CONFIG.FREE_DAILY_LIMIT - 1);
+        });
+    });
+
+    describe('Daily plan', () => {
+        it('bought at 14:59 UTC expires at 15:00 UTC', async () => {
+            setSystemTime(BEFORE_MIDNIGHT);
+            await db.grantDaily('late-buyer');
+            expect(await db.isDaily('late-buyer')).toBe(true);
+            expect((await db.getDailyPlanExpiresAt('late-buyer'))?.toISOString()).toBe('2026-03-01T14:59:59.999Z');
+            expect(await db.consumeDaily('late-buyer')).toBe(true);
+
+            setSystemTime(AT_MIDNIGHT);
+            expect(await db.isDaily('late-buyer')).toBe(false);
+            expect(await db.getDailyPlanRemaining('late-buyer')).toBe(0);
+            expect(await db.consumeDaily('late-buyer')).toBe(false);
+        });
+
+        it('bought at 15:00 UTC lasts the whole next business day', async () => {
+            setSystemTime(AT_MIDNIGHT);
+            await db.grantDaily('early-buyer');
+            expect((await db.getDailyPlanExpiresAt('early-buyer'))?.toISOString()).toBe('2026-03-02T14:59:59.999Z');
+
+            setSystemTime(new Date('2026-03-02T14:59:00.000Z'));
+            expect(await db.isDaily('early-buyer')).toBe(true);
+            expect(await db.getDailyPlanRemaining('early-buyer')).toBe(CONFIG.DAILY_QUERY_LIMIT);
+        });
+    });
+});
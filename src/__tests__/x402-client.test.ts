@@ -0,0 +1,158 @@
+import './x402-env';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { getPaymentAsset } from '../plugins/x402/assets';
+import type { PaymentAsset } from '../plugins/x402/assets';
+import { X402ClientService } from '../plugins/x402/client';
+import { X402Database } from '../plugins/x402/database';
+
+const asset = getPaymentAsset('base-usdc') as PaymentAsset;
+const AMOUNT_UNITS = '10000'; // 0.01 USDC
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+// A paywalled upstream: answers 402 until a request carries X-PAYMENT, then does what the test asks
+type PaidOutcome = 'redirect' | 'redirect_with_receipt' | 'drop_connection' | 'reject';
+
+function paymentReceipt(): string {
+    return Buffer.from(JSON.stringify({ success: true, transaction: TX_HASH, network: asset.network, payer: '0x0000000000000000000000000000000000000001' })).toString('base64');
+}
+
+describe('x402 client spends after the payment was sent', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let outcome: PaidOutcome;
+    let paidRequests: number;
+    let billed: { name: string; credits: number }[];
+    let db: X402Database;
+    let client: X402ClientService;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            if (!req.headers['x-payment']) {
+                // Close the socket so the paid request goes out on a fresh connection and is never retried
+                res.writeHead(402, { 'Content-Type': 'application/json', Connection: 'close' });
+                res.end(JSON.stringify({
+                    x402Version: 1,
+                    error: 'X-PAYMENT header is required',
+                    accepts: [{
+                        scheme: 'exact',
+                        network: asset.network,
+                        maxAmountRequired: AMOUNT_UNITS,
+                        resource: `${baseUrl}${req.url}`,
+                        description: 'test upstream',
+                        mimeType: 'application/json',
+                        payTo: '0x2222222222222222222222222222222222222222',
+                        maxTimeoutSeconds: 60,
+                        asset: asset.address,
+                        extra: asset.eip712,
+                    }],
+                }));
+                return;
+            }
+            paidRequests++;
+            if (outcome === 'drop_connection') {
+                req.socket.destroy();
+            } else if (outcome === 'reject') {
+                res.writeHead(402, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ x402Version: 1, error: 'invalid_payment', accepts: [] }));
+            } else {
+                res.writeHead(302, {
+                    Location: 'https://elsewhere.example/data',
+                    ...(outcome === 'redirect_with_receipt' ? { 'X-PAYMENT-RESPONSE': paymentReceipt() } : {}),
+                });
+                res.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        const settings: Record<string, string> = {
+            X402_CLIENT_PRIVATE_KEY: `0x${'11'.repeat(32)}`,
+            X402_CLIENT_ASSET: asset.id,
+            X402_CLIENT_DAILY_CAP: '1',
+            X402_CLIENT_MAX_PER_REQUEST: '0.1',
+            X402_CLIENT_ALLOWED_DOMAINS: '127.0.0.1',
+            X402_CLIENT_DRY_RUN: 'false',
+        };
+        // The x402 service stands in for the user's metered bill
+        const x402 = {
+            resolveUserId: async () => 'client-user',
+            recordUpstreamCost: (_message: Memory, name: string, credits: number) => {
+                billed.push({ name, credits });
+                return true;
+            },
+        };
+        const runtime = {
+            agentId: 'client-agent',
+            getSetting: (key: string) => settings[key] ?? null,
+            getService: (name: string) => (name === 'x402' ? x402 : null),
+        } as unknown as IAgentRuntime;
+        db = X402Database.getInstance();
+        client = await X402ClientService.start(runtime);
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        paidRequests = 0;
+        billed = [];
+    });
+
+    const message = { id: 'message-1', roomId: 'room-1', content: { text: 'hi' } } as unknown as Memory;
+
+    async function lastSpend() {
+        return (await db.findClientSpends({ agentId: 'client-agent', limit: 1 }))[0];
+    }
+
+    it('keeps a redirected payment without a receipt on the cap and the bill as unknown', async () => {
+        outcome = 'redirect';
+        const before = (await client.getSpentToday())!.amount;
+
+        const response = await client.fetch(`${baseUrl}/data`, {}, { message });
+
+        expect(response.status).toBe(302);
+        expect(paidRequests).toBe(1);
+        expect(await lastSpend()).toMatchObject({ status: 'unknown', tx_hash: null, error: 'redirected to https://elsewhere.example/data' });
+        expect((await client.getSpentToday())!.amount).toBeCloseTo(before + 0.01, 6);
+        expect(billed).toEqual([{ name: '127.0.0.1', credits: 0.1 }]);
+    });
+
+    it('settles a redirected payment with a receipt as paid', async () => {
+        outcome = 'redirect_with_receipt';
+        const before = (await client.getSpentToday())!.amount;
+
+        await client.fetch(`${baseUrl}/data`, {}, { message });
+
+        expect(await lastSpend()).toMatchObject({ status: 'paid', tx_hash: TX_HASH });
+        expect((await client.getSpentToday())!.amount).toBeCloseTo(before + 0.01, 6);
+        expect(billed).toHaveLength(1);
+    });
+
+    it('keeps a payment whose request failed after sending on the cap and the bill', async () => {
+        outcome = 'drop_connection';
+        const before = (await client.getSpentToday())!.amount;
+
+        await expect(client.fetch(`${baseUrl}/data`, {}, { message })).rejects.toThrow();
+
+        expect(paidRequests).toBe(1);
+        expect((await lastSpend()).status).toBe('unknown');
+        expect((await client.getSpentToday())!.amount).toBeCloseTo(before + 0.01, 6);
+        expect(billed).toHaveLength(1);
+    });
+
+    it('releases a payment the upstream refused', async () => {
+        outcome = 'reject';
+        const before = (await client.getSpentToday())!.amount;
+
+        const response = await client.fetch(`${baseUrl}/data`, {}, { message });
+
+        expect(response.status).toBe(402);
+        expect(await lastSpend()).toMatchObject({ status: 'failed', error: 'payment rejected' });
+        expect((await client.getSpentToday())!.amount).toBeCloseTo(before, 6);
+        expect(billed).toEqual([]);
+    });
+});
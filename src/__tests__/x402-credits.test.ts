@@ -0,0 +1,54 @@
+import './x402-env';
+import { beforeAll, describe, expect, it } from 'bun:test';
+import { X402Database } from '../plugins/x402/database';
+
+describe('metered credit charges', () => {
+    let db: X402Database;
+
+    beforeAll(async () => {
+        db = X402Database.getInstance();
+        await db.init();
+    });
+
+    async function creditEntries(userId: string) {
+        return (await db.findLedgerEntries({ userId })).filter(entry => entry.account === 'credits');
+    }
+
+    it('charges the full cost while the balance covers it', async () => {
+        await db.addCredits('charge-full', 5);
+
+        expect(await db.chargeCredits('charge-full', 2, { reason: 'query:REPLY+WEB_SEARCH' })).toBe(true);
+
+        expect(await db.getCredits('charge-full')).toBe(3);
+        expect((await creditEntries('charge-full'))[0]).toMatchObject({ delta: -2000, balance_after: 3000, reason: 'query:REPLY+WEB_SEARCH' });
+    });
+
+    it('takes only the remaining balance and records the shortfall instead of overdrawing', async () => {
+        await db.addCredits('charge-short', 1);
+
+        expect(await db.chargeCredits('charge-short', 2.5, { reason: 'query:REPLY+WEB_SEARCH' })).toBe(true);
+
+        expect(await db.getCredits('charge-short')).toBe(0);
+        expect((await creditEntries('charge-short'))[0]).toMatchObject({ delta: -1000, balance_after: 0, reason: 'query:REPLY+WEB_SEARCH (short 1.5)' });
+    });
+
+    it('charges nothing from an empty balance', async () => {
+        await db.ensureUser('charge-empty');
+
+        expect(await db.chargeCredits('charge-empty', 1)).toBe(false);
+
+        expect(await db.getCredits('charge-empty')).toBe(0);
+        expect(await creditEntries('charge-empty')).toEqual([]);
+    });
+
+    it('never lets concurrent captures take more than the balance', async () => {
+        await db.addCredits('charge-concurrent', 3);
+
+        const results = await Promise.all([1, 2, 3].map(() => db.chargeCredits('charge-concurrent', 2)));
+
+        expect(results.filter(Boolean)).toHaveLength(2);
+        expect(await db.getCredits('charge-concurrent')).toBe(0);
+        const charged = (await creditEntries('charge-concurrent')).filter(entry => entry.delta < 0);
+        expect(charged.reduce((total, entry) => total + entry.delta, 0)).toBe(-3000);
+    });
+});
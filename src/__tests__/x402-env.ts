@@ -0,0 +1,9 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Points the x402 plugin at a throwaway sql.js database and the default settings.
+// Import this before any plugin module: CONFIG is read when the plugin is first loaded.
+process.env.X402_DB_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'x402-test-'));
+process.env.X402_TIMEZONE = 'Asia/Tokyo';
+delete process.env.X402_ASSETS_FILE;
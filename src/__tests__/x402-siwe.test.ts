@@ -0,0 +1,75 @@
+import './x402-env';
+import { beforeAll, describe, expect, it } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { ethers } from 'ethers';
+import { X402Database } from '../plugins/x402/database';
+import { getWalletIdentity, parseSiweMessage } from '../plugins/x402/identity';
+import { X402Service } from '../plugins/x402/service';
+
+describe('x402 wallet sign-in (SIWE)', () => {
+    let db: X402Database;
+    let service: X402Service;
+
+    beforeAll(async () => {
+        db = X402Database.getInstance();
+        await db.init();
+        service = new X402Service({ agentId: 'agent-test' } as IAgentRuntime);
+    });
+
+    it('issues no nonce without the address of the wallet to link', async () => {
+        expect(await service.requestWalletLink('chat:no-address')).toEqual({});
+    });
+
+    it('links the wallet the nonce was issued for', async () => {
+        const wallet = ethers.Wallet.createRandom();
+        await db.addCredits('chat:owner', 5);
+        const request = await service.requestWalletLink('chat:owner', wallet.address);
+        expect(request.url).toContain(`address=${wallet.address}`);
+
+        const signedIn = await service.signInWithEthereum(request.message as string, await wallet.signMessage(request.message as string));
+        expect(signedIn).toMatchObject({ success: true, accountId: 'chat:owner', address: wallet.address });
+        expect(await db.resolveAccount(getWalletIdentity(wallet.address))).toBe('chat:owner');
+    });
+
+    describe('a second wallet signing a nonce issued to someone else', () => {
+        let requested: ethers.HDNodeWallet;
+        let intruder: ethers.HDNodeWallet;
+        let message: string;
+        let nonce: string;
+
+        beforeAll(async () => {
+            requested = ethers.Wallet.createRandom();
+            intruder = ethers.Wallet.createRandom();
+            // The intruder already has an account with a balance it would like merged with the victim's
+            await db.addCredits(getWalletIdentity(intruder.address), 1);
+            await db.addCredits('chat:victim', 5);
+            message = (await service.requestWalletLink('chat:victim', requested.address)).message as string;
+            nonce = parseSiweMessage(message)?.nonce as string;
+        });
+
+        it('cannot fetch a message for its own address', async () => {
+            expect(await service.getSiweMessage(nonce, intruder.address)).toBeNull();
+            expect(await service.getSiweMessage(nonce, requested.address)).toBe(message);
+        });
+
+        it('is rejected when it signs the message for its own address', async () => {
+            const forged = message.replace(requested.address, intruder.address);
+            const signedIn = await service.signInWithEthereum(forged, await intruder.signMessage(forged));
+            expect(signedIn).toEqual({ success: false, error: 'Address does not match the sign-in request' });
+        });
+
+        it('is rejected when it signs the issued message', async () => {
+            const signedIn = await service.signInWithEthereum(message, await intruder.signMessage(message));
+            expect(signedIn).toEqual({ success: false, error: 'Signature does not match the address' });
+        });
+
+        it('links and merges nothing, and leaves the nonce to its wallet', async () => {
+            expect(await db.resolveAccount(getWalletIdentity(intruder.address))).toBe(getWalletIdentity(intruder.address));
+            expect(await db.resolveAccount('chat:victim')).toBe('chat:victim');
+            expect(await db.getCredits('chat:victim')).toBe(5);
+
+            const signedIn = await service.signInWithEthereum(message, await requested.signMessage(message));
+            expect(signedIn).toMatchObject({ success: true, accountId: 'chat:victim' });
+        });
+    });
+});
@@ -0,0 +1,240 @@
+import './x402-env';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { ethers } from 'ethers';
+import type { PaymentAsset } from '../plugins/x402/assets';
+import { CONFIG } from '../plugins/x402/config';
+import { X402Database } from '../plugins/x402/database';
+import { getIntentAmount } from '../plugins/x402/intents';
+import type { PaymentIntent } from '../plugins/x402/intents';
+import { getTransactionStatus, verifyPaymentOnChain } from '../plugins/x402/verification';
+import recorded from './fixtures/solana-usdc-transfer.json';
+
+// Recorded mainnet-shaped getTransaction (jsonParsed): 1.000042 USDC transferChecked into the
+// receiver token account, with a Solana Pay reference key and a memo attached
+const SIGNATURE = recorded.signature;
+const RECEIVER_TOKEN_ACCOUNT = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const PAYER = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const REFERENCE = 'Fz8Vw5oFZ7z6Q2bGzAkiPPhgXK3gYXmvB4ub2J4FBrPL';
+
+const asset: PaymentAsset = {
+    id: 'solana-usdc',
+    chain: 'solana',
+    network: 'solana',
+    networkName: 'Solana',
+    rpcUrl: 'http://solana-rpc.test',
+    address: CONFIG.SOLANA_USDC_MINT,
+    receiver: RECEIVER_TOKEN_ACCOUNT,
+    symbol: 'USDC',
+    decimals: 6,
+    prices: { single: CONFIG.SINGLE_PRICE_USDC, daily: CONFIG.DAILY_PRICE_USDC, pro: CONFIG.PRO_PRICE_USDC },
+    amountStep: '0.01',
+    minConfirmations: 32,
+};
+
+type RecordedTransaction = typeof recorded.getTransaction;
+
+// Serves JSON-RPC results from the fixture (or a variant of it) through fetch
+function serveRpc(results: { getTransaction?: unknown; getSignatureStatuses?: unknown; error?: string }) {
+    const calls: string[] = [];
+    spyOn(globalThis, 'fetch').mockImplementation(async (url: any, init: any) => {
+        expect(String(url)).toBe(asset.rpcUrl);
+        const { method } = JSON.parse(init.body);
+        calls.push(method);
+        const body = results.error
+            ? { jsonrpc: '2.0', id: 1, error: { code: -32005, message: results.error } }
+            : { jsonrpc: '2.0', id: 1, result: results[method as keyof typeof results] ?? null };
+        return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+    });
+    return calls;
+}
+
+function transaction(edit: (tx: RecordedTransaction) => void = () => {}): RecordedTransaction {
+    const tx = structuredClone(recorded.getTransaction);
+    edit(tx);
+    return tx;
+}
+
+function status(confirmationStatus: string, confirmations: number | null) {
+    const result = structuredClone(recorded.getSignatureStatuses);
+    Object.assign(result.value[0], { confirmationStatus, confirmations });
+    return result;
+}
+
+describe('x402 Solana payments', () => {
+    afterEach(() => {
+        mock.restore();
+    });
+
+    describe('verifySplPayment', () => {
+        it('verifies a transferChecked into the receiver token account', async () => {
+            serveRpc(recorded);
+            const result = await verifyPaymentOnChain(SIGNATURE, [asset]);
+
+            expect(result.verified).toBe(true);
+            expect(result.asset?.id).toBe('solana-usdc');
+            expect(result.amount).toBe(1.000042);
+            expect(result.amountUnits).toBe(1000042n);
+            expect(result.isDaily).toBe(true);
+            expect(result.isPro).toBe(false);
+            expect(result.payer).toBe(PAYER);
+            expect(result.blockTimestamp).toBe(recorded.getTransaction.blockTime);
+            expect(result.references).toContain(REFERENCE);
+            expect(result.references).toContain('order-4242');
+        });
+
+        it('counts a finalized signature as fully confirmed', async () => {
+            serveRpc(recorded);
+            expect((await verifyPaymentOnChain(SIGNATURE, [asset])).confirmations).toBe(asset.minConfirmations);
+        });
+
+        it('reports the confirmations of a signature that is not finalized yet', async () => {
+            serveRpc({ ...recorded, getSignatureStatuses: status('confirmed', 5) });
+            expect((await verifyPaymentOnChain(SIGNATURE, [asset])).confirmations).toBe(5);
+        });
+
+        it('finds a transfer made through an inner instruction', async () => {
+            serveRpc({
+                ...recorded,
+                getTransaction: transaction(tx => {
+                    const [transfer, memo] = tx.transaction.message.instructions;
+                    tx.transaction.message.instructions = [memo];
+                    (tx.meta.innerInstructions as unknown[]) = [{ index: 0, instructions: [transfer] }];
+                }),
+            });
+            const result = await verifyPaymentOnChain(SIGNATURE, [asset]);
+            expect(result.verified).toBe(true);
+            expect(result.amountUnits).toBe(1000042n);
+        });
+
+        it('rejects a failed transaction', async () => {
+            serveRpc({ ...recorded, getTransaction: transaction(tx => { (tx.meta.err as unknown) = { InstructionError: [0, 'Custom'] }; }) });
+            const result = await verifyPaymentOnChain(SIGNATURE, [asset]);
+            expect(result.verified).toBe(false);
+        });
+
+        it('rejects a transfer into another token account', async () => {
+            serveRpc({
+                ...recorded,
+                getTransaction: transaction(tx => {
+                    const ix = tx.transaction.message.instructions[0] as any;
+                    ix.parsed.info.destination = '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1';
+                }),
+            });
+            expect((await verifyPaymentOnChain(SIGNATURE, [asset])).verified).toBe(false);
+        });
+
+        it('rejects a receiver token account holding another mint', async () => {
+            serveRpc({
+                ...recorded,
+                getTransaction: transaction(tx => {
+                    for (const balance of tx.meta.postTokenBalances) {
+                        balance.mint = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+                    }
+                }),
+            });
+            expect((await verifyPaymentOnChain(SIGNATURE, [asset])).verified).toBe(false);
+        });
+
+        it('rejects a transfer of another mint', async () => {
+            serveRpc({
+                ...recorded,
+                getTransaction: transaction(tx => {
+                    const ix = tx.transaction.message.instructions[0] as any;
+                    ix.parsed.info.mint = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+                }),
+            });
+            expect((await verifyPaymentOnChain(SIGNATURE, [asset])).verified).toBe(false);
+        });
+
+        it('does not find an unknown signature', async () => {
+            const calls = serveRpc({ getTransaction: null });
+            const result = await verifyPaymentOnChain(SIGNATURE, [asset]);
+            expect(result.verified).toBe(false);
+            expect(calls).toEqual(['getTransaction']);
+        });
+
+        it('treats an RPC error as not verified instead of throwing', async () => {
+            const calls = serveRpc({ error: 'Transaction history is not available from this node' });
+            const result = await verifyPaymentOnChain(SIGNATURE, [asset]);
+            expect(result.verified).toBe(false);
+            expect(calls).toEqual(['getTransaction']);
+        });
+
+        it('never queries Solana for an EVM transaction hash', async () => {
+            const calls = serveRpc(recorded);
+            await verifyPaymentOnChain(ethers.ZeroHash, [asset]);
+            expect(calls).toEqual([]);
+        });
+
+        it('reads the confirmation status of a payment', async () => {
+            serveRpc({ getSignatureStatuses: status('confirmed', 12) });
+            expect(await getTransactionStatus(asset, SIGNATURE)).toEqual({ success: true, confirmations: 12, blockHash: null });
+        });
+    });
+
+    describe('reference matching', () => {
+        let db: X402Database;
+
+        beforeAll(async () => {
+            db = X402Database.getInstance();
+            await db.init();
+        });
+
+        let intent: PaymentIntent;
+        let other: PaymentIntent;
+
+        beforeEach(async () => {
+            intent = (await db.getOrCreateIntent(`ref-user-${crypto.randomUUID()}`, asset)) as PaymentIntent;
+            other = (await db.getOrCreateIntent(`ref-other-${crypto.randomUUID()}`, asset)) as PaymentIntent;
+        });
+
+        // The fixture transaction, carrying `reference` and mined now (inside the intents' window)
+        async function verifyWithReference(reference: string, amountUnits: bigint = 1000042n) {
+            serveRpc({
+                ...recorded,
+                getTransaction: transaction(tx => {
+                    tx.blockTime = Math.floor(Date.now() / 1000);
+                    tx.transaction.message.accountKeys[4].pubkey = reference;
+                    const ix = tx.transaction.message.instructions[0] as any;
+                    ix.parsed.info.tokenAmount.amount = amountUnits.toString();
+                }),
+            });
+            const result = await verifyPaymentOnChain(SIGNATURE, [asset]);
+            expect(result.verified).toBe(true);
+            return result;
+        }
+
+        it('gives every Solana intent its own reference key', () => {
+            expect(intent.reference).toBeTruthy();
+            expect(ethers.decodeBase58(intent.reference as string)).toBeGreaterThan(0n);
+            expect(intent.reference).not.toBe(other.reference);
+        });
+
+        it('matches the intent whose reference the transaction carries, whatever the amount suffix', async () => {
+            const exactPrice = ethers.parseUnits(String(asset.prices.daily), asset.decimals);
+            const result = await verifyWithReference(intent.reference as string, exactPrice);
+            const matched = await db.findMatchingIntent(
+                intent.user_id, asset, result.amountUnits as bigint, result.blockTimestamp as number, result.payer as string, result.references
+            );
+            expect(matched?.id).toBe(intent.id);
+        });
+
+        it("does not match with another intent's reference", async () => {
+            const exactPrice = ethers.parseUnits(String(asset.prices.daily), asset.decimals);
+            const result = await verifyWithReference(other.reference as string, exactPrice);
+            const matched = await db.findMatchingIntent(
+                intent.user_id, asset, result.amountUnits as bigint, result.blockTimestamp as number, result.payer as string, result.references
+            );
+            expect(matched).toBeNull();
+        });
+
+        it('falls back to the amount suffix without a reference', async () => {
+            const amountUnits = ethers.parseUnits(getIntentAmount(asset, asset.prices.daily, intent), asset.decimals);
+            const result = await verifyWithReference(REFERENCE, amountUnits);
+            const matched = await db.findMatchingIntent(
+                intent.user_id, asset, result.amountUnits as bigint, result.blockTimestamp as number, result.payer as string, result.references
+            );
+            expect(matched?.id).toBe(intent.id);
+        });
+    });
+});
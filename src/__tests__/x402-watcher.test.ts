@@ -0,0 +1,272 @@
+import './x402-env';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { ethers } from 'ethers';
+import { getAssetReceiver, getPaymentAsset } from '../plugins/x402/assets';
+import type { PaymentAsset } from '../plugins/x402/assets';
+import { CONFIG } from '../plugins/x402/config';
+import { X402Database } from '../plugins/x402/database';
+import { getIntentAmount, intentMatchesTransfer } from '../plugins/x402/intents';
+import type { PaymentIntent } from '../plugins/x402/intents';
+import { X402Service } from '../plugins/x402/service';
+import { TRANSFER_EVENT_TOPIC } from '../plugins/x402/verification';
+
+const asset = getPaymentAsset('base-usdc') as PaymentAsset;
+const PAYER = '0x1111111111111111111111111111111111111111';
+const OTHER_PAYER = '0x2222222222222222222222222222222222222222';
+
+// Stand-in for the RPC node: Transfer logs by block, served through the JsonRpcProvider methods the watcher calls
+type FakeTransfer = { blockNumber: number; txHash: string; payer: string; amountUnits: bigint };
+
+class FakeChain {
+    head = 0;
+    transfers: FakeTransfer[] = [];
+    getLogsCalls: { fromBlock: number; toBlock: number }[] = [];
+    failGetLogs = false;
+
+    install() {
+        spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => this.head);
+        spyOn(ethers.JsonRpcProvider.prototype, 'getBlock').mockImplementation(
+            async (block: any) => ({ number: Number(block), timestamp: Math.floor(Date.now() / 1000) }) as any
+        );
+        spyOn(ethers.JsonRpcProvider.prototype, 'getLogs').mockImplementation(async (filter: any) => {
+            // Only the Base USDC watcher sees transfers; other assets scan an empty chain
+            if (filter.address !== asset.address) return [];
+            if (this.failGetLogs) throw new Error('RPC timeout');
+            this.getLogsCalls.push({ fromBlock: filter.fromBlock, toBlock: filter.toBlock });
+            return this.transfers
+                .filter(t => t.blockNumber >= filter.fromBlock && t.blockNumber <= filter.toBlock)
+                .map(t => ({
+                    address: asset.address,
+                    blockNumber: t.blockNumber,
+                    blockHash: ethers.zeroPadValue(ethers.toBeHex(t.blockNumber), 32),
+                    transactionHash: t.txHash,
+                    topics: [TRANSFER_EVENT_TOPIC, ethers.zeroPadValue(t.payer, 32), ethers.zeroPadValue(getAssetReceiver(asset), 32)],
+                    data: ethers.toBeHex(t.amountUnits, 32),
+                })) as any;
+        });
+    }
+}
+
+function txHash(n: number): string {
+    return ethers.zeroPadValue(ethers.toBeHex(n), 32);
+}
+
+function makeIntent(overrides: Partial<PaymentIntent> = {}): PaymentIntent {
+    const now = Date.now();
+    return {
+        id: 'intent-1',
+        user_id: 'user-1',
+        asset_id: asset.id,
+        currency: asset.symbol,
+        suffix: 42,
+        reference: null,
+        payer: null,
+        status: 'open',
+        tx_hash: null,
+        room_id: null,
+        agent_id: null,
+        source: null,
+        coupon_redemption_id: null,
+        discount_percent: 0,
+        discount_plan: null,
+        expires_at: new Date(now + 30 * 60 * 1000).toISOString(),
+        fulfilled_at: null,
+        created_at: new Date(now).toISOString(),
+        ...overrides,
+    };
+}
+
+function intentUnits(intent: PaymentIntent, price: number = asset.prices.single): bigint {
+    return ethers.parseUnits(getIntentAmount(asset, price, intent), asset.decimals);
+}
+
+describe('x402 payment watcher', () => {
+    let db: X402Database;
+    let service: X402Service;
+    let chain: FakeChain;
+
+    beforeAll(async () => {
+        db = X402Database.getInstance();
+        await db.init();
+        service = new X402Service({ agentId: 'agent-test' } as IAgentRuntime);
+    });
+
+    beforeEach(() => {
+        chain = new FakeChain();
+        chain.install();
+    });
+
+    afterEach(() => {
+        mock.restore();
+    });
+
+    describe('intentMatchesTransfer', () => {
+        const now = Math.floor(Date.now() / 1000);
+
+        it('matches the amount suffix inside the validity window', () => {
+            const intent = makeIntent();
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), now, PAYER)).toBe(true);
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent, asset.prices.daily), now, PAYER)).toBe(true);
+        });
+
+        it('rejects another suffix or an amount below the suffix unit', () => {
+            const intent = makeIntent();
+            expect(intentMatchesTransfer(makeIntent({ suffix: 43 }), asset, intentUnits(intent), now, PAYER)).toBe(false);
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent) * 10n, now, PAYER)).toBe(false);
+        });
+
+        it('rejects transfers of another asset', () => {
+            const intent = makeIntent({ asset_id: 'polygon-jpyc' });
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), now, PAYER)).toBe(false);
+        });
+
+        it('only accepts the bound payer', () => {
+            const intent = makeIntent({ payer: PAYER.toLowerCase() });
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), now, ethers.getAddress(PAYER))).toBe(true);
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), now, OTHER_PAYER)).toBe(false);
+        });
+
+        it('allows a minute of clock skew before creation and nothing after expiry', () => {
+            const createdAt = new Date('2026-03-01T00:00:00.000Z');
+            const intent = makeIntent({
+                created_at: createdAt.toISOString(),
+                expires_at: new Date(createdAt.getTime() + 30 * 60 * 1000).toISOString(),
+            });
+            const at = (offsetSeconds: number) => createdAt.getTime() / 1000 + offsetSeconds;
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), at(-60), PAYER)).toBe(true);
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), at(-61), PAYER)).toBe(false);
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), at(30 * 60), PAYER)).toBe(true);
+            expect(intentMatchesTransfer(intent, asset, intentUnits(intent), at(30 * 60 + 1), PAYER)).toBe(false);
+        });
+
+        it('matches a reference without the amount suffix', () => {
+            const intent = makeIntent({ reference: 'ref-key' });
+            const exactPrice = ethers.parseUnits(String(asset.prices.single), asset.decimals);
+            expect(intentMatchesTransfer(intent, asset, exactPrice, now, PAYER, ['ref-key'])).toBe(true);
+            expect(intentMatchesTransfer(intent, asset, exactPrice, now, PAYER, ['other-key'])).toBe(false);
+        });
+    });
+
+    describe('findIntentForTransfer', () => {
+        it('finds the open intent whose suffix the amount carries', async () => {
+            const intent = (await db.getOrCreateIntent('lookup-user', asset)) as PaymentIntent;
+            const found = await db.findIntentForTransfer(asset, intentUnits(intent), Math.floor(Date.now() / 1000), PAYER);
+            expect(found?.id).toBe(intent.id);
+        });
+
+        it('ignores an amount without a suffix', async () => {
+            const exactPrice = ethers.parseUnits(String(asset.prices.single), asset.decimals);
+            expect(await db.findIntentForTransfer(asset, exactPrice, Math.floor(Date.now() / 1000), PAYER)).toBeNull();
+        });
+    });
+
+    describe('cursors', () => {
+        it('starts a new cursor WATCHER_START_LOOKBACK_BLOCKS behind the head', async () => {
+            expect(await db.getWatcherCursor(asset.id)).toBeNull();
+            chain.head = 5000;
+            await service.scanIncomingTransfers();
+            expect(chain.getLogsCalls).toEqual([{ fromBlock: 5000 - CONFIG.WATCHER_START_LOOKBACK_BLOCKS + 1, toBlock: 5000 }]);
+            expect(await db.getWatcherCursor(asset.id)).toBe(5000);
+        });
+
+        it('does not query logs when the cursor is at the head', async () => {
+            chain.head = 100;
+            await db.setWatcherCursor(asset.id, 100);
+            await service.scanIncomingTransfers();
+            expect(chain.getLogsCalls).toEqual([]);
+            expect(await db.getWatcherCursor(asset.id)).toBe(100);
+        });
+
+        it('keeps the cursor when a range fails, and retries the same range', async () => {
+            chain.head = 150;
+            await db.setWatcherCursor(asset.id, 100);
+            chain.failGetLogs = true;
+            await service.scanIncomingTransfers();
+            expect(await db.getWatcherCursor(asset.id)).toBe(100);
+
+            chain.failGetLogs = false;
+            await service.scanIncomingTransfers();
+            expect(chain.getLogsCalls).toEqual([{ fromBlock: 101, toBlock: 150 }]);
+            expect(await db.getWatcherCursor(asset.id)).toBe(150);
+        });
+    });
+
+    describe('catch-up and restarts', () => {
+        it('catches up in WATCHER_MAX_BLOCK_RANGE steps without skipping blocks', async () => {
+            const range = CONFIG.WATCHER_MAX_BLOCK_RANGE;
+            chain.head = 100 + range * 2 + 10;
+            await db.setWatcherCursor(asset.id, 100);
+
+            for (let i = 0; i < 3; i++) {
+                await service.scanIncomingTransfers();
+            }
+            expect(chain.getLogsCalls).toEqual([
+                { fromBlock: 101, toBlock: 100 + range },
+                { fromBlock: 101 + range, toBlock: 100 + range * 2 },
+                { fromBlock: 101 + range * 2, toBlock: chain.head },
+            ]);
+            expect(await db.getWatcherCursor(asset.id)).toBe(chain.head);
+        });
+
+        it('credits a transfer matching an intent and fulfills the intent', async () => {
+            const intent = (await db.getOrCreateIntent('watched-user', asset)) as PaymentIntent;
+            chain.head = 300;
+            await db.setWatcherCursor(asset.id, 200);
+            chain.transfers.push({ blockNumber: 250, txHash: txHash(1), payer: PAYER, amountUnits: intentUnits(intent) });
+
+            await service.scanIncomingTransfers();
+
+            const payment = await db.getPayment(txHash(1));
+            expect(payment?.user_id).toBe('watched-user');
+            expect(payment?.status).toBe('confirmed');
+            expect((await db.getIntent(intent.id))?.status).toBe('fulfilled');
+            expect(await db.getCredits('watched-user')).toBeGreaterThan(0);
+        });
+
+        it('holds a transfer with too few confirmations as pending', async () => {
+            const intent = (await db.getOrCreateIntent('shallow-user', asset)) as PaymentIntent;
+            chain.head = 400;
+            await db.setWatcherCursor(asset.id, 390);
+            chain.transfers.push({ blockNumber: 400, txHash: txHash(2), payer: PAYER, amountUnits: intentUnits(intent) });
+
+            await service.scanIncomingTransfers();
+
+            expect((await db.getPayment(txHash(2)))?.status).toBe('pending');
+            expect(await db.getCredits('shallow-user')).toBe(0);
+        });
+
+        it('ignores a transfer matching no intent', async () => {
+            chain.head = 600;
+            await db.setWatcherCursor(asset.id, 500);
+            const exactPrice = ethers.parseUnits(String(asset.prices.single), asset.decimals);
+            chain.transfers.push({ blockNumber: 550, txHash: txHash(3), payer: OTHER_PAYER, amountUnits: exactPrice });
+
+            await service.scanIncomingTransfers();
+
+            expect(await db.getPayment(txHash(3))).toBeNull();
+            expect(await db.getWatcherCursor(asset.id)).toBe(600);
+        });
+
+        it('never credits a transfer twice when a restart rescans its block', async () => {
+            const intent = (await db.getOrCreateIntent('restart-user', asset)) as PaymentIntent;
+            chain.head = 800;
+            await db.setWatcherCursor(asset.id, 700);
+            chain.transfers.push({ blockNumber: 750, txHash: txHash(4), payer: PAYER, amountUnits: intentUnits(intent) });
+
+            await service.scanIncomingTransfers();
+            const credits = await db.getCredits('restart-user');
+            const entries = await db.findLedgerEntries({ paymentTxHash: txHash(4) });
+            expect(credits).toBeGreaterThan(0);
+
+            // A replica restored from an older cursor scans the same range again
+            const restarted = new X402Service({ agentId: 'agent-restarted' } as IAgentRuntime);
+            await db.setWatcherCursor(asset.id, 700);
+            await restarted.scanIncomingTransfers();
+
+            expect(await db.getCredits('restart-user')).toBe(credits);
+            expect(await db.findLedgerEntries({ paymentTxHash: txHash(4) })).toHaveLength(entries.length);
+            expect(await db.getWatcherCursor(asset.id)).toBe(800);
+        });
+    });
+});
@@ -24,7 +24,7 @@ import { twoCharacter } from "./two-character.ts";
 import { alizaCharacter } from "./aliza-character.ts";
 
 import plugin from "./plugin.ts"; // starter plugin
-import { x402Plugin } from "./x402-plugin.ts";
+import { x402Plugin } from "./plugins/x402/index.ts";
 import { erc8004Plugin } from "./plugins/erc8004/index.ts";
 
 // 1体目
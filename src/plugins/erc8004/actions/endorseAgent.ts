@@ -177,6 +177,29 @@ export const endorseAgentAction: Action = {
                         amount: amount.toString(),
                     },
                 };
+            } else if (result.pendingApprovalId) {
+                const response = `⏳ Endorsement of agent ${targetAgentId} (${amount} points) is waiting for admin approval.
+
+• Approval ID: \`${result.pendingApprovalId}\`
+It will be sent on-chain once an admin approves it.`;
+
+                if (callback) {
+                    await callback({
+                        text: response,
+                        actions: ['ENDORSE_AGENT_ERC8004'],
+                        source: message.content.source,
+                    });
+                }
+
+                return {
+                    text: response,
+                    success: true,
+                    data: {
+                        pendingApprovalId: result.pendingApprovalId,
+                        targetAgentId,
+                        amount: amount.toString(),
+                    },
+                };
             } else {
                 const errorResponse = `❌ Failed to endorse agent ${targetAgentId}: ${result.error}`;
 
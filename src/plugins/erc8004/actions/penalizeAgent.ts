@@ -183,6 +183,30 @@ export const penalizeAgentAction: Action = {
                         reason,
                     },
                 };
+            } else if (result.pendingApprovalId) {
+                const response = `⏳ Penalty for agent ${targetAgentId} (${amount} points) is waiting for admin approval.
+
+• Approval ID: \`${result.pendingApprovalId}\`
+It will be sent on-chain once an admin approves it.`;
+
+                if (callback) {
+                    await callback({
+                        text: response,
+                        actions: ['PENALIZE_AGENT_ERC8004'],
+                        source: message.content.source,
+                    });
+                }
+
+                return {
+                    text: response,
+                    success: true,
+                    data: {
+                        pendingApprovalId: result.pendingApprovalId,
+                        targetAgentId,
+                        amount: amount.toString(),
+                        reason,
+                    },
+                };
             } else {
                 const errorResponse = `❌ Failed to penalize agent ${targetAgentId}: ${result.error}`;
 
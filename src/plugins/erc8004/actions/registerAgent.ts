@@ -437,6 +437,30 @@ Example response:
                         domain,
                     },
                 };
+            } else if (result.pendingApprovalId) {
+                const response = `⏳ Registration of agent ${agentId} is waiting for admin approval.
+
+• Approval ID: \`${result.pendingApprovalId}\`
+It will be sent on-chain once an admin approves it.`;
+
+                if (callback) {
+                    await callback({
+                        text: response,
+                        actions: ['REGISTER_AGENT_ERC8004'],
+                        source: message.content.source,
+                    });
+                }
+
+                return {
+                    text: response,
+                    success: true,
+                    data: {
+                        pendingApprovalId: result.pendingApprovalId,
+                        agentId,
+                        name,
+                        domain,
+                    },
+                };
             } else {
                 const errorResponse = `❌ Failed to register agent ${agentId}: ${result.error}`;
 
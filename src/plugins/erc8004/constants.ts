@@ -1,5 +1,8 @@
 export const ERC8004_SERVICE_NAME = 'ERC8004_SERVICE';
 
+// Transaction policy of the x402 plugin: budgets, admin approvals and a kill switch for writes
+export const TX_POLICY_SERVICE_NAME = 'tx-policy';
+
 export const DEFAULT_CHAIN_ID = 8453; // Base mainnet
 export const SUPPORTED_CHAINS = {
     ANVIL: 31337,
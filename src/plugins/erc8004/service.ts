@@ -8,6 +8,7 @@ import {
     DEFAULT_RPC_URLS,
     CACHE_KEYS,
     CACHE_TTL,
+    TX_POLICY_SERVICE_NAME,
 } from './constants';
 import { validateERC8004Config } from './environment';
 import type {
@@ -22,6 +23,7 @@ import type {
 } from './types';
 import type { ERC8004ConfigOptions } from './environment';
 import { RegistryManager } from './registry-manager';
+import type { AgentTransactionSentHandler, TxPolicyService } from '../x402';
 
 /**
  * ERC8004Service - Service for interacting with ERC-8004 on-chain reputation system
@@ -41,6 +43,7 @@ export class ERC8004Service extends Service {
     private configOptions?: ERC8004ConfigOptions;
     private registryManager: RegistryManager;
     private hasWarnedReadOnly: boolean = false; // Track if we've already warned about read-only mode
+    private hasWarnedNoPolicy: boolean = false; // Track if we've already warned about refusing writes without a transaction policy
     private handlers: Map<string, RegistrationHandler> = new Map();
 
     constructor(protected runtime: IAgentRuntime, configOptions?: ERC8004ConfigOptions) {
@@ -103,19 +106,18 @@ export class ERC8004Service extends Service {
 
                 try {
                     runtime.logger.info(`Registering agent: ${agentId}`);
-                    const contract = service.getContract()!;
-                    const tx = await contract.registerAgent(agentId, name, domain);
-
-                    const receipt = await tx.wait();
-                    runtime.logger.info(`Agent registered successfully. TX: ${receipt?.hash || 'unknown'}`);
+                    const result = await service.sendContractTransaction(
+                        'registerAgent',
+                        [agentId, name, domain],
+                        `Register agent ${agentId} (${name}, ${domain})`
+                    );
+                    if (!result.success) return result;
+                    runtime.logger.info(`Agent registered successfully. TX: ${result.transactionHash || 'unknown'}`);
 
                     // Invalidate cache
                     await service.invalidateAgentCache(agentId);
 
-                    return {
-                        success: true,
-                        transactionHash: receipt?.hash || '',
-                    };
+                    return result;
                 } catch (error) {
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     runtime.logger.error(`Error registering agent ${agentId}:`, errorMessage);
@@ -254,6 +256,9 @@ export class ERC8004Service extends Service {
                                     'unknown';
 
                     this.runtime.logger.info(`ERC-8004: Service initialized with wallet: ${this.wallet.address} (key from: ${keySource})`);
+
+                    // Lets the policy send approved transactions after a restart (writes register it again)
+                    this.getTransactionPolicy();
                 } catch (error) {
                     this.runtime.logger.error(
                         {
@@ -549,16 +554,13 @@ export class ERC8004Service extends Service {
 
         try {
             this.runtime.logger.info(`Updating agent: ${agentId}`);
-            const tx = await this.contract.updateAgent(agentId, name, domain);
-            const receipt = await tx.wait();
-            this.runtime.logger.info(`Agent updated successfully. TX: ${receipt?.hash || 'unknown'}`);
+            const result = await this.sendContractTransaction('updateAgent', [agentId, name, domain], `Update agent ${agentId} (${name}, ${domain})`);
+            if (!result.success) return result;
+            this.runtime.logger.info(`Agent updated successfully. TX: ${result.transactionHash || 'unknown'}`);
 
             await this.invalidateAgentCache(agentId);
 
-            return {
-                success: true,
-                transactionHash: receipt?.hash || '',
-            };
+            return result;
         } catch (error) {
             this.runtime.logger.error(`Error updating agent ${agentId}:`, error as string);
             return {
@@ -588,16 +590,13 @@ export class ERC8004Service extends Service {
 
         try {
             this.runtime.logger.info(`Deactivating agent: ${agentId}`);
-            const tx = await this.contract.deactivateAgent(agentId);
-            const receipt = await tx.wait();
-            this.runtime.logger.info(`Agent deactivated successfully. TX: ${receipt?.hash || 'unknown'}`);
+            const result = await this.sendContractTransaction('deactivateAgent', [agentId], `Deactivate agent ${agentId}`);
+            if (!result.success) return result;
+            this.runtime.logger.info(`Agent deactivated successfully. TX: ${result.transactionHash || 'unknown'}`);
 
             await this.invalidateAgentCache(agentId);
 
-            return {
-                success: true,
-                transactionHash: receipt?.hash || '',
-            };
+            return result;
         } catch (error) {
             this.runtime.logger.error(`Error deactivating agent ${agentId}:`, error as string);
             return {
@@ -631,17 +630,18 @@ export class ERC8004Service extends Service {
 
         try {
             this.runtime.logger.info(`Endorsing agent ${endorsement.agentId} with amount ${endorsement.amount}`);
-            const tx = await this.contract.endorseAgent(endorsement.agentId, endorsement.amount);
-            const receipt = await tx.wait();
-            this.runtime.logger.info(`Agent endorsed successfully. TX: ${receipt?.hash || 'unknown'}`);
+            const result = await this.sendContractTransaction(
+                'endorseAgent',
+                [endorsement.agentId, endorsement.amount],
+                `Endorse agent ${endorsement.agentId} with ${endorsement.amount} reputation points`
+            );
+            if (!result.success) return result;
+            this.runtime.logger.info(`Agent endorsed successfully. TX: ${result.transactionHash || 'unknown'}`);
 
             // Invalidate reputation cache
             await this.runtime.setCache(`${CACHE_KEYS.REPUTATION}:${endorsement.agentId}`, null as any);
 
-            return {
-                success: true,
-                transactionHash: receipt?.hash || '',
-            };
+            return result;
         } catch (error) {
             this.runtime.logger.error(`Error endorsing agent ${endorsement.agentId}:`, error as string);
             return {
@@ -671,17 +671,18 @@ export class ERC8004Service extends Service {
 
         try {
             this.runtime.logger.info(`Penalizing agent ${penalization.agentId} by ${penalization.amount} points`);
-            const tx = await this.contract.penalizeAgent(penalization.agentId, penalization.amount);
-            const receipt = await tx.wait();
-            this.runtime.logger.info(`Agent penalized successfully. TX: ${receipt?.hash || 'unknown'}`);
+            const result = await this.sendContractTransaction(
+                'penalizeAgent',
+                [penalization.agentId, penalization.amount],
+                `Penalize agent ${penalization.agentId} by ${penalization.amount} reputation points`
+            );
+            if (!result.success) return result;
+            this.runtime.logger.info(`Agent penalized successfully. TX: ${result.transactionHash || 'unknown'}`);
 
             // Invalidate reputation cache
             await this.runtime.setCache(`${CACHE_KEYS.REPUTATION}:${penalization.agentId}`, null as any);
 
-            return {
-                success: true,
-                transactionHash: receipt?.hash || '',
-            };
+            return result;
         } catch (error) {
             this.runtime.logger.error(`Error penalizing agent ${penalization.agentId}:`, error as string);
             return {
@@ -711,17 +712,14 @@ export class ERC8004Service extends Service {
 
         try {
             this.runtime.logger.info(`Reporting agent ${report.agentId} for: ${report.reason}`);
-            const tx = await this.contract.reportAgent(report.agentId, report.reason);
-            const receipt = await tx.wait();
-            this.runtime.logger.info(`Agent reported successfully. TX: ${receipt?.hash || 'unknown'}`);
+            const result = await this.sendContractTransaction('reportAgent', [report.agentId, report.reason], `Report agent ${report.agentId}: ${report.reason}`);
+            if (!result.success) return result;
+            this.runtime.logger.info(`Agent reported successfully. TX: ${result.transactionHash || 'unknown'}`);
 
             // Invalidate reputation cache
             await this.runtime.setCache(`${CACHE_KEYS.REPUTATION}:${report.agentId}`, null as any);
 
-            return {
-                success: true,
-                transactionHash: receipt?.hash || '',
-            };
+            return result;
         } catch (error) {
             this.runtime.logger.error(`Error reporting agent ${report.agentId}:`, error as string);
             return {
@@ -731,6 +729,83 @@ export class ERC8004Service extends Service {
         }
     }
 
+    //
+    // MARK: Transaction Policy
+    //
+
+    /**
+     * Get the transaction policy (budgets, admin approvals, kill switch) with this wallet registered,
+     * or null when the x402 plugin is not loaded
+     */
+    private getTransactionPolicy(): TxPolicyService | null {
+        const policy = this.runtime.getService<TxPolicyService>(TX_POLICY_SERVICE_NAME);
+        if (policy && this.wallet) {
+            policy.registerSigner(ERC8004_SERVICE_NAME, this.wallet, this.onApprovedTransactionSent);
+        }
+        return policy;
+    }
+
+    /**
+     * Clear the caches a write touches once an approved transaction reaches the chain
+     * (immediate sends clear them in the write methods themselves)
+     */
+    private onApprovedTransactionSent: AgentTransactionSentHandler = async (tx) => {
+        const parsed = this.contract?.interface.parseTransaction({ data: tx.data });
+        if (!parsed) return;
+        const agentId = String(parsed.args[0]);
+        if (['registerAgent', 'updateAgent', 'deactivateAgent'].includes(parsed.name)) {
+            await this.invalidateAgentCache(agentId);
+        } else {
+            await this.runtime.setCache(`${CACHE_KEYS.REPUTATION}:${agentId}`, null as any);
+        }
+        this.runtime.logger.info(`ERC-8004: Approved ${parsed.name} for ${agentId} sent. TX: ${tx.txHash}`);
+    };
+
+    /**
+     * Send a contract write through the transaction policy. Without one the write is refused, unless
+     * ERC8004_ALLOW_UNGUARDED_WRITES=true lets the wallet send it directly.
+     */
+    private async sendContractTransaction(method: string, args: unknown[], description: string): Promise<TransactionResult> {
+        const contract = this.contract!;
+        const policy = this.getTransactionPolicy();
+        if (!policy) {
+            if (String(this.runtime.getSetting('ERC8004_ALLOW_UNGUARDED_WRITES')).toLowerCase() !== 'true') {
+                if (!this.hasWarnedNoPolicy) {
+                    this.runtime.logger.warn('ERC-8004: No transaction policy service (tx-policy) - on-chain writes are refused');
+                    this.hasWarnedNoPolicy = true;
+                }
+                return {
+                    success: false,
+                    error: 'No transaction policy available: writes need the x402 plugin (budgets, approvals and kill switch). Set ERC8004_ALLOW_UNGUARDED_WRITES=true to send without it.',
+                };
+            }
+            this.runtime.logger.warn(`ERC-8004: Sending ${method} without a transaction policy (ERC8004_ALLOW_UNGUARDED_WRITES)`);
+            const tx = await contract[method](...args);
+            const receipt = await tx.wait();
+            return {
+                success: true,
+                transactionHash: receipt?.hash || '',
+            };
+        }
+
+        const result = await policy.submit({
+            kind: `erc8004:${method}`,
+            signer: ERC8004_SERVICE_NAME,
+            to: await contract.getAddress(),
+            data: contract.interface.encodeFunctionData(method, args),
+            description,
+        });
+        switch (result.status) {
+            case 'sent':
+                return { success: true, transactionHash: result.txHash };
+            case 'pending':
+                this.runtime.logger.info(`ERC-8004: ${method} is waiting for admin approval (${result.id})`);
+                return { success: false, pendingApprovalId: result.id, error: `Waiting for admin approval (transaction ${result.id})` };
+            default:
+                return { success: false, error: result.status === 'rejected' ? `Rejected by the transaction policy: ${result.error}` : result.error };
+        }
+    }
+
     //
     // MARK: Multi-Registry Methods
     //
@@ -36,6 +36,7 @@ export interface TransactionResult {
     success: boolean;
     transactionHash?: string;
     error?: string;
+    pendingApprovalId?: string; // Set when the transaction policy holds it for an admin
 }
 
 export interface ReputationScore {
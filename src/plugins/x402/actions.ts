@@ -0,0 +1,430 @@
+import type {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    ActionResult,
+    Content,
+    Media,
+} from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { CONFIG } from './config';
+import type { PaymentAsset } from './assets';
+import { PAYMENT_ASSETS, getPaymentAsset } from './assets';
+import { formatCredits, formatActionPriceLines } from './pricing';
+import { formatBusinessDate, getProGraceEnd } from './time';
+import { formatPendingPaymentText, formatPaymentCreditedText, redeemVerifiedPayment } from './ledger';
+import { extractUserId } from './messages';
+import {
+    getIntentOrigin,
+    getPaymentQuote,
+    getAssetLabel,
+    getPaymentLink,
+    PLAN_LABELS,
+    getPaymentQrAttachments,
+    formatProRenewalLines,
+} from './payment-prompt';
+import { isAdminLoginMessage } from './admin-auth';
+import { getAccountLinkCommand } from './identity';
+import { getRedeemCode, formatReferralLines } from './coupons';
+import { getRefundRequest } from './refunds';
+import { SOLANA_SIGNATURE_REGEX, verifyPaymentOnChain } from './verification';
+import type { X402Service } from './service';
+import { getTxReviewCommand } from './tx-policy';
+
+// ============================================
+// Actions
+// ============================================
+
+// Status Check Action
+export const statusAction: Action = {
+    name: 'CHECK_STATUS',
+    similes: ['ステータス', 'status', '残り回数', '利用状況', 'マイステータス', 'x402'],
+    description: 'PRIORITY: Check user subscription status and remaining credits. Triggers on /status, x402, ステータス commands.',
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        const text = (message.content.text || '').trim();
+        const textLower = text.toLowerCase();
+        const agentName = runtime.character?.name || 'unknown';
+
+        // Dliza and Coo can respond to payment gate
+        if (agentName !== 'Dliza' && agentName !== 'Coo') {
+            return false;
+        }
+
+        // Strict matching for status commands
+        const isStatusCommand =
+            // Exact matches (single word)
+            textLower === 'ステータス' ||
+            textLower === 'status' ||
+            textLower === 'x402' ||
+            textLower === '/status' ||
+            textLower === '/x402' ||
+            // Contains specific phrases
+            textLower.includes('残り回数') ||
+            textLower.includes('利用状況') ||
+            textLower.includes('x402 status') ||
+            textLower.includes('x402 ステータス') ||
+            // Starts with command prefix
+            textLower.startsWith('/status') ||
+            textLower.startsWith('x402 ');
+
+        if (isStatusCommand) {
+            logger.info(`[CHECK_STATUS:${agentName}] ✅ Matched status command: "${text}"`);
+        }
+
+        return isStatusCommand;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return { success: false };
+
+        const userId = await service.resolveUserId(message);
+        const db = service.getDatabase();
+
+        // Promote anything that became deep enough before showing the balance
+        await service.checkPendingPayments(userId);
+        const status = await db.getUserStatus(userId);
+        const pendingPayments = await db.getPendingPayments(userId);
+
+        let statusText = '📊 **あなたの利用状況**\n\n';
+
+        if (await service.getAdminAuth().isAdminSender(message)) {
+            statusText += '👑 **管理者モード** - 無制限\n';
+        } else if (status.isPro) {
+            const expiresStr = status.proExpiresAt ? formatBusinessDate(status.proExpiresAt) : '';
+            if (status.proInGrace) {
+                const graceStr = status.proExpiresAt ? formatBusinessDate(getProGraceEnd(status.proExpiresAt)) : '';
+                statusText += `⚠️ **Pro会員（猶予期間中）** - ${expiresStr}に期限切れ、${graceStr}まで利用可能\n`;
+            } else {
+                statusText += `⭐ **Pro会員** - 無制限（${expiresStr}まで・残り${status.proDaysRemaining}日）\n`;
+            }
+            const quote = await getPaymentQuote(db, userId, getIntentOrigin(runtime, message));
+            if (quote) {
+                statusText += `\n🔄 **更新**（現在の有効期限から${CONFIG.PRO_DURATION_DAYS}日間延長）\n${formatProRenewalLines(userId, quote)}\n`;
+            }
+        } else if (status.isDaily) {
+            statusText += `📅 **Dailyプラン** - 残り ${status.dailyPlanRemaining}/${CONFIG.DAILY_QUERY_LIMIT}回（本日中有効）\n`;
+        } else {
+            statusText += `🎫 購入クレジット: ${formatCredits(status.credits)}\n`;
+            statusText += `🆓 本日の無料枠: ${status.dailyFreeRemaining}/${CONFIG.FREE_DAILY_LIMIT}回\n`;
+        }
+
+        for (const payment of pendingPayments) {
+            const asset = getPaymentAsset(payment.asset_id);
+            const required = asset?.minConfirmations ?? 0;
+            statusText += `⏳ 確認中 (${payment.confirmations}/${required}): ${payment.amount} ${asset?.symbol || ''}\n`;
+        }
+
+        const linkedIdentities = await db.getLinkedIdentities(userId);
+        if (linkedIdentities.length > 0) {
+            statusText += `🔗 連携中のアカウント: ${linkedIdentities.length + 1}件（残高を共有）\n`;
+        }
+        for (const wallet of await db.getAccountWallets(userId)) {
+            statusText += `👛 サインイン済みウォレット: \`${wallet.address.slice(0, 6)}…${wallet.address.slice(-4)}\`（送金は自動で付与）\n`;
+        }
+        const discount = await db.getActiveDiscount(userId);
+        if (discount) {
+            statusText += `🎁 クーポン割引: ${discount.discount_percent}% OFF（${discount.plan ? PLAN_LABELS[discount.plan] : '全プラン'}、次回のお支払いに適用）\n`;
+        }
+        const referrals = await db.getReferralStats(userId);
+        if (referrals.referred > 0) {
+            statusText += `🤝 紹介: ${referrals.referred}人（うち支払い済み ${referrals.rewarded}人）\n`;
+        }
+
+        statusText += `\n---\n`;
+        statusText += `💰 **料金プラン**\n\n`;
+        for (const asset of PAYMENT_ASSETS) {
+            statusText += `**${asset.networkName} (${asset.symbol})**\n`;
+            statusText += `• 🎫 単発: ${asset.prices.single} ${asset.symbol} / 1クレジット\n`;
+            statusText += `• 📅 Daily: ${asset.prices.daily} ${asset.symbol} / ${CONFIG.DAILY_QUERY_LIMIT}回/日\n`;
+            statusText += `• ⭐ Pro: ${asset.prices.pro} ${asset.symbol} / ${CONFIG.PRO_DURATION_DAYS}日間無制限\n\n`;
+        }
+
+        statusText += `💡 **1回あたりの料金（クレジット）**\n${formatActionPriceLines()}\n`;
+        statusText += `ℹ️ 無料枠とDailyプランは料金に関係なく1メッセージ1回として数えます\n`;
+
+        const responseContent: Content = {
+            text: statusText,
+            source: message.content.source,
+        };
+
+        await callback(responseContent);
+        return { success: true };
+    },
+    examples: []
+};
+
+// Check Payment Action - VERY AGGRESSIVE to intercept all messages when no access
+export const checkPaymentAction: Action = {
+    name: 'CHECK_PAYMENT',
+    similes: [
+        'RESPOND', 'ANSWER', 'HELP', 'ASSIST', 'EXPLAIN', 'TELL', 'SHOW',
+        'CONSULT', 'ASK_QUESTION', 'REQUEST_ADVICE', 'GET_NEWS', 'SEARCH',
+        'QUERY', 'QUESTION', 'INFO', 'INFORMATION', 'CHAT', 'TALK', 'DISCUSS',
+        'ANALYZE', 'REVIEW', 'CHECK', 'FIND', 'LOOK', 'GET', 'GIVE', 'PROVIDE',
+        'CONTINUE', 'START', 'BEGIN', 'HELLO', 'HI', 'GREETING'
+    ],
+    description: 'Payment gate - MUST intercept ALL messages when user has no access',
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) {
+            logger.warn('[CHECK_PAYMENT] No x402 service found');
+            return false;
+        }
+
+        const userId = await service.resolveUserId(message);
+        const text = (message.content.text || '').toLowerCase();
+        const agentName = runtime.character?.name || 'unknown';
+
+        logger.info(`[CHECK_PAYMENT:${agentName}] Validating for user: ${userId}`);
+
+        // Allow verification/status messages through
+        if (text.includes('支払いました') || text.includes('paid') || text.includes('0x') ||
+            SOLANA_SIGNATURE_REGEX.test(message.content.text || '') ||
+            text.includes('ステータス') || text.includes('status')) {
+            logger.info(`[CHECK_PAYMENT:${agentName}] Skipping - payment/status message`);
+            return false;
+        }
+
+        // Admin login is answered by ADMIN_LOGIN
+        if (isAdminLoginMessage(message)) {
+            logger.info(`[CHECK_PAYMENT:${agentName}] Skipping - admin login`);
+            return false;
+        }
+
+        // Account linking is answered by LINK_ACCOUNT / UNLINK_ACCOUNT
+        if (getAccountLinkCommand(message)) {
+            logger.info(`[CHECK_PAYMENT:${agentName}] Skipping - account link`);
+            return false;
+        }
+
+        // Promo and referral codes are answered by REDEEM_CODE
+        if (getRedeemCode(message)) {
+            logger.info(`[CHECK_PAYMENT:${agentName}] Skipping - redeem code`);
+            return false;
+        }
+
+        // Transaction approvals are answered by REVIEW_TRANSACTION
+        if (getTxReviewCommand(message)) {
+            logger.info(`[CHECK_PAYMENT:${agentName}] Skipping - transaction review`);
+            return false;
+        }
+
+        // Check sender admin
+        if (await service.getAdminAuth().isAdminSender(message)) {
+            logger.info(`[CHECK_PAYMENT:${agentName}] Skipping - sender is admin`);
+            return false;
+        }
+
+        // Check access
+        const access = await service.canAccess(userId);
+        const db = service.getDatabase();
+        const status = await db.getUserStatus(userId);
+
+        logger.info(`[CHECK_PAYMENT:${agentName}] User ${userId}: allowed=${access.allowed}, reason=${access.reason}, freeRemaining=${status.dailyFreeRemaining}`);
+
+        if (access.allowed) {
+            logger.info(`[CHECK_PAYMENT:${agentName}] User has access - NOT triggering payment gate`);
+            return false;
+        }
+
+        logger.info(`[CHECK_PAYMENT:${agentName}] ⚠️ NO ACCESS - TRIGGERING PAYMENT GATE`);
+        return true;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        const userId = service ? await service.resolveUserId(message) : extractUserId(message);
+        const agentName = runtime.character?.name || 'unknown';
+
+        logger.info(`[CHECK_PAYMENT:${agentName}] 🚫 HANDLER EXECUTING - Sending payment prompt to ${userId}`);
+
+        // Per-user payment intents: the exact amounts below identify this user's transfer
+        const db = service?.getDatabase();
+        const quote = db ? await getPaymentQuote(db, userId, getIntentOrigin(runtime, message)) : null;
+        if (!quote) {
+            await callback({
+                text: '❌ 支払い依頼を作成できませんでした。しばらくしてから再度お試しください。',
+                source: message.content.source,
+            });
+            return { success: false };
+        }
+
+        const { entries, expiresStr } = quote;
+        const discount = entries[0]?.intent.coupon_redemption_id ? entries[0].intent : null;
+        const referralCode = await db!.getOrCreateReferralCode(userId);
+        const planLines: string[] = [];
+        const linkLines: string[] = [];
+        for (const entry of entries) {
+            const { asset, single, daily, pro } = entry;
+            planLines.push(`**${getAssetLabel(asset)}**
+• 🎫 単発: ${single} ${asset.symbol}（1回分）
+• 📅 Daily: ${daily} ${asset.symbol}（${CONFIG.DAILY_QUERY_LIMIT}回/日）
+• ⭐ Pro: ${pro} ${asset.symbol}（${CONFIG.PRO_DURATION_DAYS}日間無制限）`);
+            linkLines.push(`**${asset.symbol}購入 (${asset.networkName}):**
+👉 <a href="${getPaymentLink(userId, entry, 'single')}">単発 ${single} ${asset.symbol}</a> | <a href="${getPaymentLink(userId, entry, 'daily')}">Daily ${daily} ${asset.symbol}</a> | <a href="${getPaymentLink(userId, entry, 'pro')}">Pro ${pro} ${asset.symbol}</a>`);
+        }
+
+        const responseText = `💰 **ご利用には支払いが必要です**
+
+🆓 本日の無料枠を使い切りました（${CONFIG.FREE_DAILY_LIMIT}回/日）
+
+📦 **料金プラン**
+
+${planLines.join('\n\n')}
+${discount ? `\n🎁 クーポン割引 ${discount.discount_percent}% OFF 適用済み（${discount.discount_plan ? PLAN_LABELS[discount.discount_plan] : '全プラン'}）\n` : ''}
+${linkLines.join('\n\n')}
+
+⚠️ 金額の端数はあなた専用の識別番号です。表示された金額ちょうどを ${expiresStr} までに送金してください。
+
+✅ 支払い完了後、トランザクションハッシュ(0x...)を送信してください
+
+${formatReferralLines(referralCode)}`;
+
+        await callback({ text: responseText, source: message.content.source });
+
+        // Telegram sends only the media of a reply with attachments, so the QR codes follow as their own reply
+        const qrCodes = await getPaymentQrAttachments(quote).catch(error => {
+            logger.warn(`[CHECK_PAYMENT:${agentName}] Failed to render payment QR codes:`, error);
+            return [] as Media[];
+        });
+        if (qrCodes.length > 0) {
+            await callback({
+                text: `📱 **スマホのウォレットで支払う**\nQRコードを読み取ると、金額入りの送金画面が開きます（EIP-681）\n${qrCodes.map(qr => `• ${qr.description}`).join('\n')}`,
+                attachments: qrCodes,
+                source: message.content.source,
+            });
+        }
+        logger.info(`[CHECK_PAYMENT:${agentName}] ✅ Payment prompt sent`);
+        return { success: true };
+    },
+    examples: []
+};
+
+// Verify Payment Action
+export const verifyPaymentAction: Action = {
+    name: 'VERIFY_PAYMENT',
+    similes: ['I_PAID', 'PAYMENT_COMPLETE', '支払いました', 'PAID'],
+    description: 'Verifies payment on blockchain and grants access/Pro',
+
+    validate: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        // Wallet addresses, SIWE signatures and refund requests also carry 0x values
+        if (getAccountLinkCommand(message) || getRefundRequest(message)) return false;
+        const text = (message.content.text || '').toLowerCase();
+        return text.includes('支払いました') || text.includes('paid') ||
+               text.includes('0x') || text.includes('送金') ||
+               SOLANA_SIGNATURE_REGEX.test(message.content.text || '');
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return { success: false };
+
+        const userId = await service.resolveUserId(message);
+        const db = service.getDatabase();
+
+        const text = message.content.text || '';
+        // EVM tx hash (0x...) or Solana transaction signature (base58)
+        const txHashMatch = text.match(/0x[a-fA-F0-9]{64}/) || text.match(SOLANA_SIGNATURE_REGEX);
+
+        if (!txHashMatch) {
+            await callback({
+                text: '❌ トランザクションハッシュが見つかりません。\n\n0x... の形式（Solana の場合はトランザクション署名）で送信してください。',
+                source: message.content.source,
+            });
+            return { success: false };
+        }
+
+        const txHash = txHashMatch[0];
+
+        // Re-sending a hash that is still confirming just reports its progress
+        const existing = await db.getPayment(txHash);
+        if (existing && existing.status === 'pending' && existing.user_id === userId) {
+            const current = await service.refreshPendingPayment(existing);
+            const asset = getPaymentAsset(current?.asset_id);
+            if (current?.status === 'pending' && asset) {
+                await callback({
+                    text: formatPendingPaymentText(current.amount, asset, current.confirmations, asset.minConfirmations),
+                    source: message.content.source,
+                });
+                return { success: true };
+            }
+            if (current?.status === 'confirmed') {
+                await callback({
+                    text: '✅ このお支払いは確認済みです。ご質問をどうぞ！',
+                    source: message.content.source,
+                });
+                return { success: true };
+            }
+        }
+
+        if (await db.isPaymentUsed(txHash)) {
+            await callback({
+                text: '❌ このトランザクションは既に使用されています。',
+                source: message.content.source,
+            });
+            return { success: false };
+        }
+
+        // Only the chains the user was actually asked to pay on are checked
+        const candidateAssets = (await db.getIntentAssetIds(userId))
+            .map(id => getPaymentAsset(id))
+            .filter((asset): asset is PaymentAsset => asset !== null);
+        if (candidateAssets.length === 0) {
+            await callback({
+                text: '❌ 有効な支払い依頼がありません。\n\n先に支払い案内を表示し、表示された金額で送金してください。',
+                source: message.content.source,
+            });
+            return { success: false };
+        }
+
+        const result = await verifyPaymentOnChain(txHash, candidateAssets);
+        const redeemed = await redeemVerifiedPayment(db, userId, txHash, result);
+
+        if (redeemed.success && redeemed.pending && result.amount && result.asset) {
+            await callback({
+                text: formatPendingPaymentText(result.amount, result.asset, redeemed.confirmations || 0, redeemed.required || 0),
+                source: message.content.source,
+            });
+            return { success: true };
+        } else if (redeemed.success && redeemed.plan && result.amount && result.asset) {
+            await callback({
+                text: formatPaymentCreditedText(result.amount, result.asset, redeemed.plan, redeemed.creditsAdded || 0),
+                source: message.content.source,
+            });
+            return { success: true };
+        } else {
+            await callback({
+                text: `❌ お支払いを確認できませんでした。\n\n理由: ${redeemed.error}\n\n💡 ヒント:\n- トランザクションが確定するまで数分お待ちください\n- 正しい受取アドレスに送金したか確認してください\n- 支払い案内に表示された金額ちょうどを、有効期限内に送金してください`,
+                source: message.content.source,
+            });
+            return { success: false };
+        }
+    },
+    examples: []
+};
@@ -0,0 +1,336 @@
+import type { Memory, IAgentRuntime, Action, State, HandlerCallback, ActionResult, Evaluator } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { CONFIG } from './config';
+import type { X402Database } from './database';
+import { MESSAGE_CACHE_TTL, getSenderIdentity } from './messages';
+import type { X402Service } from './service';
+
+// ============================================
+// Admin Authentication
+// ============================================
+// Named admin keys (stored as salted scrypt hashes) open expiring sessions for the chat user that
+// logged in (never for a room). Every admin check in the plugin goes through this module.
+// Keys look like x402_<key id>_<secret>; the key id finds the credential before its hash is computed.
+
+export type AdminCredentialRecord = {
+    name: string;
+    scopes: string;
+    salt: string;
+    key_hash: string;
+    key_id: string | null;
+    created_at: string;
+    revoked_at: string | null;
+};
+
+export const ADMIN_SCOPES = ['billing', 'moderation'] as const;
+export type AdminScope = typeof ADMIN_SCOPES[number];
+
+type AdminLoginResult =
+    | { success: true; credential: string; scopes: AdminScope[]; expiresAt: Date }
+    | { success: false; reason: 'invalid' | 'locked' | 'unidentified'; lockedUntil?: Date };
+
+export type AdminBearerResult =
+    | { success: true; name: string; scopes: AdminScope[] }
+    | { success: false; lockedUntil?: Date };
+
+// Chat login command: "admin login <key>", "/admin <key>" or "管理者ログイン <key>"
+const ADMIN_LOGIN_COMMAND_REGEX = /^(?:\/admin|admin\s+login|管理者ログイン)\s+["']?([^\s"']+)["']?$/i;
+// Replaces the command text in memory so the key never reaches chat history or prompts
+const ADMIN_LOGIN_REDACTED_TEXT = '[admin login: key redacted]';
+
+const ADMIN_KEY_REGEX = /^x402_([0-9a-f]{16})_[\w-]+$/;
+
+const scryptAsync = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export function parseAdminScopes(value: string): AdminScope[] {
+    return value.split(',').map(scope => scope.trim()).filter((scope): scope is AdminScope => (ADMIN_SCOPES as readonly string[]).includes(scope));
+}
+
+export class X402AdminAuth {
+    constructor(private db: X402Database) {}
+
+    // Returns the new key; only its hash is kept, so it cannot be shown again
+    async createCredential(name: string, scopes: AdminScope[]): Promise<string> {
+        const keyId = crypto.randomBytes(8).toString('hex');
+        const key = `x402_${keyId}_${crypto.randomBytes(24).toString('base64url')}`;
+        await this.saveCredential(name, scopes, key, keyId);
+        logger.info(`[X402_ADMIN] Credential ${name} created (${scopes.join(',')})`);
+        return key;
+    }
+
+    async revokeCredential(name: string): Promise<boolean> {
+        const revoked = await this.db.revokeAdminCredential(name);
+        if (revoked) {
+            const sessions = await this.db.revokeAdminSessions({ credentialName: name });
+            logger.info(`[X402_ADMIN] Credential ${name} revoked (${sessions} sessions ended)`);
+        }
+        return revoked;
+    }
+
+    // ADMIN_API_KEY (if still set) becomes the hashed credential "default" with every scope.
+    // It has no key id, so it opens chat sessions only; the REST API needs a named key
+    async importLegacyKey(): Promise<void> {
+        const legacyKey = process.env.ADMIN_API_KEY;
+        if (!legacyKey) return;
+        const existing = (await this.db.getAdminCredentials(true)).find(c => c.name === 'default');
+        if (existing && !existing.revoked_at && await this.matches(existing, legacyKey)) return;
+        if (existing?.revoked_at) return; // Revoked on purpose; do not resurrect it from the env
+        await this.saveCredential('default', [...ADMIN_SCOPES], legacyKey, null);
+        logger.warn('[X402_ADMIN] Imported ADMIN_API_KEY as hashed credential "default" (chat login only) - create named keys and unset ADMIN_API_KEY');
+    }
+
+    // Keys without a key id (the imported ADMIN_API_KEY, keys issued before key ids) are checked one by one;
+    // only chat login calls this, behind its lockout
+    async authenticate(key: string): Promise<{ name: string; scopes: AdminScope[] } | null> {
+        const keyId = key.match(ADMIN_KEY_REGEX)?.[1];
+        const candidates = keyId
+            ? [await this.db.getAdminCredentialByKeyId(keyId)]
+            : (await this.db.getAdminCredentials()).filter(credential => !credential.key_id);
+        for (const credential of candidates) {
+            if (credential && await this.matches(credential, key)) {
+                return { name: credential.name, scopes: parseAdminScopes(credential.scopes) };
+            }
+        }
+        return null;
+    }
+
+    // REST API bearer key: only keys with a key id, so at most one hash per request, and wrong secrets
+    // for a key id count toward the same lockout as chat login
+    async authenticateBearer(token: string): Promise<AdminBearerResult> {
+        const keyId = token.match(ADMIN_KEY_REGEX)?.[1];
+        if (!keyId) return { success: false };
+        const subject = `rest:${keyId}`;
+        const lockedUntil = await this.db.getAdminLockedUntil(subject);
+        if (lockedUntil) return { success: false, lockedUntil };
+
+        const credential = await this.db.getAdminCredentialByKeyId(keyId);
+        if (!credential) return { success: false };
+        if (!(await this.matches(credential, token))) {
+            const locked = await this.db.recordAdminLoginFailure(subject);
+            logger.warn(`[X402_ADMIN] Wrong secret for admin key ${credential.name} on the REST API${locked ? ' - locked' : ''}`);
+            return { success: false, lockedUntil: locked || undefined };
+        }
+        await this.db.clearAdminLoginFailures(subject);
+        return { success: true, name: credential.name, scopes: parseAdminScopes(credential.scopes) };
+    }
+
+    // `subject` is the sender's platform identity (see getSenderIdentity)
+    async login(subject: string, key: string): Promise<AdminLoginResult> {
+        const lockedUntil = await this.db.getAdminLockedUntil(subject);
+        if (lockedUntil) {
+            return { success: false, reason: 'locked', lockedUntil };
+        }
+
+        const credential = await this.authenticate(key);
+        if (!credential) {
+            const locked = await this.db.recordAdminLoginFailure(subject);
+            logger.warn(`[X402_ADMIN] Failed admin login from ${subject}${locked ? ' - locked' : ''}`);
+            return locked ? { success: false, reason: 'locked', lockedUntil: locked } : { success: false, reason: 'invalid' };
+        }
+
+        const expiresAt = new Date(Date.now() + CONFIG.ADMIN_SESSION_TTL_MINUTES * 60 * 1000);
+        await this.db.clearAdminLoginFailures(subject);
+        await this.db.createAdminSession(credential.name, subject, credential.scopes, expiresAt);
+        logger.info(`[X402_ADMIN] ✅ ${credential.name} logged in as ${subject}`);
+        return { success: true, credential: credential.name, scopes: credential.scopes, expiresAt };
+    }
+
+    async logout(subject: string): Promise<void> {
+        await this.db.revokeAdminSessions({ subject });
+    }
+
+    // Admin rights of the message's sender (a session on another identity of the same account does not count)
+    async isAdminSender(message: Memory): Promise<boolean> {
+        const subject = getSenderIdentity(message);
+        return !!subject && await this.db.isAdmin(subject);
+    }
+
+    async getSenderCredential(message: Memory, scope: AdminScope): Promise<string | null> {
+        const subject = getSenderIdentity(message);
+        return subject ? this.db.getAdminSessionCredential(subject, scope) : null;
+    }
+
+    private async saveCredential(name: string, scopes: AdminScope[], key: string, keyId: string | null): Promise<void> {
+        const salt = crypto.randomBytes(16).toString('hex');
+        const keyHash = (await scryptAsync(key, salt, 32)).toString('hex');
+        await this.db.saveAdminCredential(name, scopes, salt, keyHash, keyId);
+    }
+
+    private async matches(credential: AdminCredentialRecord, key: string): Promise<boolean> {
+        const expected = Buffer.from(credential.key_hash, 'hex');
+        const actual = await scryptAsync(key, credential.salt, expected.length);
+        return crypto.timingSafeEqual(actual, expected);
+    }
+}
+
+function getAdminLoginKey(message: Memory): string | null {
+    const match = (message.content.text || '').trim().match(ADMIN_LOGIN_COMMAND_REGEX);
+    return match ? match[1] : null;
+}
+
+// True for the login command itself and for the redacted copy left after handling it
+export function isAdminLoginMessage(message: Memory): boolean {
+    return getAdminLoginKey(message) !== null || message.content.text === ADMIN_LOGIN_REDACTED_TEXT;
+}
+
+// The provider, actions and evaluators all see the same message; the first one performs the login
+const adminLoginResults = new Map<string, { result: Promise<AdminLoginResult | null>; timestamp: number }>();
+
+export async function handleAdminLoginMessage(runtime: IAgentRuntime, service: X402Service, message: Memory): Promise<AdminLoginResult | null> {
+    const cacheKey = `${message.roomId || ''}:${message.id || crypto.createHash('sha256').update(message.content.text || '').digest('hex')}`;
+    const cached = adminLoginResults.get(cacheKey);
+    if (cached) return cached.result;
+
+    const key = getAdminLoginKey(message);
+    const subject = getSenderIdentity(message);
+    const result: Promise<AdminLoginResult | null> = !key
+        ? Promise.resolve(null)
+        : subject ? service.getAdminAuth().login(subject, key) : Promise.resolve({ success: false, reason: 'unidentified' });
+    for (const [entryKey, entry] of adminLoginResults) {
+        if (entry.timestamp < Date.now() - MESSAGE_CACHE_TTL) adminLoginResults.delete(entryKey);
+    }
+    adminLoginResults.set(cacheKey, { result, timestamp: Date.now() });
+
+    if (key) {
+        await redactAdminLoginMessage(runtime, message);
+    }
+    return result;
+}
+
+async function redactAdminLoginMessage(runtime: IAgentRuntime, message: Memory): Promise<void> {
+    message.content.text = ADMIN_LOGIN_REDACTED_TEXT;
+    if (!message.id) return;
+    try {
+        await runtime.updateMemory({ id: message.id, content: { ...message.content, text: ADMIN_LOGIN_REDACTED_TEXT } });
+    } catch (error) {
+        logger.warn(`[X402_ADMIN] Could not redact admin key from memory ${message.id}:`, error);
+    }
+}
+
+export function formatAdminLoginResult(result: AdminLoginResult | null): string {
+    if (!result) {
+        return '❌ 管理者キーを確認できませんでした。もう一度「admin login <キー>」を送信してください。';
+    }
+    if (result.success) {
+        const expiresStr = result.expiresAt.toLocaleString('ja-JP', { timeZone: CONFIG.TIMEZONE });
+        return `✅ 管理者としてログインしました（${result.credential} / ${result.scopes.join(', ')}）。${expiresStr}まで無制限でご利用いただけます。`;
+    }
+    if (result.reason === 'unidentified') {
+        return '❌ このチャットでは送信者を確認できないため、管理者ログインはできません（Telegram・Discord から、または管理 REST API をご利用ください）。';
+    }
+    if (result.reason === 'locked') {
+        const untilStr = result.lockedUntil?.toLocaleTimeString('ja-JP', { timeZone: CONFIG.TIMEZONE, hour: '2-digit', minute: '2-digit' }) ?? '';
+        return `🔒 ログインの失敗が続いたため、${untilStr}まで管理者ログインを制限しています。`;
+    }
+    return '❌ 管理者キーが正しくありません。';
+}
+
+// Admin Login Action
+export const adminLoginAction: Action = {
+    name: 'ADMIN_LOGIN',
+    similes: ['ADMIN_KEY', 'ADMIN_ACCESS'],
+    description: 'Opens an admin session from an "admin login <key>" message',
+
+    validate: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        return isAdminLoginMessage(message);
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return { success: false };
+
+        const result = await handleAdminLoginMessage(runtime, service, message);
+        await callback({
+            text: formatAdminLoginResult(result),
+            source: message.content.source,
+        });
+
+        return { success: !!result?.success };
+    },
+    examples: []
+};
+
+// Admin Logout Action
+export const adminLogoutAction: Action = {
+    name: 'ADMIN_LOGOUT',
+    similes: ['ADMIN_LOGOUT', 'admin logout', 'logout admin'],
+    description: 'Revokes admin access',
+
+    validate: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        const text = (message.content.text || '').toLowerCase();
+        // More flexible matching for logout commands
+        const hasAdmin = text.includes('admin') || text.includes('管理者');
+        const hasLogout = text.includes('logout') || text.includes('ログアウト') || text.includes('解除');
+        return hasAdmin && hasLogout;
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return { success: false };
+
+        const subject = getSenderIdentity(message);
+        if (subject) {
+            await service.getAdminAuth().logout(subject);
+        }
+
+        await callback({
+            text: '🔒 管理者ログアウトしました。',
+            source: message.content.source,
+        });
+
+        return { success: true };
+    },
+    examples: []
+};
+
+// ============================================
+// Admin Login Evaluator - Forces admin login message when admin key detected
+// ============================================
+export const x402AdminLoginEvaluator: Evaluator = {
+    name: 'x402AdminLoginEvaluator',
+    description: 'Forces the admin login result message when an admin login command is detected',
+    similes: ['ADMIN_LOGIN_FORCE'],
+    alwaysRun: true,
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state?: State): Promise<boolean> => {
+        const agentName = runtime.character?.name || 'unknown';
+        if (isAdminLoginMessage(message)) {
+            logger.info(`[X402_ADMIN_EVALUATOR:${agentName}] Admin login detected - will force the result message`);
+            return true;
+        }
+        return false;
+    },
+
+    handler: async (runtime: IAgentRuntime, message: Memory, _state?: State): Promise<any> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return null;
+        const agentName = runtime.character?.name || 'unknown';
+        const result = await handleAdminLoginMessage(runtime, service, message);
+        logger.info(`[X402_ADMIN_EVALUATOR:${agentName}] Forcing admin login result message`);
+
+        // Return the result message that replaces AI response
+        return {
+            text: formatAdminLoginResult(result),
+            shouldBlock: true,
+            action: result?.success ? 'ADMIN_LOGIN_SUCCESS' : 'ADMIN_LOGIN_FAILED'
+        };
+    },
+
+    examples: []
+};
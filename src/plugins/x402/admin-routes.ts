@@ -0,0 +1,187 @@
+import type { RouteRequest, RouteResponse, IAgentRuntime } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import crypto from 'crypto';
+import { CONFIG } from './config';
+import type { PaymentStatus } from './types';
+import { toCreditMillis } from './pricing';
+import type { X402Database } from './database';
+import type { AdminScope } from './admin-auth';
+import { ADMIN_SCOPES, parseAdminScopes } from './admin-auth';
+import type { X402Service } from './service';
+import { getHeader } from './http';
+
+// ============================================
+// Admin REST API (support tooling: inspect and fix balances)
+// ============================================
+// Authorization: Bearer <token>. The root token is checked against X402_ADMIN_TOKEN_HASH (the
+// token itself is never stored); named admin keys are checked through X402AdminAuth and their scopes
+// (keys without a key id, such as the imported ADMIN_API_KEY, are not accepted here).
+function isRootAdminToken(token: string): boolean {
+    if (!token || !/^[0-9a-f]{64}$/.test(CONFIG.ADMIN_TOKEN_HASH)) return false;
+    const digest = crypto.createHash('sha256').update(token).digest();
+    return crypto.timingSafeEqual(digest, Buffer.from(CONFIG.ADMIN_TOKEN_HASH, 'hex'));
+}
+
+// `actor` is 'root' or the named key's credential name (recorded on ledger entries)
+export type AdminRouteHandler = (req: RouteRequest, res: RouteResponse, db: X402Database, service: X402Service, actor: string) => Promise<void>;
+
+// `allowed`: the scopes that may call the route ('root' = only the root token)
+export function adminRoute(allowed: AdminScope[] | 'root', handler: AdminRouteHandler) {
+    return async (req: RouteRequest, res: RouteResponse, runtime: IAgentRuntime) => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) {
+            res.status(503).json({ error: 'x402 service not available' });
+            return;
+        }
+
+        const header = getHeader(req, 'Authorization') || '';
+        const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+        let actor = isRootAdminToken(token) ? 'root' : null;
+        if (!actor && token && allowed !== 'root') {
+            const credential = await service.getAdminAuth().authenticateBearer(token);
+            if (!credential.success && credential.lockedUntil) {
+                res.status(429).json({ error: 'Too many failed attempts', lockedUntil: credential.lockedUntil.toISOString() });
+                return;
+            }
+            if (credential.success && credential.scopes.some(scope => allowed.includes(scope))) {
+                actor = credential.name;
+            }
+        }
+        if (!actor) {
+            logger.warn(`[X402_ADMIN] Rejected unauthorized request to ${req.path || req.url}`);
+            res.status(401).json({ error: 'Unauthorized' });
+            return;
+        }
+
+        try {
+            await handler(req, res, service.getDatabase(), service, actor);
+        } catch (error: any) {
+            logger.error(`[X402_ADMIN] ${req.path || req.url} failed:`, error);
+            res.status(500).json({ error: error?.message || 'Internal error' });
+        }
+    };
+}
+
+// Loads the user named by :id, or answers 404 (admin writes never create users implicitly)
+// (a linked platform identity resolves to its canonical account)
+export async function getAdminTargetUser(req: RouteRequest, res: RouteResponse, db: X402Database): Promise<string | null> {
+    const userId = await db.resolveAccount(req.params?.id || '');
+    if (!userId || !(await db.getUser(userId))) {
+        res.status(404).json({ error: `Unknown user: ${userId}` });
+        return null;
+    }
+    return userId;
+}
+
+export const adminGetUserHandler: AdminRouteHandler = async (req, res, db) => {
+    const userId = await getAdminTargetUser(req, res, db);
+    if (!userId) return;
+    res.status(200).json({
+        user: await db.getUser(userId),
+        status: await db.getUserStatus(userId),
+        payments: await db.findPayments({ userId }),
+        intents: await db.getUserIntents(userId),
+        ledger: await db.findLedgerEntries({ userId, limit: 50 }),
+        identities: await db.getLinkedIdentities(userId),
+        wallets: await db.getAccountWallets(userId),
+        refunds: await db.findRefunds({ userId }),
+        discount: await db.getActiveDiscount(userId),
+        referrals: await db.getReferralStats(userId),
+    });
+};
+
+// Body: { amount } - positive grants credits, negative revokes them (fractions allowed)
+export const adminCreditsHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const userId = await getAdminTargetUser(req, res, db);
+    if (!userId) return;
+    const amount = Number((req.body as { amount?: unknown } | undefined)?.amount);
+    if (!Number.isFinite(amount) || toCreditMillis(amount) === 0) {
+        res.status(400).json({ error: 'amount must be a non-zero number of credits' });
+        return;
+    }
+    if (amount > 0) {
+        await db.addCredits(userId, amount, { reason: `admin:${actor}` });
+    } else {
+        await db.revokeCredits(userId, -amount, { reason: `admin:${actor}` });
+    }
+    logger.info(`[X402_ADMIN] Credits ${amount > 0 ? '+' : ''}${amount} for ${userId}`);
+    res.status(200).json({ success: true, status: await db.getUserStatus(userId) });
+};
+
+export const adminGrantDailyHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const userId = await getAdminTargetUser(req, res, db);
+    if (!userId) return;
+    await db.grantDaily(userId, { reason: `admin:${actor}` });
+    logger.info(`[X402_ADMIN] Daily plan granted to ${userId}`);
+    res.status(200).json({ success: true, status: await db.getUserStatus(userId) });
+};
+
+// Body: { days? } - defaults to one Pro term; stacks on an active subscription like a renewal
+export const adminGrantProHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const userId = await getAdminTargetUser(req, res, db);
+    if (!userId) return;
+    const days = Number((req.body as { days?: unknown } | undefined)?.days ?? CONFIG.PRO_DURATION_DAYS);
+    if (!Number.isInteger(days) || days <= 0) {
+        res.status(400).json({ error: 'days must be a positive integer' });
+        return;
+    }
+    await db.grantPro(userId, days, { reason: `admin:${actor}` });
+    logger.info(`[X402_ADMIN] Pro (${days} days) granted to ${userId}`);
+    res.status(200).json({ success: true, status: await db.getUserStatus(userId) });
+};
+
+// Query: tx (hash or Solana signature), user, status, limit
+export const adminListPaymentsHandler: AdminRouteHandler = async (req, res, db) => {
+    const query = (req.query || {}) as Record<string, string | undefined>;
+    const status = query.status as PaymentStatus | undefined;
+    if (status && !['pending', 'confirmed', 'reverted', 'refunded'].includes(status)) {
+        res.status(400).json({ error: `Unknown status: ${status}` });
+        return;
+    }
+    const payments = await db.findPayments({
+        txHash: query.tx,
+        userId: query.user,
+        status,
+        limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    });
+    res.status(200).json({ payments });
+};
+
+// Clears a chat user's failed-login lockout and ends their admin sessions
+export const adminResetUserAuthHandler: AdminRouteHandler = async (req, res, db, service) => {
+    const subject = req.params?.id || '';
+    await db.clearAdminLoginFailures(subject);
+    await service.getAdminAuth().logout(subject);
+    logger.info(`[X402_ADMIN] Admin sessions and lockout cleared for ${subject}`);
+    res.status(200).json({ success: true });
+};
+
+export const adminListCredentialsHandler: AdminRouteHandler = async (_req, res, db) => {
+    const credentials = await db.getAdminCredentials(true);
+    res.status(200).json({
+        credentials: credentials.map(({ name, scopes, key_id, created_at, revoked_at }) => ({ name, scopes: parseAdminScopes(scopes), key_id, created_at, revoked_at })),
+    });
+};
+
+// Body: { name, scopes } - returns the key once; an existing name gets a new key
+export const adminCreateCredentialHandler: AdminRouteHandler = async (req, res, _db, service) => {
+    const body = (req.body || {}) as { name?: unknown; scopes?: unknown };
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const requested = Array.isArray(body.scopes) ? body.scopes.map(String) : [];
+    const scopes = parseAdminScopes(requested.join(','));
+    if (!/^[\w.-]{1,64}$/.test(name) || scopes.length === 0 || scopes.length !== requested.length) {
+        res.status(400).json({ error: `name (letters, digits, _.-) and scopes (${ADMIN_SCOPES.join(', ')}) are required` });
+        return;
+    }
+    const key = await service.getAdminAuth().createCredential(name, scopes);
+    res.status(201).json({ name, scopes, key });
+};
+
+export const adminRevokeCredentialHandler: AdminRouteHandler = async (req, res, _db, service) => {
+    const name = req.params?.name || '';
+    if (!(await service.getAdminAuth().revokeCredential(name))) {
+        res.status(404).json({ error: `Unknown or already revoked credential: ${name}` });
+        return;
+    }
+    res.status(200).json({ success: true });
+};
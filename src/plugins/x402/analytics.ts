@@ -0,0 +1,395 @@
+import type { RouteRequest, RouteResponse } from '@elizaos/core';
+import { CONFIG } from './config';
+import { getPaymentAsset } from './assets';
+import { getBusinessDate } from './time';
+import type { X402Database } from './database';
+import { X402Service } from './service';
+import type { AdminRouteHandler } from './admin-routes';
+
+// ============================================
+// Usage Analytics
+// ============================================
+// access_type is the gate decision for the message: admin, pro, daily, credit, free or no_access
+export type UsageRow = {
+    business_date: string;
+    user_id: string;
+    agent_id: string;
+    access_type: string;
+    messages: number;
+};
+
+// ============================================
+// Usage Analytics (admin dashboard)
+// ============================================
+// Usage comes from the per-agent message counts in usage_daily; free-quota exhaustion from the
+// daily_free ledger; conversions and revenue from confirmed payments. Days are business dates.
+const ANALYTICS_DEFAULT_DAYS = 30;
+const ANALYTICS_SECTIONS = ['summary', 'daily', 'conversions', 'revenue', 'agents'] as const;
+const USD_STABLECOINS = ['USDC', 'USDT', 'DAI'];
+
+type AnalyticsSection = typeof ANALYTICS_SECTIONS[number];
+
+type UsageAnalytics = {
+    from: string;
+    to: string;
+    timezone: string;
+    usdJpyRate: number;
+    summary: {
+        activeUsers: number;
+        messages: number;
+        freeUserDays: number;
+        exhaustedUserDays: number;
+        exhaustionRate: number | null;
+        conversions: number;
+        conversionRate: number | null; // new payers / active users
+        revenueJpy: number;
+    };
+    daily: {
+        date: string;
+        activeUsers: number;
+        messages: number;
+        freeUsers: number;
+        exhaustedUsers: number;
+        exhaustionRate: number | null;
+        conversions: number;
+        revenueJpy: number;
+    }[];
+    conversions: { plan: string; currency: string; count: number }[];
+    revenue: { currency: string; payments: number; amount: number; refunded: number; jpy: number | null }[];
+    agents: { agentId: string; name: string | null; messages: number; activeUsers: number; byAccess: Record<string, number> }[];
+};
+
+// JPY per unit of a payment currency (null when there is no rate for it)
+function getJpyRate(symbol: string): number | null {
+    if (symbol === 'JPYC') return 1;
+    if (USD_STABLECOINS.includes(symbol)) return CONFIG.USD_JPY_RATE;
+    return null;
+}
+
+function shiftDate(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Query: from, to (YYYY-MM-DD business dates, inclusive). Defaults to the last 30 days.
+function getAnalyticsRange(query: Record<string, string | undefined>): { from: string; to: string } | { error: string } {
+    const to = query.to || getBusinessDate();
+    const from = query.from || shiftDate(to, 1 - ANALYTICS_DEFAULT_DAYS);
+    for (const date of [from, to]) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || shiftDate(date, 0) !== date) {
+            return { error: 'from and to must be YYYY-MM-DD dates' };
+        }
+    }
+    if (from > to) return { error: 'from must not be after to' };
+    if (shiftDate(from, CONFIG.ANALYTICS_MAX_DAYS) <= to) {
+        return { error: `The range is limited to ${CONFIG.ANALYTICS_MAX_DAYS} days` };
+    }
+    return { from, to };
+}
+
+function toRate(count: number, total: number): number | null {
+    return total > 0 ? Math.round((count / total) * 10000) / 10000 : null;
+}
+
+function roundAmount(amount: number): number {
+    return Math.round(amount * 1e6) / 1e6;
+}
+
+async function buildUsageAnalytics(db: X402Database, from: string, to: string): Promise<UsageAnalytics> {
+    // Timestamps are UTC, so widen the query by a day on each side and bucket by business date
+    const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+    const [toYear, toMonth, toDay] = to.split('-').map(Number);
+    const since = new Date(Date.UTC(fromYear, fromMonth - 1, fromDay - 1));
+    const until = new Date(Date.UTC(toYear, toMonth - 1, toDay + 2));
+    const inRange = (date: string) => date >= from && date <= to;
+
+    const days = new Map<string, UsageAnalytics['daily'][number]>();
+    for (let date = from; date <= to; date = shiftDate(date, 1)) {
+        days.set(date, { date, activeUsers: 0, messages: 0, freeUsers: 0, exhaustedUsers: 0, exhaustionRate: null, conversions: 0, revenueJpy: 0 });
+    }
+
+    // Active users and the per-agent split
+    const usage = await db.getUsage(from, to);
+    const activeByDay = new Map<string, Set<string>>();
+    const activeUsers = new Set<string>();
+    const agents = new Map<string, { messages: number; users: Set<string>; byAccess: Record<string, number> }>();
+    for (const row of usage) {
+        const messages = Number(row.messages);
+        const day = days.get(row.business_date);
+        if (!day) continue;
+        day.messages += messages;
+        if (!activeByDay.has(row.business_date)) activeByDay.set(row.business_date, new Set());
+        activeByDay.get(row.business_date)!.add(row.user_id);
+        activeUsers.add(row.user_id);
+
+        const agent = agents.get(row.agent_id) || { messages: 0, users: new Set<string>(), byAccess: {} };
+        agent.messages += messages;
+        agent.users.add(row.user_id);
+        agent.byAccess[row.access_type] = (agent.byAccess[row.access_type] || 0) + messages;
+        agents.set(row.agent_id, agent);
+    }
+    for (const [date, users] of activeByDay) {
+        days.get(date)!.activeUsers = users.size;
+    }
+
+    // Free-quota exhaustion: users who spent their last free query that day
+    const freeByDay = new Map<string, { users: Set<string>; exhausted: Set<string> }>();
+    for (const query of await db.getFreeQueries(since, until)) {
+        const date = getBusinessDate(new Date(query.created_at));
+        if (!inRange(date)) continue;
+        const bucket = freeByDay.get(date) || { users: new Set<string>(), exhausted: new Set<string>() };
+        bucket.users.add(query.user_id);
+        if (Number(query.balance_after) <= 0) bucket.exhausted.add(query.user_id);
+        freeByDay.set(date, bucket);
+    }
+    let freeUserDays = 0;
+    let exhaustedUserDays = 0;
+    for (const [date, bucket] of freeByDay) {
+        const day = days.get(date)!;
+        day.freeUsers = bucket.users.size;
+        day.exhaustedUsers = bucket.exhausted.size;
+        day.exhaustionRate = toRate(bucket.exhausted.size, bucket.users.size);
+        freeUserDays += bucket.users.size;
+        exhaustedUserDays += bucket.exhausted.size;
+    }
+
+    // Conversions (a user's first payment ever) and revenue; refunded payments still count as conversions
+    const { payments, earlierPayers } = await db.getPaymentsForAnalytics(since, until);
+    const payers = new Set(earlierPayers);
+    const conversions = new Map<string, UsageAnalytics['conversions'][number]>();
+    const revenue = new Map<string, UsageAnalytics['revenue'][number]>();
+    for (const payment of payments) {
+        const date = getBusinessDate(new Date(payment.confirmed_at || payment.created_at));
+        const [plan, ...rest] = payment.payment_type.split('_');
+        const currency = getPaymentAsset(payment.asset_id)?.symbol || rest.join('_') || 'unknown';
+        const firstPayment = !payers.has(payment.user_id);
+        payers.add(payment.user_id);
+        if (!inRange(date)) continue;
+        const day = days.get(date)!;
+
+        if (firstPayment) {
+            const key = `${plan}:${currency}`;
+            const entry = conversions.get(key) || { plan, currency, count: 0 };
+            entry.count++;
+            conversions.set(key, entry);
+            day.conversions++;
+        }
+
+        const jpyRate = getJpyRate(currency);
+        const entry = revenue.get(currency) || { currency, payments: 0, amount: 0, refunded: 0, jpy: jpyRate === null ? null : 0 };
+        entry.payments++;
+        if (payment.status === 'refunded') {
+            entry.refunded = roundAmount(entry.refunded + Number(payment.amount));
+        } else {
+            entry.amount = roundAmount(entry.amount + Number(payment.amount));
+            if (jpyRate !== null) {
+                entry.jpy = Math.round(entry.amount * jpyRate);
+                day.revenueJpy = Math.round(day.revenueJpy + Number(payment.amount) * jpyRate);
+            }
+        }
+        revenue.set(currency, entry);
+    }
+
+    const daily = [...days.values()];
+    const conversionCount = daily.reduce((sum, day) => sum + day.conversions, 0);
+    return {
+        from,
+        to,
+        timezone: CONFIG.TIMEZONE,
+        usdJpyRate: CONFIG.USD_JPY_RATE,
+        summary: {
+            activeUsers: activeUsers.size,
+            messages: daily.reduce((sum, day) => sum + day.messages, 0),
+            freeUserDays,
+            exhaustedUserDays,
+            exhaustionRate: toRate(exhaustedUserDays, freeUserDays),
+            conversions: conversionCount,
+            conversionRate: toRate(conversionCount, activeUsers.size),
+            revenueJpy: [...revenue.values()].reduce((sum, entry) => sum + (entry.jpy || 0), 0),
+        },
+        daily,
+        conversions: [...conversions.values()].sort((a, b) => b.count - a.count),
+        revenue: [...revenue.values()].sort((a, b) => (b.jpy || 0) - (a.jpy || 0)),
+        agents: [...agents.entries()]
+            .map(([agentId, agent]) => ({
+                agentId,
+                name: X402Service.getAgentName(agentId),
+                messages: agent.messages,
+                activeUsers: agent.users.size,
+                byAccess: agent.byAccess,
+            }))
+            .sort((a, b) => b.messages - a.messages),
+    };
+}
+
+// The page holds no data itself: it asks for an admin token (kept in sessionStorage) and reads
+// GET admin/analytics, relative to its own URL so the agentId query of the plugin route carries over
+const ANALYTICS_PAGE_HTML = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>x402 利用状況</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 24px; color: #222; background: #fafafa; }
+h1 { font-size: 20px; }
+h2 { font-size: 16px; margin-top: 28px; }
+form { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; }
+input { padding: 4px 6px; }
+table { border-collapse: collapse; background: #fff; margin-top: 8px; }
+th, td { border: 1px solid #ddd; padding: 4px 10px; text-align: right; font-size: 13px; }
+th:first-child, td:first-child { text-align: left; }
+th { background: #f0f0f0; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; }
+.card { background: #fff; border: 1px solid #ddd; border-radius: 6px; padding: 10px 14px; min-width: 140px; }
+.card b { display: block; font-size: 20px; }
+.bar { display: inline-block; height: 8px; background: #4a7bd0; margin-left: 6px; vertical-align: middle; }
+#status { color: #a00; }
+</style>
+</head>
+<body>
+<h1>x402 利用状況</h1>
+<form id="query">
+<input id="token" type="password" placeholder="管理者トークン" autocomplete="off" size="32">
+<label>開始 <input id="from" type="date"></label>
+<label>終了 <input id="to" type="date"></label>
+<button type="submit">表示</button>
+<span id="status"></span>
+</form>
+<h2>サマリー</h2>
+<div id="summary" class="cards"></div>
+<h2>日別</h2>
+<table id="daily"></table>
+<h2>コンバージョン（初回購入）</h2>
+<table id="conversions"></table>
+<h2>売上</h2>
+<table id="revenue"></table>
+<h2>エージェント別</h2>
+<table id="agents"></table>
+<script>
+(function () {
+    var $ = function (id) { return document.getElementById(id); };
+    $('token').value = sessionStorage.getItem('x402AdminToken') || '';
+
+    function percent(rate) { return rate === null ? '-' : (rate * 100).toFixed(1) + '%'; }
+    function yen(value) { return value === null ? '-' : '¥' + value.toLocaleString('ja-JP'); }
+
+    function cell(row, tag, value) {
+        var element = document.createElement(tag);
+        if (value instanceof Node) element.appendChild(value); else element.textContent = String(value);
+        row.appendChild(element);
+    }
+
+    function table(id, headers, rows) {
+        var element = $(id);
+        element.textContent = '';
+        var head = element.insertRow();
+        headers.forEach(function (header) { cell(head, 'th', header); });
+        rows.forEach(function (values) {
+            var row = element.insertRow();
+            values.forEach(function (value) { cell(row, 'td', value); });
+        });
+    }
+
+    function render(report) {
+        $('from').value = report.from;
+        $('to').value = report.to;
+        var summary = report.summary;
+        var cards = [
+            ['利用者数', summary.activeUsers],
+            ['メッセージ数', summary.messages],
+            ['無料枠の使い切り率', percent(summary.exhaustionRate)],
+            ['新規購入者', summary.conversions],
+            ['購入率', percent(summary.conversionRate)],
+            ['売上（円換算）', yen(summary.revenueJpy)]
+        ];
+        $('summary').textContent = '';
+        cards.forEach(function (card) {
+            var element = document.createElement('div');
+            element.className = 'card';
+            var value = document.createElement('b');
+            value.textContent = String(card[1]);
+            element.appendChild(value);
+            element.appendChild(document.createTextNode(card[0]));
+            $('summary').appendChild(element);
+        });
+
+        var maxUsers = Math.max.apply(null, report.daily.map(function (day) { return day.activeUsers; }).concat([1]));
+        table('daily', ['日付', 'DAU', 'メッセージ', '無料利用者', '使い切り', '使い切り率', '新規購入', '売上（円換算）'],
+            report.daily.map(function (day) {
+                var dau = document.createElement('span');
+                dau.textContent = String(day.activeUsers);
+                var bar = document.createElement('span');
+                bar.className = 'bar';
+                bar.style.width = Math.round(day.activeUsers / maxUsers * 120) + 'px';
+                var wrapper = document.createElement('span');
+                wrapper.appendChild(dau);
+                wrapper.appendChild(bar);
+                return [day.date, wrapper, day.messages, day.freeUsers, day.exhaustedUsers, percent(day.exhaustionRate), day.conversions, yen(day.revenueJpy)];
+            }));
+        table('conversions', ['プラン', '通貨', '件数'],
+            report.conversions.map(function (entry) { return [entry.plan, entry.currency, entry.count]; }));
+        table('revenue', ['通貨', '件数', '売上', '返金済み', '円換算'],
+            report.revenue.map(function (entry) { return [entry.currency, entry.payments, entry.amount, entry.refunded, yen(entry.jpy)]; }));
+        table('agents', ['エージェント', 'メッセージ', '利用者数', 'アクセス種別'],
+            report.agents.map(function (agent) {
+                var access = Object.keys(agent.byAccess).map(function (key) { return key + ': ' + agent.byAccess[key]; }).join(', ');
+                return [agent.name || agent.agentId, agent.messages, agent.activeUsers, access];
+            }));
+        $('status').textContent = '';
+    }
+
+    function load(event) {
+        if (event) event.preventDefault();
+        var token = $('token').value.trim();
+        sessionStorage.setItem('x402AdminToken', token);
+        var params = new URLSearchParams(location.search);
+        ['from', 'to'].forEach(function (key) {
+            if ($(key).value) params.set(key, $(key).value); else params.delete(key);
+        });
+        $('status').textContent = '読み込み中…';
+        fetch('admin/analytics?' + params.toString(), { headers: { Authorization: 'Bearer ' + token } })
+            .then(function (res) {
+                return res.json().then(function (body) {
+                    if (!res.ok) throw new Error(body.error || String(res.status));
+                    return body;
+                });
+            })
+            .then(render)
+            .catch(function (error) { $('status').textContent = 'エラー: ' + error.message; });
+    }
+
+    $('query').addEventListener('submit', load);
+    if ($('token').value) load();
+})();
+</script>
+</body>
+</html>
+`;
+
+export const analyticsPageHandler = async (_req: RouteRequest, res: RouteResponse) => {
+    res.setHeader?.('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader?.('Cache-Control', 'no-store');
+    res.status(200).send(ANALYTICS_PAGE_HTML);
+};
+
+// ============================================
+// Admin REST API (analytics)
+// ============================================
+// Query: from, to (YYYY-MM-DD business dates, inclusive; default the last 30 days).
+// :section narrows the answer to one part of the report (summary, daily, conversions, revenue or agents).
+export const adminAnalyticsHandler: AdminRouteHandler = async (req, res, db) => {
+    const range = getAnalyticsRange((req.query || {}) as Record<string, string | undefined>);
+    if ('error' in range) {
+        res.status(400).json({ error: range.error });
+        return;
+    }
+    const section = req.params?.section as AnalyticsSection | undefined;
+    if (section !== undefined && !ANALYTICS_SECTIONS.includes(section)) {
+        res.status(404).json({ error: `Unknown section: ${section} (use ${ANALYTICS_SECTIONS.join(', ')})` });
+        return;
+    }
+    const report = await buildUsageAnalytics(db, range.from, range.to);
+    res.status(200).json(section ? { from: report.from, to: report.to, [section]: report[section] } : report);
+};
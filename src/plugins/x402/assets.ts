@@ -0,0 +1,140 @@
+import { logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { CONFIG } from './config';
+
+// ============================================
+// Payment Asset Registry
+// ============================================
+// Accepted tokens are declarative. X402_ASSETS_FILE (a JSON array of PaymentAsset) replaces the
+// built-in Base USDC / Polygon JPYC list, so new chains, tokens and testnets need no code change.
+export type PaymentAsset = {
+    id: string; // e.g. 'base-usdc'
+    chain?: 'evm' | 'solana'; // defaults to 'evm'
+    network: string; // x402 network name, e.g. 'base', 'polygon', 'arbitrum', 'base-sepolia', 'solana'
+    networkName: string; // display name, e.g. 'Base'
+    chainId?: number; // EVM only
+    rpcUrl: string;
+    rpcUrlEnv?: string; // env var that overrides rpcUrl (keeps API keys out of the file)
+    address: string; // ERC-20 contract or SPL mint
+    receiver?: string; // overrides X402_RECEIVER_ADDRESS; for Solana the receiver's token account
+    symbol: string;
+    decimals: number;
+    prices: { single: number; daily: number; pro: number };
+    amountStep: string; // every price is a multiple of this; the intent suffix lives below it
+    minConfirmations: number;
+    eip712?: { name: string; version: string }; // EIP-3009 domain, when the token supports it
+    icon?: string;
+};
+
+const DEFAULT_PAYMENT_ASSETS: PaymentAsset[] = [
+    {
+        id: 'base-usdc',
+        network: 'base',
+        networkName: 'Base',
+        chainId: 8453,
+        rpcUrl: CONFIG.BASE_RPC_URL,
+        address: CONFIG.USDC_ADDRESS,
+        symbol: 'USDC',
+        decimals: 6,
+        prices: { single: CONFIG.SINGLE_PRICE_USDC, daily: CONFIG.DAILY_PRICE_USDC, pro: CONFIG.PRO_PRICE_USDC },
+        amountStep: '0.01',
+        minConfirmations: CONFIG.BASE_MIN_CONFIRMATIONS,
+        eip712: { name: 'USD Coin', version: '2' },
+        icon: '🔵',
+    },
+    {
+        id: 'polygon-jpyc',
+        network: 'polygon',
+        networkName: 'Polygon',
+        chainId: 137,
+        rpcUrl: CONFIG.POLYGON_RPC_URL,
+        address: CONFIG.JPYC_ADDRESS,
+        symbol: 'JPYC',
+        decimals: 18,
+        prices: { single: CONFIG.SINGLE_PRICE_JPYC, daily: CONFIG.DAILY_PRICE_JPYC, pro: CONFIG.PRO_PRICE_JPYC },
+        amountStep: '1',
+        minConfirmations: CONFIG.POLYGON_MIN_CONFIRMATIONS,
+        eip712: { name: 'JPY Coin', version: '1' },
+        icon: '🟣',
+    },
+    // Solana is opt-in: it needs the USDC token account (ATA) of the receiver wallet
+    ...(CONFIG.SOLANA_USDC_TOKEN_ACCOUNT ? [{
+        id: 'solana-usdc',
+        chain: 'solana' as const,
+        network: 'solana',
+        networkName: 'Solana',
+        rpcUrl: CONFIG.SOLANA_RPC_URL,
+        address: CONFIG.SOLANA_USDC_MINT,
+        receiver: CONFIG.SOLANA_USDC_TOKEN_ACCOUNT,
+        symbol: 'USDC',
+        decimals: 6,
+        prices: { single: CONFIG.SINGLE_PRICE_USDC, daily: CONFIG.DAILY_PRICE_USDC, pro: CONFIG.PRO_PRICE_USDC },
+        amountStep: '0.01',
+        minConfirmations: CONFIG.SOLANA_MIN_CONFIRMATIONS,
+        icon: '🟢',
+    }] : []),
+];
+
+function validatePaymentAsset(asset: PaymentAsset): PaymentAsset {
+    for (const field of ['id', 'network', 'networkName', 'rpcUrl', 'address', 'symbol', 'amountStep'] as const) {
+        if (!asset[field]) throw new Error(`Payment asset ${asset.id || '?'} is missing "${field}"`);
+    }
+    const isSolana = asset.chain === 'solana';
+    if ((!isSolana && !Number.isInteger(asset.chainId)) || !Number.isInteger(asset.decimals)) {
+        throw new Error(`Payment asset ${asset.id}: chainId and decimals must be integers`);
+    }
+    if (isSolana && !asset.receiver) {
+        throw new Error(`Payment asset ${asset.id}: Solana assets need "receiver" (the receiver token account)`);
+    }
+    if (!asset.prices || !(asset.prices.single > 0)) {
+        throw new Error(`Payment asset ${asset.id}: prices.single must be positive`);
+    }
+    // The suffix needs PAYMENT_INTENT_MAX_SUFFIX + 1 distinct units below amountStep
+    const step = ethers.parseUnits(asset.amountStep, asset.decimals);
+    if (step % BigInt(CONFIG.PAYMENT_INTENT_MAX_SUFFIX + 1) !== 0n) {
+        throw new Error(`Payment asset ${asset.id}: amountStep ${asset.amountStep} is too fine for ${asset.decimals} decimals`);
+    }
+    return {
+        ...asset,
+        address: isSolana ? asset.address : ethers.getAddress(asset.address),
+        rpcUrl: (asset.rpcUrlEnv && process.env[asset.rpcUrlEnv]) || asset.rpcUrl,
+        minConfirmations: asset.minConfirmations ?? 1,
+    };
+}
+
+function loadPaymentAssets(): PaymentAsset[] {
+    const file = process.env.X402_ASSETS_FILE;
+    if (!file) return DEFAULT_PAYMENT_ASSETS;
+    try {
+        const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+        const assets = (Array.isArray(parsed) ? parsed : parsed.assets) as PaymentAsset[];
+        if (!Array.isArray(assets) || assets.length === 0) {
+            throw new Error('expected a non-empty array of assets');
+        }
+        const validated = assets.map(validatePaymentAsset);
+        logger.info(`[X402] Loaded ${validated.length} payment assets from ${file}: ${validated.map(a => a.id).join(', ')}`);
+        return validated;
+    } catch (error) {
+        logger.error(`[X402] Failed to load payment assets from ${file}, using defaults:`, error);
+        return DEFAULT_PAYMENT_ASSETS;
+    }
+}
+
+export const PAYMENT_ASSETS: PaymentAsset[] = loadPaymentAssets();
+
+export function getPaymentAsset(id: string | null | undefined): PaymentAsset | null {
+    return PAYMENT_ASSETS.find(asset => asset.id === id) || null;
+}
+
+export function getAssetsForNetwork(network: string): PaymentAsset[] {
+    return PAYMENT_ASSETS.filter(asset => asset.network === network);
+}
+
+export function isSolanaAsset(asset: PaymentAsset): boolean {
+    return asset.chain === 'solana';
+}
+
+export function getAssetReceiver(asset: PaymentAsset): string {
+    return asset.receiver || CONFIG.RECEIVER_ADDRESS;
+}
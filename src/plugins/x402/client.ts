@@ -0,0 +1,279 @@
+import type { Memory, IAgentRuntime } from '@elizaos/core';
+import { Service, logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import { type Signer, createSigner, wrapFetchWithPayment, decodeXPaymentResponse } from 'x402-fetch';
+import { CONFIG } from './config';
+import type { PaymentAsset } from './assets';
+import { getPaymentAsset } from './assets';
+import { CREDIT_MILLIS, toCreditMillis, formatCredits } from './pricing';
+import { X402Database } from './database';
+import type { X402Service } from './service';
+import type { X402PaymentRequirements } from './http';
+import type { AdminRouteHandler } from './admin-routes';
+
+// ============================================
+// Outbound x402 Spends
+// ============================================
+// reserved, paid and unknown (the payment went out but the outcome was not seen) count toward the agent's
+// daily cap; failed (nothing was sent, or the upstream refused it), blocked and dry runs are kept for the record
+export type ClientSpendStatus = 'reserved' | 'paid' | 'unknown' | 'failed' | 'blocked' | 'dry_run';
+
+export type ClientSpend = {
+    id: string;
+    agent_id: string;
+    business_date: string;
+    url: string;
+    domain: string;
+    asset_id: string;
+    amount: number;
+    credits: number; // passed through to the user's metered bill
+    user_id: string | null;
+    message_id: string | null;
+    status: ClientSpendStatus;
+    tx_hash: string | null;
+    error: string | null;
+    created_at: string;
+    settled_at: string | null;
+};
+
+// ============================================
+// Outbound x402 Client (pays paywalled upstream APIs)
+// ============================================
+// Other plugins call `runtime.getService<X402ClientService>('x402-client')?.fetch(url, init, { message })`.
+// A 402 from an allowlisted domain is paid from the agent's wallet within its caps; anything else
+// (not allowlisted, over a cap, dry run, no wallet) returns the upstream's 402 unpaid.
+type X402ClientPolicy = {
+    privateKey: string;
+    asset: PaymentAsset | null;
+    dailyCap: number;
+    maxPerRequest: number;
+    allowedDomains: string[];
+    dryRun: boolean;
+};
+
+export type X402FetchOptions = {
+    message?: Memory; // the user message being answered: the cost joins its metered bill
+    maxAmount?: number; // a lower per-request limit for this call, in the client asset
+    dryRun?: boolean;
+};
+
+function isAllowedUpstream(hostname: string, allowedDomains: string[]): boolean {
+    return allowedDomains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+export class X402ClientService extends Service {
+    static serviceType = 'x402-client';
+    capabilityDescription = 'Pays x402 (402 Payment Required) upstream APIs from the agent wallet within its spend caps';
+    private db: X402Database;
+    private policy: X402ClientPolicy;
+    private signer: Signer | null = null;
+
+    constructor(runtime: IAgentRuntime) {
+        super(runtime);
+        this.db = X402Database.getInstance();
+        this.policy = X402ClientService.loadPolicy(runtime);
+    }
+
+    // Character settings override the X402_CLIENT_* environment per agent
+    private static loadPolicy(runtime: IAgentRuntime): X402ClientPolicy {
+        const setting = (key: string): string | null => {
+            const value = runtime.getSetting(key);
+            return value === null || value === undefined || value === '' ? null : String(value);
+        };
+        const assetId = setting('X402_CLIENT_ASSET') ?? CONFIG.CLIENT_ASSET;
+        const asset = getPaymentAsset(assetId);
+        return {
+            privateKey: setting('X402_CLIENT_PRIVATE_KEY') ?? CONFIG.CLIENT_PRIVATE_KEY,
+            asset: asset && asset.chain !== 'solana' ? asset : null,
+            dailyCap: parseFloat(setting('X402_CLIENT_DAILY_CAP') ?? String(CONFIG.CLIENT_DAILY_CAP)),
+            maxPerRequest: parseFloat(setting('X402_CLIENT_MAX_PER_REQUEST') ?? String(CONFIG.CLIENT_MAX_PER_REQUEST)),
+            allowedDomains: (setting('X402_CLIENT_ALLOWED_DOMAINS') ?? CONFIG.CLIENT_ALLOWED_DOMAINS)
+                .split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean),
+            dryRun: (setting('X402_CLIENT_DRY_RUN') ?? String(CONFIG.CLIENT_DRY_RUN)) === 'true',
+        };
+    }
+
+    static async start(runtime: IAgentRuntime) {
+        const service = new X402ClientService(runtime);
+        await service.db.init(runtime);
+
+        const { privateKey, asset, allowedDomains, dryRun } = service.policy;
+        if (!asset) {
+            logger.warn(`[X402_CLIENT] Unknown or unsupported client asset - upstream payments are disabled`);
+        } else if (privateKey) {
+            try {
+                service.signer = await createSigner(asset.network, privateKey);
+            } catch (error) {
+                logger.error(`[X402_CLIENT] Could not create a ${asset.network} signer:`, error);
+            }
+        }
+        logger.info(`*** X402 client: ${service.signer ? 'wallet ready' : 'no wallet'}${dryRun ? ' (dry run)' : ''} - ${allowedDomains.length} allowed domain(s) ***`);
+        return service;
+    }
+
+    static async stop(_runtime: IAgentRuntime) {
+        logger.info('*** Stopping X402 client service ***');
+    }
+
+    async stop() {
+        logger.info('*** Stopping X402 client service instance ***');
+    }
+
+    async getSpentToday(): Promise<{ amount: number; cap: number; symbol: string } | null> {
+        const { asset, dailyCap } = this.policy;
+        if (!asset) return null;
+        return { amount: await this.db.getClientSpentToday(this.runtime.agentId, asset.id), cap: dailyCap, symbol: asset.symbol };
+    }
+
+    async fetch(input: string | URL, init: RequestInit = {}, options: X402FetchOptions = {}): Promise<Response> {
+        const response = await fetch(new URL(String(input)), init);
+        if (response.status !== 402) return response;
+
+        // The 402 may come from wherever a redirect led: that final URL is what gets checked and paid
+        const url = new URL(response.url || String(input));
+        const { asset, allowedDomains } = this.policy;
+        const domain = url.hostname.toLowerCase();
+        if (!isAllowedUpstream(domain, allowedDomains)) {
+            logger.warn(`[X402_CLIENT] ${domain} asked for payment but is not an allowed domain`);
+            return response;
+        }
+        if (!asset || !this.signer) {
+            logger.warn(`[X402_CLIENT] ${domain} asked for payment but no client wallet is configured`);
+            return response;
+        }
+
+        const body = await response.clone().json().catch(() => null) as { accepts?: X402PaymentRequirements[] } | null;
+        const requirements = body?.accepts?.find(r =>
+            r.scheme === 'exact' && r.network === asset.network && r.asset.toLowerCase() === asset.address.toLowerCase());
+        if (!requirements) {
+            logger.warn(`[X402_CLIENT] ${domain} does not accept ${asset.symbol} on ${asset.networkName}`);
+            return response;
+        }
+
+        const amount = Number(ethers.formatUnits(requirements.maxAmountRequired, asset.decimals));
+        const limit = Math.min(this.policy.maxPerRequest, options.maxAmount ?? Infinity);
+        if (amount > limit) {
+            logger.warn(`[X402_CLIENT] ${domain} asks ${amount} ${asset.symbol}, over the ${limit} ${asset.symbol} per-request limit`);
+            return response;
+        }
+
+        // One credit is the single-query price, so the user pays what the agent paid
+        const credits = toCreditMillis(amount / asset.prices.single) / CREDIT_MILLIS;
+        const x402 = this.runtime.getService<X402Service>('x402');
+        const spend = await this.db.reserveClientSpend({
+            agentId: this.runtime.agentId,
+            url: `${url.origin}${url.pathname}`,
+            domain,
+            assetId: asset.id,
+            amount,
+            credits,
+            userId: options.message && x402 ? await x402.resolveUserId(options.message) : undefined,
+            messageId: options.message?.id,
+        }, this.policy.dailyCap);
+        if (!spend.allowed) {
+            logger.warn(`[X402_CLIENT] Daily cap of ${this.policy.dailyCap} ${asset.symbol} reached - not paying ${domain}`);
+            return response;
+        }
+        if (this.policy.dryRun || options.dryRun) {
+            await this.db.settleClientSpend(spend.id, 'dry_run');
+            logger.info(`[X402_CLIENT] Dry run: would pay ${amount} ${asset.symbol} to ${domain}`);
+            return response;
+        }
+
+        // Once the X-PAYMENT header has gone out the money may be spent, whatever happens next
+        let paymentSent = false;
+        try {
+            // x402-fetch signs the payment and retries; the 402 already received stands in for its first request.
+            // It signs exactly the requirements checked above, and the paid retry never follows a redirect.
+            let probe: Response | null = response;
+            const payingFetch = wrapFetchWithPayment(
+                async (retryInput, retryInit) => {
+                    const first = probe;
+                    probe = null;
+                    if (first) return first;
+                    paymentSent = true;
+                    return fetch(retryInput, retryInit);
+                },
+                this.signer,
+                BigInt(requirements.maxAmountRequired),
+                accepts => {
+                    const selected = accepts.find(r => r.scheme === requirements.scheme && r.network === requirements.network &&
+                        r.asset.toLowerCase() === requirements.asset.toLowerCase() && r.payTo === requirements.payTo &&
+                        r.maxAmountRequired === requirements.maxAmountRequired);
+                    if (!selected) throw new Error(`${domain} changed its payment requirements`);
+                    return selected;
+                }
+            );
+            const paid = await payingFetch(url.toString(), {
+                ...init,
+                redirect: 'manual',
+                headers: Object.fromEntries(new Headers(init.headers).entries()),
+            });
+
+            const receipt = paid.headers.get('X-PAYMENT-RESPONSE');
+            const txHash = receipt ? decodeXPaymentResponse(receipt).transaction : undefined;
+            if (paid.status === 402 && !txHash) {
+                await this.db.settleClientSpend(spend.id, 'failed', { error: 'payment rejected' });
+                logger.warn(`[X402_CLIENT] ${domain} rejected the payment`);
+                return paid;
+            }
+            if (paid.status >= 300 && paid.status < 400) {
+                // The payment may have been settled before the redirect: it is kept on the cap and the bill
+                const error = `redirected to ${paid.headers.get('location')}`;
+                await this.settleSentPayment(spend.id, txHash ? 'paid' : 'unknown', { txHash, error }, options.message, domain, credits);
+                logger.warn(`[X402_CLIENT] ${domain} redirected the paid request - not following it`);
+                return paid;
+            }
+            const billed = await this.settleSentPayment(spend.id, 'paid', { txHash }, options.message, domain, credits);
+            if (billed) {
+                logger.info(`[X402_CLIENT] Paid ${amount} ${asset.symbol} to ${domain} (${formatCredits(credits)} credits on the user's bill)`);
+            } else {
+                logger.info(`[X402_CLIENT] Paid ${amount} ${asset.symbol} to ${domain}${txHash ? ` (${txHash})` : ''}`);
+            }
+            return paid;
+        } catch (error) {
+            const details = { error: error instanceof Error ? error.message : String(error) };
+            if (paymentSent) {
+                await this.settleSentPayment(spend.id, 'unknown', details, options.message, domain, credits);
+                logger.warn(`[X402_CLIENT] Paid request to ${domain} failed after the payment was sent - outcome unknown`);
+            } else {
+                await this.db.settleClientSpend(spend.id, 'failed', details);
+            }
+            throw error;
+        }
+    }
+
+    // A payment that went out stays on the daily cap and is passed through to the user's bill
+    private async settleSentPayment(
+        spendId: string,
+        status: 'paid' | 'unknown',
+        details: { txHash?: string; error?: string },
+        message: Memory | undefined,
+        domain: string,
+        credits: number
+    ): Promise<boolean> {
+        await this.db.settleClientSpend(spendId, status, details);
+        const x402 = this.runtime.getService<X402Service>('x402');
+        return !!message && !!x402?.recordUpstreamCost(message, domain, credits);
+    }
+}
+
+// ============================================
+// Admin REST API (client spends)
+// ============================================
+// Query: agent, user, status, limit - upstream x402 payments made by the agents, newest first
+export const adminListClientSpendsHandler: AdminRouteHandler = async (req, res, db) => {
+    const query = (req.query || {}) as Record<string, string | undefined>;
+    const status = query.status as ClientSpendStatus | undefined;
+    if (status && !['reserved', 'paid', 'unknown', 'failed', 'blocked', 'dry_run'].includes(status)) {
+        res.status(400).json({ error: `Unknown status: ${status}` });
+        return;
+    }
+    const spends = await db.findClientSpends({
+        agentId: query.agent,
+        userId: query.user,
+        status,
+        limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    });
+    res.status(200).json({ spends });
+};
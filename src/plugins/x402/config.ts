@@ -0,0 +1,139 @@
+import type { PaymentPlan } from './types';
+
+// ============================================
+// Configuration
+// ============================================
+export const CONFIG = {
+    FREE_DAILY_LIMIT: 3,
+    // Business timezone: the free tier resets and Daily plans expire at midnight here
+    TIMEZONE: process.env.X402_TIMEZONE || 'Asia/Tokyo',
+    DAILY_QUERY_LIMIT: 30,
+    PRO_DURATION_DAYS: 30,
+
+    // Metered billing: credits per action (JSON object overriding the built-in table), the price of an
+    // action missing from the table, and credits per 1,000 LLM tokens (0 = tokens are not billed)
+    ACTION_PRICES: process.env.X402_ACTION_PRICES || '',
+    DEFAULT_ACTION_PRICE: parseFloat(process.env.X402_DEFAULT_ACTION_PRICE || '1'),
+    TOKEN_PRICE_PER_1K: parseFloat(process.env.X402_TOKEN_PRICE_PER_1K || '0'),
+    // Pro keeps working this many days after pro_expires_at; reminders go out this many days before it
+    PRO_GRACE_DAYS: parseInt(process.env.X402_PRO_GRACE_DAYS || '3', 10),
+    PRO_REMINDER_DAYS: parseInt(process.env.X402_PRO_REMINDER_DAYS || '3', 10),
+    SUBSCRIPTION_CHECK_INTERVAL_MS: parseInt(process.env.X402_SUBSCRIPTION_CHECK_INTERVAL_MS || '3600000', 10),
+
+    // Base Mainnet USDC pricing
+    SINGLE_PRICE_USDC: 0.1,
+    DAILY_PRICE_USDC: 1,
+    PRO_PRICE_USDC: 9,
+    USDC_ADDRESS: process.env.X402_USDC_ADDRESS || '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base Mainnet USDC (6 decimals)
+    BASE_RPC_URL: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
+
+    // Polygon JPYC pricing
+    SINGLE_PRICE_JPYC: 15,
+    DAILY_PRICE_JPYC: 150,
+    PRO_PRICE_JPYC: 1500,
+    JPYC_ADDRESS: process.env.X402_JPYC_ADDRESS || '0x431D5dfF03120AFA4bDf332c61A6e1766eF37BDB', // Polygon JPYC v2 (18 decimals)
+    POLYGON_RPC_URL: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+
+    // Analytics: JPY per USD stablecoin for the JPY-equivalent revenue (JPYC counts 1:1)
+    USD_JPY_RATE: parseFloat(process.env.X402_USD_JPY_RATE || '150'),
+    ANALYTICS_MAX_DAYS: 366,
+
+    // Solana SPL USDC (same prices as Base USDC; enabled when the receiver token account is set)
+    SOLANA_RPC_URL: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+    SOLANA_USDC_MINT: process.env.X402_SOLANA_USDC_MINT || 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    SOLANA_USDC_TOKEN_ACCOUNT: process.env.X402_SOLANA_USDC_TOKEN_ACCOUNT || '',
+
+    // Payment intents: unique amount suffix per user, valid for a limited time
+    PAYMENT_INTENT_TTL_MINUTES: parseInt(process.env.X402_INTENT_TTL_MINUTES || '30', 10),
+    PAYMENT_INTENT_MAX_SUFFIX: 9999,
+
+    // EIP-681 QR codes attached to the payment prompt, one per EVM asset and listed plan (empty disables)
+    PAYMENT_QR_PLANS: (process.env.X402_PAYMENT_QR_PLANS ?? 'single,daily,pro').split(',').map(plan => plan.trim()).filter(Boolean),
+
+    // EIP-3009 settlement: either a hosted x402 facilitator or our own relayer wallet
+    FACILITATOR_URL: process.env.X402_FACILITATOR_URL || '',
+    RELAYER_PRIVATE_KEY: process.env.X402_RELAYER_PRIVATE_KEY || '',
+
+    // Approved refunds are sent from this hot wallet when asked to (otherwise only the transfer is built)
+    REFUND_PRIVATE_KEY: process.env.X402_REFUND_PRIVATE_KEY || '',
+
+    // Outbound x402 client: pays paywalled upstream APIs from a dedicated agent wallet.
+    // Each value can be overridden per agent in its character settings (or secrets for the key).
+    CLIENT_PRIVATE_KEY: process.env.X402_CLIENT_PRIVATE_KEY || '',
+    CLIENT_ASSET: process.env.X402_CLIENT_ASSET || 'base-usdc', // registry id of the token it pays with
+    CLIENT_DAILY_CAP: parseFloat(process.env.X402_CLIENT_DAILY_CAP || '1'), // per agent and business day, in CLIENT_ASSET
+    CLIENT_MAX_PER_REQUEST: parseFloat(process.env.X402_CLIENT_MAX_PER_REQUEST || '0.1'),
+    CLIENT_ALLOWED_DOMAINS: process.env.X402_CLIENT_ALLOWED_DOMAINS || '', // comma-separated, subdomains included
+    CLIENT_DRY_RUN: process.env.X402_CLIENT_DRY_RUN === 'true',
+
+    // Transaction policy for on-chain writes the agents send from hot keys (ERC-8004, ...).
+    // Costs are worst-case gas plus value in the chain's native token; X402_TX_BUDGETS overrides
+    // the limits per kind, e.g. {"erc8004:endorseAgent": {"maxPerTx": 0.0005, "approvalThreshold": 0}}
+    TX_KILL_SWITCH: process.env.X402_TX_KILL_SWITCH === 'true',
+    TX_MAX_PER_TX: parseFloat(process.env.X402_TX_MAX_PER_TX || '0.001'),
+    TX_DAILY_BUDGET: parseFloat(process.env.X402_TX_DAILY_BUDGET || '0.005'), // per agent and business day, all kinds
+    TX_APPROVAL_THRESHOLD: parseFloat(process.env.X402_TX_APPROVAL_THRESHOLD || '0.0002'), // above this an admin approves
+    TX_BUDGETS: process.env.X402_TX_BUDGETS || '',
+    TX_APPROVAL_TTL_MINUTES: parseInt(process.env.X402_TX_APPROVAL_TTL_MINUTES || '1440', 10),
+    TX_APPROVAL_NOTIFY: process.env.X402_TX_APPROVAL_NOTIFY || '', // comma-separated source:channelId (admin DMs)
+    TX_SWEEP_INTERVAL_MS: 60 * 1000,
+
+    // Incoming payment watcher (polls Transfer logs to RECEIVER_ADDRESS)
+    WATCHER_ENABLED: process.env.X402_WATCHER_ENABLED !== 'false',
+    WATCHER_INTERVAL_MS: parseInt(process.env.X402_WATCHER_INTERVAL_MS || '15000', 10),
+    WATCHER_MAX_BLOCK_RANGE: parseInt(process.env.X402_WATCHER_MAX_BLOCK_RANGE || '1000', 10),
+    WATCHER_START_LOOKBACK_BLOCKS: 100,
+
+    // Confirmation depth before crediting, and how long credited payments are re-checked for reorgs
+    BASE_MIN_CONFIRMATIONS: parseInt(process.env.X402_BASE_MIN_CONFIRMATIONS || '5', 10),
+    POLYGON_MIN_CONFIRMATIONS: parseInt(process.env.X402_POLYGON_MIN_CONFIRMATIONS || '30', 10),
+    SOLANA_MIN_CONFIRMATIONS: parseInt(process.env.X402_SOLANA_MIN_CONFIRMATIONS || '32', 10),
+    CONFIRMATION_CHECK_INTERVAL_MS: parseInt(process.env.X402_CONFIRMATION_CHECK_INTERVAL_MS || '20000', 10),
+    REORG_RECHECK_MINUTES: parseInt(process.env.X402_REORG_RECHECK_MINUTES || '60', 10),
+    // A credited tx that has no receipt is revoked only after this many rechecks, each at a newer block
+    REORG_MISSING_RECHECKS: parseInt(process.env.X402_REORG_MISSING_RECHECKS || '3', 10),
+    PENDING_PAYMENT_TIMEOUT_MINUTES: 60,
+
+    // Access reserved for a message is released if its response is neither captured nor released in time
+    RESERVATION_TTL_MINUTES: parseInt(process.env.X402_RESERVATION_TTL_MINUTES || '5', 10),
+    RESERVATION_SWEEP_INTERVAL_MS: 60 * 1000,
+
+    // Other agents wait this long for the agent that claimed a message to decide its access; after that
+    // the pending claim has expired and the next agent takes it over and decides again
+    MESSAGE_CLAIM_WAIT_MS: 5000,
+    MESSAGE_CLAIM_RETENTION_HOURS: parseInt(process.env.X402_MESSAGE_CLAIM_RETENTION_HOURS || '24', 10),
+
+    // One-time codes and wallet signature requests for linking platform accounts
+    LINK_CODE_TTL_MINUTES: parseInt(process.env.X402_LINK_CODE_TTL_MINUTES || '10', 10),
+
+    // Credits a referrer gets when someone they referred makes a first payment of at least REFERRAL_MIN_PLAN
+    REFERRAL_REWARD_CREDITS: parseFloat(process.env.X402_REFERRAL_REWARD_CREDITS || '5'),
+    REFERRAL_MIN_PLAN: (process.env.X402_REFERRAL_MIN_PLAN || 'daily') as PaymentPlan,
+    // Rewards one referrer can earn within REFERRAL_REWARD_PERIOD_DAYS; referrals over the cap are rejected
+    REFERRAL_MAX_REWARDS_PER_PERIOD: parseInt(process.env.X402_REFERRAL_MAX_REWARDS_PER_PERIOD || '10', 10),
+    REFERRAL_REWARD_PERIOD_DAYS: parseInt(process.env.X402_REFERRAL_REWARD_PERIOD_DAYS || '30', 10),
+
+    // Sign-In With Ethereum (EIP-4361): signed messages must name this domain and URI
+    SIWE_DOMAIN: process.env.X402_SIWE_DOMAIN || new URL(process.env.PAYMENT_PAGE_URL || 'https://x402payment.vercel.app').host,
+    SIWE_URI: process.env.X402_SIWE_URI || `${process.env.PAYMENT_PAGE_URL || 'https://x402payment.vercel.app'}/link`,
+    SIWE_CHAIN_ID: parseInt(process.env.X402_SIWE_CHAIN_ID || '8453', 10),
+    // Bearer session the HTTP API accepts after a SIWE sign-in on the payment page
+    SIWE_SESSION_TTL_MINUTES: parseInt(process.env.X402_SIWE_SESSION_TTL_MINUTES || '1440', 10),
+
+    // Common
+    RECEIVER_ADDRESS: process.env.X402_RECEIVER_ADDRESS || '0x52d4901142e2b5680027da5eb47c86cb02a3ca81',
+    DB_DIR: process.env.X402_DB_DIR || './data',
+
+    // Admin REST API root token: SHA-256 (hex) of the bearer token (named admin keys work too)
+    ADMIN_TOKEN_HASH: (process.env.X402_ADMIN_TOKEN_HASH || '').toLowerCase(),
+
+    // Admin sessions (chat login with a named admin key) and failed-attempt lockout
+    ADMIN_SESSION_TTL_MINUTES: parseInt(process.env.X402_ADMIN_SESSION_TTL_MINUTES || '480', 10),
+    ADMIN_MAX_FAILED_ATTEMPTS: parseInt(process.env.X402_ADMIN_MAX_FAILED_ATTEMPTS || '5', 10),
+    ADMIN_LOCKOUT_MINUTES: parseInt(process.env.X402_ADMIN_LOCKOUT_MINUTES || '15', 10),
+
+    // Storage backend: 'sqljs' (x402.db file in DB_DIR) or 'postgres' (the runtime's plugin-sql database)
+    STORE: (process.env.X402_STORE || 'sqljs') as 'sqljs' | 'postgres',
+    STORE_SCHEMA: process.env.X402_STORE_SCHEMA || 'x402',
+    STORE_FLUSH_DELAY_MS: parseInt(process.env.X402_STORE_FLUSH_DELAY_MS || '250', 10),
+};
@@ -0,0 +1,217 @@
+import type { Memory, Action, IAgentRuntime, State, HandlerCallback, ActionResult } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { CONFIG } from './config';
+import type { PaymentPlan } from './types';
+import { formatCredits } from './pricing';
+import { getMessageKey } from './messages';
+import { PLAN_LABELS } from './payment-prompt';
+import type { X402Service } from './service';
+import type { AdminRouteHandler } from './admin-routes';
+
+// ============================================
+// Coupons & Referrals
+// ============================================
+export type Coupon = {
+    code: string;
+    credits: number;
+    discount_percent: number;
+    plan: PaymentPlan | null; // discount coupons: the plan it applies to (null = every plan)
+    max_redemptions: number | null;
+    redemptions: number;
+    per_user_limit: number;
+    expires_at: string | null;
+    created_by: string | null;
+    created_at: string;
+    disabled_at: string | null;
+};
+
+// granted: credits added; active: discount waiting for a payment; used: discount applied;
+// replaced: discount superseded by a newer one
+type CouponRedemptionStatus = 'granted' | 'active' | 'used' | 'replaced';
+
+export type CouponRedemption = {
+    id: string;
+    code: string;
+    user_id: string;
+    credits: number;
+    discount_percent: number;
+    plan: PaymentPlan | null;
+    status: CouponRedemptionStatus;
+    request_key: string | null;
+    tx_hash: string | null;
+    created_at: string;
+    used_at: string | null;
+};
+
+export type CouponRedeemError = 'unknown' | 'expired' | 'exhausted' | 'limit';
+
+export type ReferralError = 'unknown' | 'self' | 'already_referred' | 'already_paid';
+
+export type Referral = {
+    referee_id: string;
+    referrer_id: string;
+    code: string;
+    status: 'pending' | 'rewarded' | 'reverted' | 'rejected';
+    reward_credits: number;
+    payment_tx_hash: string | null;
+    created_at: string;
+    rewarded_at: string | null;
+};
+
+export type RedeemCodeResult =
+    | { kind: 'credits'; code: string; credits: number }
+    | { kind: 'discount'; code: string; percent: number; plan: PaymentPlan | null }
+    | { kind: 'referral'; code: string }
+    | { kind: 'error'; error: CouponRedeemError | ReferralError };
+
+const COUPON_CODE_REGEX = /^[A-Z0-9][A-Z0-9_-]{2,31}$/;
+export const REFERRAL_CODE_PREFIX = 'REF-';
+export const REFERRAL_PLAN_RANK: Record<PaymentPlan, number> = { single: 0, daily: 1, pro: 2 };
+
+// ============================================
+// Coupons & Referrals (chat)
+// ============================================
+// Chat: "コード <CODE>" / "クーポン <CODE>" / "紹介 <REF-CODE>" / "redeem <CODE>"
+const REDEEM_CODE_REGEX = /^\/?(?:クーポン|コード|紹介コード|紹介|promo|coupon|redeem|code)\s*[:：]?\s*([A-Za-z0-9][A-Za-z0-9_-]{2,31})$/i;
+
+export function getRedeemCode(message: Memory): string | null {
+    const match = (message.content.text || '').trim().match(REDEEM_CODE_REGEX);
+    return match ? match[1].toUpperCase() : null;
+}
+
+function formatRedeemCodeResult(result: RedeemCodeResult): string {
+    switch (result.kind) {
+        case 'credits':
+            return `🎁 クーポン \`${result.code}\` を適用しました！\n\n🎫 ${formatCredits(result.credits)} クレジットを付与しました。「ステータス」で確認できます。`;
+        case 'discount':
+            return `🎁 クーポン \`${result.code}\` を適用しました！\n\n💸 次回のお支払い（${result.plan ? PLAN_LABELS[result.plan] : '全プラン'}）が ${result.percent}% OFF になります。支払いリンクには割引後の金額が表示されます。`;
+        case 'referral':
+            return `🤝 紹介コード \`${result.code}\` を登録しました！\n\n初めてのお支払いが確認されると、紹介者にクレジットがプレゼントされます。`;
+        case 'error': {
+            const messages: Record<CouponRedeemError | ReferralError, string> = {
+                unknown: 'このコードは無効です。',
+                expired: 'このクーポンは有効期限が切れています。',
+                exhausted: 'このクーポンは利用上限に達しました。',
+                limit: 'このクーポンはすでに利用済みです。',
+                self: '自分の紹介コードは使えません。',
+                already_referred: 'すでに紹介コードを登録済みです。',
+                already_paid: '紹介コードは初めてのお支払い前のみ登録できます。',
+            };
+            return `❌ ${messages[result.error]}`;
+        }
+    }
+}
+
+// Referral section of the payment prompt: the user's code, which friends send in chat
+export function formatReferralLines(code: string): string {
+    return `🤝 **友達紹介**: あなたの紹介コードは \`${code}\` です。
+友達が「紹介 ${code}」と送信してから初めて ${PLAN_LABELS[CONFIG.REFERRAL_MIN_PLAN]} 以上のプランを購入すると、あなたに ${formatCredits(CONFIG.REFERRAL_REWARD_CREDITS)} クレジットをプレゼント！`;
+}
+
+// Redeem Code Action: promo codes (credits or a discount) and referral codes
+export const redeemCodeAction: Action = {
+    name: 'REDEEM_CODE',
+    similes: ['クーポン', 'コード', '紹介', 'promo', 'coupon', 'redeem'],
+    description: 'Redeems a promo code (free credits or a discount on the next payment) or registers a referral code',
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        const agentName = runtime.character?.name || 'unknown';
+        if (agentName !== 'Dliza' && agentName !== 'Coo') {
+            return false;
+        }
+        return !!getRedeemCode(message);
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        const code = getRedeemCode(message);
+        if (!service || !code) return { success: false };
+
+        // Both agents see the message; the request key makes it one redemption
+        const result = await service.redeemCode(await service.resolveUserId(message), code, `chat:${getMessageKey(message)}`);
+        await callback({ text: formatRedeemCodeResult(result), source: message.content.source });
+        return { success: result.kind !== 'error' };
+    },
+    examples: []
+};
+
+// ============================================
+// Admin REST API (coupons)
+// ============================================
+// Query: all=1 includes disabled coupons
+export const adminListCouponsHandler: AdminRouteHandler = async (req, res, db) => {
+    const query = (req.query || {}) as Record<string, string | undefined>;
+    res.status(200).json({ coupons: await db.listCoupons(query.all === '1') });
+};
+
+// Body: { code, credits | discountPercent, plan?, maxRedemptions?, perUserLimit?, expiresAt? }
+export const adminCreateCouponHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const body = (req.body || {}) as {
+        code?: unknown; credits?: unknown; discountPercent?: unknown; plan?: unknown;
+        maxRedemptions?: unknown; perUserLimit?: unknown; expiresAt?: unknown;
+    };
+    const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+    if (!COUPON_CODE_REGEX.test(code) || code.startsWith(REFERRAL_CODE_PREFIX)) {
+        res.status(400).json({ error: `code must be 3-32 letters, digits, - or _ and must not start with ${REFERRAL_CODE_PREFIX}` });
+        return;
+    }
+
+    const credits = body.credits === undefined ? 0 : Number(body.credits);
+    const discountPercent = body.discountPercent === undefined ? 0 : Number(body.discountPercent);
+    if ((credits > 0) === (discountPercent > 0) || !Number.isFinite(credits) || credits < 0 ||
+        !Number.isInteger(discountPercent) || discountPercent < 0 || discountPercent > 99) {
+        res.status(400).json({ error: 'Exactly one of credits (> 0) or discountPercent (1-99) is required' });
+        return;
+    }
+
+    const plan = body.plan === undefined || body.plan === null ? null : body.plan;
+    if (plan !== null && (discountPercent === 0 || !['single', 'daily', 'pro'].includes(plan as string))) {
+        res.status(400).json({ error: 'plan (single, daily or pro) only applies to discount coupons' });
+        return;
+    }
+
+    const maxRedemptions = body.maxRedemptions === undefined || body.maxRedemptions === null ? null : Number(body.maxRedemptions);
+    const perUserLimit = body.perUserLimit === undefined ? 1 : Number(body.perUserLimit);
+    if ((maxRedemptions !== null && !(Number.isInteger(maxRedemptions) && maxRedemptions > 0)) ||
+        !(Number.isInteger(perUserLimit) && perUserLimit > 0)) {
+        res.status(400).json({ error: 'maxRedemptions and perUserLimit must be positive integers' });
+        return;
+    }
+
+    let expiresAt: string | null = null;
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+        const expires = new Date(String(body.expiresAt));
+        if (isNaN(expires.getTime())) {
+            res.status(400).json({ error: 'expiresAt must be a date' });
+            return;
+        }
+        expiresAt = expires.toISOString();
+    }
+
+    const created = await db.createCoupon({
+        code, credits, discountPercent, plan: plan as PaymentPlan | null, maxRedemptions, perUserLimit, expiresAt, createdBy: actor,
+    });
+    if (!created) {
+        res.status(409).json({ error: `Coupon ${code} already exists` });
+        return;
+    }
+    logger.info(`[X402_ADMIN] Coupon ${code} created by ${actor}`);
+    res.status(200).json({ success: true, coupon: await db.getCoupon(code) });
+};
+
+export const adminDisableCouponHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const code = (req.params?.code || '').toUpperCase();
+    if (!(await db.disableCoupon(code))) {
+        res.status(404).json({ error: `No active coupon ${code}` });
+        return;
+    }
+    logger.info(`[X402_ADMIN] Coupon ${code} disabled by ${actor}`);
+    res.status(200).json({ success: true, coupon: await db.getCoupon(code) });
+};
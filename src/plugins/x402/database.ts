@@ -0,0 +1,1858 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import crypto from 'crypto';
+import { CONFIG } from './config';
+import type {
+    PaymentPlan,
+    PaymentStatus,
+    PaymentRecord,
+    ProNoticeColumn,
+    ReservationStatus,
+    AccessReservation,
+    MessageClaim,
+} from './types';
+import type { PaymentAsset } from './assets';
+import { isSolanaAsset } from './assets';
+import { CREDIT_MILLIS, getActionPrice, toCreditMillis, formatCredits } from './pricing';
+import { getBusinessDate, getBusinessDayEnd, getProGraceEnd } from './time';
+import type { PaymentIntent, PaymentIntentOrigin } from './intents';
+import { getIntentSuffixOf, intentMatchesTransfer } from './intents';
+import type { X402Store } from './store';
+import { createX402Store } from './store';
+import { X402_SCHEMA_VERSION, getAppliedMigrations, runX402Migrations } from './migrations';
+import type { LedgerAccount, LedgerContext, LedgerEntry, LedgerMismatch } from './ledger';
+import type { AdminCredentialRecord } from './admin-auth';
+import type { LinkCodeKind, LinkCode, WalletRecord } from './identity';
+import { generateLinkCode, hashLinkCode, getWalletIdentity } from './identity';
+import type { Coupon, CouponRedemption, CouponRedeemError, ReferralError, Referral } from './coupons';
+import { REFERRAL_CODE_PREFIX, REFERRAL_PLAN_RANK } from './coupons';
+import type { RefundStatus, RefundTransfer, RefundRecord } from './refunds';
+import type { ClientSpendStatus, ClientSpend } from './client';
+import type { AgentTransactionStatus, AgentTransaction } from './tx-policy';
+import type { UsageRow } from './analytics';
+
+// ============================================
+// X402 Database (domain queries on top of an X402Store)
+// ============================================
+// users column holding each consume type's reserved access
+const RESERVATION_HOLD_COLUMNS: Record<string, string> = {
+    credit: 'credit_millis_held',
+    daily: 'daily_plan_held',
+    free: 'daily_free_held',
+};
+
+export class X402Database {
+    private store: X402Store | null = null;
+    private static instance: X402Database | null = null;
+    private initialized: boolean = false;
+    private initPromise: Promise<void> | null = null;
+
+    static getInstance(): X402Database {
+        if (!X402Database.instance) {
+            X402Database.instance = new X402Database();
+        }
+        return X402Database.instance;
+    }
+
+    // The first agent to start picks the backend; all agents in the process share it
+    async init(runtime?: IAgentRuntime): Promise<void> {
+        if (this.initialized) return;
+        if (this.initPromise) return this.initPromise;
+
+        this.initPromise = this._init(runtime);
+        await this.initPromise;
+    }
+
+    private async _init(runtime?: IAgentRuntime): Promise<void> {
+        try {
+            const store = await createX402Store(runtime);
+            await store.init();
+            this.store = store;
+
+            await runX402Migrations(store);
+            await store.flush();
+            this.initialized = true;
+            logger.info(`[X402DB] Database initialized (${store.describe()})`);
+        } catch (error) {
+            this.initPromise = null;
+            logger.error(`[X402DB] Failed to initialize database:`, error);
+            throw error;
+        }
+    }
+
+    async flush(): Promise<void> {
+        await this.store?.flush();
+    }
+
+    private async run(sql: string, params: unknown[] = []): Promise<number> {
+        if (!this.store) return 0;
+        return this.store.run(sql, params);
+    }
+
+    private async all<T = Record<string, any>>(sql: string, params: unknown[] = []): Promise<T[]> {
+        if (!this.store) return [];
+        return this.store.all<T>(sql, params);
+    }
+
+    // Schema version (highest applied migration) and the version this build expects
+    async getSchemaStatus(): Promise<{ backend: string; version: number; latest: number; migrations: { version: number; name: string; applied_at: string }[] }> {
+        const migrations = this.store ? await getAppliedMigrations(this.store) : [];
+        return {
+            backend: this.store?.describe() || 'uninitialized',
+            version: migrations.reduce((max, row) => Math.max(max, Number(row.version)), 0),
+            latest: X402_SCHEMA_VERSION,
+            migrations,
+        };
+    }
+
+    // User Management
+    async getUser(userId: string): Promise<any> {
+        const rows = await this.all('SELECT * FROM users WHERE user_id = ?', [userId]);
+        return rows[0] || null;
+    }
+
+    async ensureUser(userId: string): Promise<any> {
+        let user = await this.getUser(userId);
+        if (!user) {
+            const today = getBusinessDate();
+            // Another agent or replica may create the same user concurrently
+            await this.run(
+                `INSERT INTO users (user_id, daily_reset_date) VALUES (?, ?) ON CONFLICT(user_id) DO NOTHING`,
+                [userId, today]
+            );
+            user = await this.getUser(userId);
+        }
+        return user;
+    }
+
+    // Identities: platform accounts linked together share the balance of one canonical account.
+    // Identity rows always point at the canonical account (merges re-point them), so one lookup resolves.
+    async resolveAccount(identityId: string): Promise<string> {
+        const rows = await this.all<{ account_id: string }>(`SELECT account_id FROM identities WHERE identity_id = ?`, [identityId]);
+        return rows[0]?.account_id || identityId;
+    }
+
+    async getLinkedIdentities(accountId: string): Promise<{ identity_id: string; linked_via: string; linked_at: string }[]> {
+        return this.all(
+            `SELECT identity_id, linked_via, linked_at FROM identities WHERE account_id = ? ORDER BY linked_at`,
+            [accountId]
+        );
+    }
+
+    // Moves one account into another: its credits and remaining Pro time, and every identity linked to
+    // it. The Daily plan and free-tier usage stay with the account they were used on.
+    async mergeAccounts(fromId: string, intoId: string, linkedVia: string, context: LedgerContext = {}): Promise<void> {
+        if (fromId === intoId) return;
+        await this.ensureUser(intoId);
+        const entry: LedgerContext = { reason: `merge:${linkedVia}`, ...context };
+
+        // Credits (negative balances move too); conditional on the balance read first
+        let moved = 0;
+        for (let attempt = 0; ; attempt++) {
+            const before = Number((await this.getUser(fromId))?.credit_millis || 0);
+            if (before === 0) break;
+            const changed = await this.run(
+                `UPDATE users SET credit_millis = 0, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND credit_millis = ?`,
+                [fromId, before]
+            );
+            if (changed > 0) {
+                await this.appendLedger(fromId, 'credits', -before, 0, 'merged_out', entry);
+                moved = before;
+                break;
+            }
+            if (attempt >= 4) throw new Error(`Credits of ${fromId} are being updated concurrently`);
+        }
+        if (moved !== 0) {
+            const rows = await this.all<{ credit_millis: number }>(
+                `UPDATE users SET credit_millis = credit_millis + ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? RETURNING credit_millis`,
+                [moved, intoId]
+            );
+            await this.appendLedger(intoId, 'credits', moved, Number(rows[0]?.credit_millis ?? moved), 'merged_in', entry);
+        }
+
+        // Pro: the later expiry wins
+        const from = await this.getUser(fromId);
+        if (from?.pro_expires_at) {
+            const into = await this.getUser(intoId);
+            const fromExpiry = new Date(from.pro_expires_at);
+            const intoExpiry = into?.pro_expires_at ? new Date(into.pro_expires_at) : null;
+            if (!intoExpiry || fromExpiry > intoExpiry) {
+                const changed = await this.run(
+                    `UPDATE users SET is_pro = 1, pro_expires_at = ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND COALESCE(pro_expires_at, '') = ?`,
+                    [from.pro_expires_at, intoId, into?.pro_expires_at || '']
+                );
+                if (changed > 0) {
+                    const days = Math.round((fromExpiry.getTime() - (intoExpiry?.getTime() ?? Date.now())) / (24 * 60 * 60 * 1000));
+                    await this.appendLedger(intoId, 'pro', Math.max(0, days), null, 'merged_in', entry, from.pro_expires_at);
+                }
+            }
+            const changed = await this.run(
+                `UPDATE users SET is_pro = 0, pro_expires_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND pro_expires_at = ?`,
+                [fromId, from.pro_expires_at]
+            );
+            if (changed > 0) {
+                await this.appendLedger(fromId, 'pro', 0, null, 'merged_out', entry);
+            }
+        }
+
+        await this.run(`UPDATE identities SET account_id = ? WHERE account_id = ?`, [intoId, fromId]);
+        await this.linkIdentity(fromId, intoId, linkedVia);
+        logger.info(`[X402DB] Merged account ${fromId} into ${intoId} (${linkedVia})`);
+    }
+
+    // Points an identity without a balance of its own at an account (use mergeAccounts otherwise)
+    async linkIdentity(identityId: string, accountId: string, linkedVia: string): Promise<void> {
+        await this.run(
+            `INSERT INTO identities (identity_id, account_id, linked_via, linked_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT(identity_id) DO UPDATE SET account_id = excluded.account_id, linked_via = excluded.linked_via, linked_at = excluded.linked_at`,
+            [identityId, accountId, linkedVia, new Date().toISOString()]
+        );
+        await this.rejectLinkedReferrals(accountId, { reason: `link:${linkedVia}` });
+    }
+
+    // Detaches an identity from the account it was linked to; the balance stays with that account.
+    // The account's own identity cannot be unlinked (unlink the others instead).
+    async unlinkIdentity(identityId: string): Promise<boolean> {
+        return (await this.run(`DELETE FROM identities WHERE identity_id = ? AND account_id <> identity_id`, [identityId])) > 0;
+    }
+
+    async createLinkCode(
+        kind: LinkCodeKind,
+        code: string,
+        identityId: string,
+        accountId: string,
+        options: { address?: string; message?: string; expiresAt?: Date } = {}
+    ): Promise<Date> {
+        const now = new Date();
+        const expiresAt = options.expiresAt || new Date(now.getTime() + CONFIG.LINK_CODE_TTL_MINUTES * 60 * 1000);
+        await this.run(
+            `INSERT INTO link_codes (code_hash, kind, identity_id, account_id, address, message, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                hashLinkCode(code), kind, identityId, accountId, options.address?.toLowerCase() || null, options.message || null,
+                now.toISOString(), expiresAt.toISOString(),
+            ]
+        );
+        return expiresAt;
+    }
+
+    // The sender's latest chat sign-in waiting for its signature
+    async getPendingWalletSignIn(identityId: string): Promise<LinkCode | null> {
+        const rows = await this.all<LinkCode>(
+            `SELECT * FROM link_codes WHERE kind = 'wallet' AND identity_id = ? AND message IS NOT NULL AND used_at IS NULL AND expires_at > ?
+             ORDER BY created_at DESC LIMIT 1`,
+            [identityId, new Date().toISOString()]
+        );
+        return rows[0] || null;
+    }
+
+    async getLinkCode(kind: LinkCodeKind, code: string): Promise<LinkCode | null> {
+        const rows = await this.all<LinkCode>(
+            `SELECT * FROM link_codes WHERE code_hash = ? AND kind = ? AND used_at IS NULL AND expires_at > ?`,
+            [hashLinkCode(code), kind, new Date().toISOString()]
+        );
+        return rows[0] || null;
+    }
+
+    // Single use: only the first caller gets the code back
+    async useLinkCode(kind: LinkCodeKind, code: string): Promise<LinkCode | null> {
+        const now = new Date().toISOString();
+        const rows = await this.all<LinkCode>(
+            `UPDATE link_codes SET used_at = ? WHERE code_hash = ? AND kind = ? AND used_at IS NULL AND expires_at > ? RETURNING *`,
+            [now, hashLinkCode(code), kind, now]
+        );
+        return rows[0] || null;
+    }
+
+    // Wallets (proven with a SIWE signature)
+    async recordWallet(address: string, chainId: number): Promise<void> {
+        const now = new Date().toISOString();
+        await this.run(
+            `INSERT INTO wallets (address, chain_id, verified_at, last_sign_in_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT(address) DO UPDATE SET chain_id = excluded.chain_id, last_sign_in_at = excluded.last_sign_in_at`,
+            [address.toLowerCase(), chainId, now, now]
+        );
+    }
+
+    // Account that payments from a verified wallet are credited to (null for unverified senders)
+    async getVerifiedWalletAccount(address: string): Promise<string | null> {
+        const rows = await this.all(`SELECT 1 AS verified FROM wallets WHERE address = ?`, [address.toLowerCase()]);
+        return rows.length > 0 ? this.resolveAccount(getWalletIdentity(address)) : null;
+    }
+
+    async createWalletSession(tokenHash: string, identityId: string, expiresAt: Date): Promise<void> {
+        await this.run(
+            `INSERT INTO wallet_sessions (token_hash, identity_id, created_at, expires_at) VALUES (?, ?, ?, ?)`,
+            [tokenHash, identityId, new Date().toISOString(), expiresAt.toISOString()]
+        );
+    }
+
+    // Account of an unexpired session (followed through links, so a merge keeps the session working)
+    async getWalletSessionAccount(tokenHash: string): Promise<string | null> {
+        const rows = await this.all<{ identity_id: string }>(
+            `SELECT identity_id FROM wallet_sessions WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > ?`,
+            [tokenHash, new Date().toISOString()]
+        );
+        return rows[0] ? this.resolveAccount(rows[0].identity_id) : null;
+    }
+
+    async getAccountWallets(accountId: string): Promise<WalletRecord[]> {
+        return this.all<WalletRecord>(
+            `SELECT w.* FROM wallets w
+             WHERE 'wallet:' || w.address = ?
+             OR 'wallet:' || w.address IN (SELECT identity_id FROM identities WHERE account_id = ?)
+             ORDER BY w.verified_at`,
+            [accountId, accountId]
+        );
+    }
+
+    // Billing Ledger (every balance change appends an entry; entries are never updated)
+    private async appendLedger(
+        userId: string,
+        account: LedgerAccount,
+        delta: number,
+        balanceAfter: number | null,
+        reason: string,
+        context: LedgerContext = {},
+        expiresAt: string | null = null
+    ): Promise<void> {
+        await this.run(
+            `INSERT INTO ledger (user_id, account, delta, balance_after, expires_at, reason, agent_id, message_id, payment_tx_hash, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                userId, account, delta, balanceAfter, expiresAt, context.reason || reason,
+                context.agentId || null, context.messageId || null, context.paymentTxHash || null, new Date().toISOString(),
+            ]
+        );
+    }
+
+    // Zeroes a usage counter (free tier or Daily plan) and gives the used queries back in the ledger.
+    // Conditional on the count read first, so a query consumed concurrently is never missing from the ledger.
+    private async resetUsage(
+        userId: string,
+        account: 'daily_free' | 'daily_plan',
+        update: { set: string; params?: unknown[]; where?: string; whereParams?: unknown[] },
+        entry: { reason: string; balanceAfter: number; expiresAt?: string; recordEmpty?: boolean; context?: LedgerContext }
+    ): Promise<boolean> {
+        const column = account === 'daily_free' ? 'daily_free_used' : 'daily_plan_used';
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const used = Number((await this.getUser(userId))?.[column] || 0);
+            const changed = await this.run(
+                `UPDATE users SET ${column} = 0, ${update.set}, updated_at = CURRENT_TIMESTAMP
+                 WHERE user_id = ? AND COALESCE(${column}, 0) = ?${update.where ? ` AND ${update.where}` : ''}`,
+                [...(update.params || []), userId, used, ...(update.whereParams || [])]
+            );
+            if (changed > 0) {
+                if (used > 0 || entry.recordEmpty) {
+                    await this.appendLedger(userId, account, used, entry.balanceAfter, entry.reason, entry.context, entry.expiresAt);
+                }
+                return true;
+            }
+        }
+        return false;
+    }
+
+    async findLedgerEntries(filter: { userId?: string; paymentTxHash?: string; limit?: number } = {}): Promise<LedgerEntry[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (filter.userId) {
+            conditions.push('user_id = ?');
+            params.push(filter.userId);
+        }
+        if (filter.paymentTxHash) {
+            conditions.push('payment_tx_hash = ?');
+            params.push(filter.paymentTxHash);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        params.push(Math.min(Math.max(filter.limit || 100, 1), 1000));
+        return this.all<LedgerEntry>(`SELECT * FROM ledger ${where} ORDER BY id DESC LIMIT ?`, params);
+    }
+
+    // Compares the ledger with the counters in `users`; an empty result means the books balance.
+    // credits: sum of deltas; daily_free / daily_plan: queries used (minus the sum); pro: latest term end.
+    async reconcileLedger(userId?: string): Promise<LedgerMismatch[]> {
+        const ledgerSum = (account: LedgerAccount) =>
+            `(SELECT SUM(l.delta) FROM ledger l WHERE l.user_id = u.user_id AND l.account = '${account}')`;
+        const rows = await this.all(
+            `SELECT u.user_id, u.credit_millis, u.daily_free_used, u.daily_plan_used, u.pro_expires_at,
+                ${ledgerSum('credits')} AS ledger_credits,
+                ${ledgerSum('daily_free')} AS ledger_daily_free,
+                ${ledgerSum('daily_plan')} AS ledger_daily_plan,
+                (SELECT l.expires_at FROM ledger l WHERE l.user_id = u.user_id AND l.account = 'pro' ORDER BY l.id DESC LIMIT 1) AS ledger_pro
+             FROM users u ${userId ? 'WHERE u.user_id = ?' : ''}`,
+            userId ? [userId] : []
+        );
+
+        const mismatches: LedgerMismatch[] = [];
+        for (const row of rows) {
+            // SUM() comes back as a string from Postgres (bigint)
+            const checks: [LedgerAccount, number | string | null, number | string | null][] = [
+                ['credits', Number(row.ledger_credits || 0), Number(row.credit_millis || 0)],
+                ['daily_free', -Number(row.ledger_daily_free || 0), Number(row.daily_free_used || 0)],
+                ['daily_plan', -Number(row.ledger_daily_plan || 0), Number(row.daily_plan_used || 0)],
+                ['pro', row.ledger_pro || null, row.pro_expires_at || null],
+            ];
+            for (const [account, ledger, actual] of checks) {
+                if (ledger !== actual) {
+                    mismatches.push({ user_id: row.user_id, account, ledger, actual });
+                }
+            }
+        }
+        return mismatches;
+    }
+
+    // Free Tier Management
+    async checkAndResetDailyFree(userId: string): Promise<void> {
+        const today = getBusinessDate();
+        const user = await this.ensureUser(userId);
+        if (!user || user.daily_reset_date === today) return;
+
+        await this.resetUsage(
+            userId,
+            'daily_free',
+            { set: 'daily_reset_date = ?', params: [today], where: '(daily_reset_date IS NULL OR daily_reset_date <> ?)', whereParams: [today] },
+            { reason: 'daily_reset', balanceAfter: CONFIG.FREE_DAILY_LIMIT }
+        );
+    }
+
+    async getDailyFreeRemaining(userId: string): Promise<number> {
+        await this.checkAndResetDailyFree(userId);
+        const user = await this.getUser(userId);
+        return Math.max(0, CONFIG.FREE_DAILY_LIMIT - (user?.daily_free_used || 0));
+    }
+
+    // Conditional update: two concurrent requests can never both take the last free query
+    async consumeDailyFree(userId: string, context: LedgerContext = {}): Promise<boolean> {
+        await this.checkAndResetDailyFree(userId);
+        const rows = await this.all<{ daily_free_used: number }>(
+            `UPDATE users SET daily_free_used = daily_free_used + 1, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND daily_free_used < ? RETURNING daily_free_used`,
+            [userId, CONFIG.FREE_DAILY_LIMIT]
+        );
+        if (rows.length === 0) return false;
+        await this.appendLedger(userId, 'daily_free', -1, CONFIG.FREE_DAILY_LIMIT - Number(rows[0].daily_free_used), 'query', context);
+        return true;
+    }
+
+    // Pro Management (access continues through the grace period after pro_expires_at)
+    async isPro(userId: string): Promise<boolean> {
+        const user = await this.ensureUser(userId);
+        if (!user?.is_pro) return false;
+
+        const expiresAt = new Date(user.pro_expires_at);
+        if (getProGraceEnd(expiresAt) < new Date()) {
+            // Pro expired and the grace period is over
+            await this.run(
+                `UPDATE users SET is_pro = 0, updated_at = CURRENT_TIMESTAMP WHERE user_id = ?`,
+                [userId]
+            );
+            return false;
+        }
+        return true;
+    }
+
+    async getProExpiresAt(userId: string): Promise<Date | null> {
+        const user = await this.getUser(userId);
+        if (user?.pro_expires_at) {
+            return new Date(user.pro_expires_at);
+        }
+        return null;
+    }
+
+    // Renewals stack: paying before expiry (or within the grace period) extends from the current
+    // expiry instead of from now. The update is conditional on the previous expiry, so two
+    // renewals processed at once both count.
+    async grantPro(userId: string, durationDays: number = CONFIG.PRO_DURATION_DAYS, context: LedgerContext = {}): Promise<Date> {
+        await this.ensureUser(userId);
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const user = await this.getUser(userId);
+            const previous: string = user?.pro_expires_at || '';
+            const now = new Date();
+            const current = user?.is_pro && previous ? new Date(previous) : null;
+            const expiresAt = new Date(current && getProGraceEnd(current) > now ? current : now);
+            expiresAt.setDate(expiresAt.getDate() + durationDays);
+
+            const changed = await this.run(
+                `UPDATE users SET is_pro = 1, pro_expires_at = ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND COALESCE(pro_expires_at, '') = ?`,
+                [expiresAt.toISOString(), userId, previous]
+            );
+            if (changed > 0) {
+                await this.appendLedger(userId, 'pro', durationDays, null, 'pro_granted', context, expiresAt.toISOString());
+                logger.info(`[X402DB] Pro granted to ${userId} until ${expiresAt.toISOString()}`);
+                return expiresAt;
+            }
+        }
+        throw new Error(`Pro for ${userId} is being updated concurrently`);
+    }
+
+    // Take back one paid term (reverted payment); Pro ends if nothing is left
+    async shortenPro(userId: string, durationDays: number = CONFIG.PRO_DURATION_DAYS, context: LedgerContext = {}): Promise<void> {
+        const user = await this.getUser(userId);
+        if (!user?.pro_expires_at) return;
+
+        const expiresAt = new Date(user.pro_expires_at);
+        expiresAt.setDate(expiresAt.getDate() - durationDays);
+        const stillPro = expiresAt > new Date();
+        const changed = await this.run(
+            `UPDATE users SET is_pro = ?, pro_expires_at = ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND pro_expires_at = ?`,
+            [stillPro ? 1 : 0, expiresAt.toISOString(), userId, user.pro_expires_at]
+        );
+        if (changed > 0) {
+            await this.appendLedger(userId, 'pro', -durationDays, null, 'pro_shortened', context, expiresAt.toISOString());
+        }
+    }
+
+    // Pro users expiring before `before` that have not received this notice for the current term
+    async getProUsersDueForNotice(column: ProNoticeColumn, before: Date): Promise<{ user_id: string; pro_expires_at: string }[]> {
+        return this.all(
+            `SELECT user_id, pro_expires_at FROM users WHERE is_pro = 1 AND pro_expires_at <= ? AND COALESCE(${column}, '') <> pro_expires_at`,
+            [before.toISOString()]
+        );
+    }
+
+    // Only one agent or replica wins the claim, so each notice is sent once per term
+    async claimProNotice(userId: string, column: ProNoticeColumn, expiresAt: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE users SET ${column} = ? WHERE user_id = ? AND pro_expires_at = ? AND COALESCE(${column}, '') <> ?`,
+            [expiresAt, userId, expiresAt, expiresAt]
+        );
+        return changed > 0;
+    }
+
+    // Daily Plan Management (1 USDC / 30 queries per day)
+    async isDaily(userId: string): Promise<boolean> {
+        const user = await this.ensureUser(userId);
+        if (!user?.is_daily) return false;
+
+        const expiresAt = new Date(user.daily_plan_expires_at);
+        if (expiresAt < new Date()) {
+            // Daily plan expired
+            await this.resetUsage(userId, 'daily_plan', { set: 'is_daily = 0', where: 'is_daily = 1' }, { reason: 'daily_expired', balanceAfter: 0 });
+            return false;
+        }
+        return true;
+    }
+
+    async getDailyPlanRemaining(userId: string): Promise<number> {
+        if (!(await this.isDaily(userId))) return 0;
+        const user = await this.getUser(userId);
+        return Math.max(0, CONFIG.DAILY_QUERY_LIMIT - (user?.daily_plan_used || 0));
+    }
+
+    async getDailyPlanExpiresAt(userId: string): Promise<Date | null> {
+        const user = await this.getUser(userId);
+        if (user?.daily_plan_expires_at) {
+            return new Date(user.daily_plan_expires_at);
+        }
+        return null;
+    }
+
+    async grantDaily(userId: string, context: LedgerContext = {}): Promise<void> {
+        await this.ensureUser(userId);
+        // Daily plan expires at the end of today in the business timezone (23:59:59.999)
+        const expiresAt = getBusinessDayEnd().toISOString();
+
+        const granted = await this.resetUsage(
+            userId,
+            'daily_plan',
+            { set: 'is_daily = 1, daily_plan_expires_at = ?', params: [expiresAt] },
+            { reason: 'daily_granted', balanceAfter: CONFIG.DAILY_QUERY_LIMIT, expiresAt, recordEmpty: true, context }
+        );
+        if (!granted) {
+            throw new Error(`Daily plan for ${userId} is being updated concurrently`);
+        }
+        logger.info(`[X402DB] Daily plan granted to ${userId} until ${expiresAt}`);
+    }
+
+    async consumeDaily(userId: string, context: LedgerContext = {}): Promise<boolean> {
+        if (!(await this.isDaily(userId))) return false;
+        const rows = await this.all<{ daily_plan_used: number }>(
+            `UPDATE users SET daily_plan_used = daily_plan_used + 1, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND is_daily = 1 AND daily_plan_used < ? RETURNING daily_plan_used`,
+            [userId, CONFIG.DAILY_QUERY_LIMIT]
+        );
+        if (rows.length === 0) return false;
+        await this.appendLedger(userId, 'daily_plan', -1, CONFIG.DAILY_QUERY_LIMIT - Number(rows[0].daily_plan_used), 'query', context);
+        return true;
+    }
+
+    // Admin Management (a sender is admin while it holds an unexpired, unrevoked session)
+    // Only the exact subject the session was opened for counts, never the identities linked to it
+    async isAdmin(subject: string): Promise<boolean> {
+        const rows = await this.all(
+            `SELECT 1 AS active FROM admin_sessions WHERE subject = ? AND revoked_at IS NULL AND expires_at > ? LIMIT 1`,
+            [subject, new Date().toISOString()]
+        );
+        return rows.length > 0;
+    }
+
+    // The credential behind an active session of `subject` that carries `scope`
+    async getAdminSessionCredential(subject: string, scope: string): Promise<string | null> {
+        const rows = await this.all<{ credential_name: string; scopes: string }>(
+            `SELECT credential_name, scopes FROM admin_sessions WHERE subject = ? AND revoked_at IS NULL AND expires_at > ?`,
+            [subject, new Date().toISOString()]
+        );
+        return rows.find(row => row.scopes.split(',').includes(scope))?.credential_name || null;
+    }
+
+    async createAdminSession(credentialName: string, subject: string, scopes: string[], expiresAt: Date): Promise<void> {
+        await this.run(
+            `INSERT INTO admin_sessions (id, credential_name, subject, scopes, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)`,
+            [crypto.randomUUID(), credentialName, subject, scopes.join(','), new Date().toISOString(), expiresAt.toISOString()]
+        );
+        logger.info(`[X402DB] Admin session (${credentialName}) opened for ${subject} until ${expiresAt.toISOString()}`);
+    }
+
+    async revokeAdminSessions(filter: { subject?: string; credentialName?: string }): Promise<number> {
+        const [column, value] = filter.subject ? ['subject', filter.subject] : ['credential_name', filter.credentialName];
+        if (!value) return 0;
+        return this.run(
+            `UPDATE admin_sessions SET revoked_at = ? WHERE ${column} = ? AND revoked_at IS NULL`,
+            [new Date().toISOString(), value]
+        );
+    }
+
+    async getAdminCredentials(includeRevoked: boolean = false): Promise<AdminCredentialRecord[]> {
+        return this.all<AdminCredentialRecord>(
+            `SELECT * FROM admin_credentials ${includeRevoked ? '' : 'WHERE revoked_at IS NULL '}ORDER BY name`
+        );
+    }
+
+    async getAdminCredentialByKeyId(keyId: string): Promise<AdminCredentialRecord | null> {
+        const rows = await this.all<AdminCredentialRecord>(
+            `SELECT * FROM admin_credentials WHERE key_id = ? AND revoked_at IS NULL`,
+            [keyId]
+        );
+        return rows[0] || null;
+    }
+
+    // Re-saving a name rotates its key and reactivates it
+    async saveAdminCredential(name: string, scopes: string[], salt: string, keyHash: string, keyId: string | null): Promise<void> {
+        await this.run(
+            `INSERT INTO admin_credentials (name, scopes, salt, key_hash, key_id, created_at) VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT(name) DO UPDATE SET scopes = excluded.scopes, salt = excluded.salt, key_hash = excluded.key_hash,
+                key_id = excluded.key_id, created_at = excluded.created_at, revoked_at = NULL`,
+            [name, scopes.join(','), salt, keyHash, keyId, new Date().toISOString()]
+        );
+    }
+
+    async revokeAdminCredential(name: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE admin_credentials SET revoked_at = ? WHERE name = ? AND revoked_at IS NULL`,
+            [new Date().toISOString(), name]
+        );
+        return changed > 0;
+    }
+
+    async getAdminLockedUntil(subject: string): Promise<Date | null> {
+        const rows = await this.all<{ locked_until: string | null }>(
+            `SELECT locked_until FROM admin_login_attempts WHERE subject = ?`,
+            [subject]
+        );
+        const lockedUntil = rows[0]?.locked_until ? new Date(rows[0].locked_until) : null;
+        return lockedUntil && lockedUntil > new Date() ? lockedUntil : null;
+    }
+
+    // Counts a failed login; the maximum-th failure locks the subject and restarts the count
+    async recordAdminLoginFailure(subject: string): Promise<Date | null> {
+        const now = new Date();
+        await this.run(
+            `INSERT INTO admin_login_attempts (subject, failures, updated_at) VALUES (?, 1, ?)
+             ON CONFLICT(subject) DO UPDATE SET failures = failures + 1, updated_at = excluded.updated_at`,
+            [subject, now.toISOString()]
+        );
+        const lockedUntil = new Date(now.getTime() + CONFIG.ADMIN_LOCKOUT_MINUTES * 60 * 1000);
+        const locked = await this.run(
+            `UPDATE admin_login_attempts SET failures = 0, locked_until = ? WHERE subject = ? AND failures >= ?`,
+            [lockedUntil.toISOString(), subject, CONFIG.ADMIN_MAX_FAILED_ATTEMPTS]
+        );
+        return locked > 0 ? lockedUntil : null;
+    }
+
+    async clearAdminLoginFailures(subject: string): Promise<void> {
+        await this.run(`DELETE FROM admin_login_attempts WHERE subject = ?`, [subject]);
+    }
+
+    // Credit Management (amounts are in credits and may be fractional; stored as credit_millis)
+    async getCredits(userId: string): Promise<number> {
+        const user = await this.ensureUser(userId);
+        return Number(user?.credit_millis || 0) / CREDIT_MILLIS;
+    }
+
+    async addCredits(userId: string, amount: number, context: LedgerContext = {}): Promise<void> {
+        await this.ensureUser(userId);
+        const millis = toCreditMillis(amount);
+        const rows = await this.all<{ credit_millis: number }>(
+            `UPDATE users SET credit_millis = credit_millis + ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? RETURNING credit_millis`,
+            [millis, userId]
+        );
+        if (rows.length === 0) return;
+        await this.appendLedger(userId, 'credits', millis, Number(rows[0].credit_millis), 'credits_added', context);
+        logger.info(`[X402DB] Added ${formatCredits(amount)} credits to ${userId}`);
+    }
+
+    // Never goes below zero; returns the credits actually removed. Conditional on the balance read
+    // first, so the ledger records exactly what was taken.
+    async revokeCredits(userId: string, amount: number, context: LedgerContext = {}): Promise<number> {
+        await this.ensureUser(userId);
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const before = Number((await this.getUser(userId))?.credit_millis || 0);
+            const removed = Math.min(before, toCreditMillis(amount));
+            if (removed <= 0) return 0;
+
+            const changed = await this.run(
+                `UPDATE users SET credit_millis = credit_millis - ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND credit_millis = ?`,
+                [removed, userId, before]
+            );
+            if (changed > 0) {
+                await this.appendLedger(userId, 'credits', -removed, before - removed, 'credits_revoked', context);
+                logger.info(`[X402DB] Revoked ${formatCredits(removed / CREDIT_MILLIS)} credits from ${userId}`);
+                return removed / CREDIT_MILLIS;
+            }
+        }
+        throw new Error(`Credits of ${userId} are being updated concurrently`);
+    }
+
+    // Metered charge after a response. The balance never goes below zero: when less than the cost is
+    // left, the rest of the balance is taken and the shortfall is noted on the ledger entry.
+    // Returns false when there was nothing left to charge.
+    async chargeCredits(userId: string, amount: number, context: LedgerContext = {}): Promise<boolean> {
+        const millis = toCreditMillis(amount);
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const rows = await this.all<{ credit_millis: number }>(
+                `UPDATE users SET credit_millis = credit_millis - ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND credit_millis >= ? RETURNING credit_millis`,
+                [millis, userId, millis]
+            );
+            if (rows.length > 0) {
+                await this.appendLedger(userId, 'credits', -millis, Number(rows[0].credit_millis), 'query', context);
+                return true;
+            }
+
+            // Conditional on the balance read, so the ledger records exactly what was taken
+            const before = Number((await this.getUser(userId))?.credit_millis || 0);
+            if (before <= 0) return false;
+            if (before >= millis) continue; // Topped up meanwhile: charge in full
+            const changed = await this.run(
+                `UPDATE users SET credit_millis = 0, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND credit_millis = ?`,
+                [userId, before]
+            );
+            if (changed > 0) {
+                const shortfall = formatCredits((millis - before) / CREDIT_MILLIS);
+                await this.appendLedger(userId, 'credits', -before, 0, 'query', { ...context, reason: `${context.reason || 'query'} (short ${shortfall})` });
+                logger.warn(`[X402DB] ${userId} was ${shortfall} credits short of a metered charge - took the remaining balance`);
+                return true;
+            }
+        }
+        throw new Error(`Credits of ${userId} are being updated concurrently`);
+    }
+
+    // Access Reservations: a message holds one unit of access (a query, or the REPLY price in credits)
+    // while it is answered, so concurrent messages cannot spend the same balance. The hold is taken on
+    // the user row together with the balance check; the reservation row lets it be settled exactly once.
+    async reserveAccess(userId: string, consumeType: string, origin: { messageKey?: string; agentId?: string } = {}): Promise<string | null> {
+        const column = RESERVATION_HOLD_COLUMNS[consumeType];
+        if (!column) return null;
+
+        let held = 1;
+        let condition: string;
+        let params: unknown[];
+        if (consumeType === 'credit') {
+            await this.ensureUser(userId);
+            held = Math.max(1, toCreditMillis(getActionPrice('REPLY')));
+            condition = 'credit_millis - credit_millis_held > 0';
+            params = [];
+        } else if (consumeType === 'daily') {
+            if (!(await this.isDaily(userId))) return null;
+            condition = 'is_daily = 1 AND daily_plan_used + daily_plan_held < ?';
+            params = [CONFIG.DAILY_QUERY_LIMIT];
+        } else {
+            await this.checkAndResetDailyFree(userId);
+            condition = 'daily_free_used + daily_free_held < ?';
+            params = [CONFIG.FREE_DAILY_LIMIT];
+        }
+
+        const now = new Date();
+        const changed = await this.run(
+            `UPDATE users SET ${column} = ${column} + ?, held_at = ? WHERE user_id = ? AND ${condition}`,
+            [held, now.toISOString(), userId, ...params]
+        );
+        if (changed === 0) return null;
+
+        const id = crypto.randomUUID();
+        const expiresAt = new Date(now.getTime() + CONFIG.RESERVATION_TTL_MINUTES * 60 * 1000);
+        await this.run(
+            `INSERT INTO access_reservations (id, user_id, consume_type, held, message_key, agent_id, status, created_at, expires_at)
+             VALUES (?, ?, ?, ?, ?, ?, 'reserved', ?, ?)`,
+            [id, userId, consumeType, held, origin.messageKey || null, origin.agentId || null, now.toISOString(), expiresAt.toISOString()]
+        );
+        return id;
+    }
+
+    // Ends a reservation and gives its hold back; whatever was captured was charged separately
+    async settleReservation(id: string, status: Exclude<ReservationStatus, 'reserved'>): Promise<boolean> {
+        const reservation = (await this.all<AccessReservation>(`SELECT * FROM access_reservations WHERE id = ?`, [id]))[0];
+        const column = reservation && RESERVATION_HOLD_COLUMNS[reservation.consume_type];
+        if (!column) return false;
+
+        // Flipping the status first means a hold is never returned twice
+        const changed = await this.run(
+            `UPDATE access_reservations SET status = ?, settled_at = ? WHERE id = ? AND status = 'reserved'`,
+            [status, new Date().toISOString(), id]
+        );
+        if (changed === 0) return false;
+        await this.run(
+            `UPDATE users SET ${column} = CASE WHEN ${column} > ? THEN ${column} - ? ELSE 0 END WHERE user_id = ?`,
+            [reservation.held, reservation.held, reservation.user_id]
+        );
+        return true;
+    }
+
+    // Releases reservations of messages that never finished (crashed or timed-out runs), and clears
+    // holds left without a reservation row by a crash between the two writes
+    async releaseExpiredReservations(): Promise<number> {
+        const now = new Date();
+        const expired = await this.all<{ id: string }>(
+            `SELECT id FROM access_reservations WHERE status = 'reserved' AND expires_at < ?`,
+            [now.toISOString()]
+        );
+        let released = 0;
+        for (const { id } of expired) {
+            if (await this.settleReservation(id, 'expired')) released++;
+        }
+
+        const cutoff = new Date(now.getTime() - CONFIG.RESERVATION_TTL_MINUTES * 60 * 1000);
+        await this.run(
+            `UPDATE users SET credit_millis_held = 0, daily_free_held = 0, daily_plan_held = 0
+             WHERE held_at < ? AND (credit_millis_held > 0 OR daily_free_held > 0 OR daily_plan_held > 0)
+             AND NOT EXISTS (SELECT 1 FROM access_reservations r WHERE r.user_id = users.user_id AND r.status = 'reserved')`,
+            [cutoff.toISOString()]
+        );
+        return released;
+    }
+
+    // Message Claims: inserting the claim is the atomic step, so exactly one agent (in any process)
+    // decides an inbound message's access; the others read that decision
+    async claimMessage(messageKey: string, userId: string, agentId: string): Promise<boolean> {
+        const changed = await this.run(
+            `INSERT INTO message_claims (message_key, user_id, agent_id, status, created_at)
+             VALUES (?, ?, ?, 'pending', ?) ON CONFLICT(message_key) DO NOTHING`,
+            [messageKey, userId, agentId, new Date().toISOString()]
+        );
+        return changed > 0;
+    }
+
+    // A claim still pending since before `staleBefore` was never decided (its agent stopped): the first
+    // agent to move it to itself decides instead
+    async takeOverMessageClaim(messageKey: string, agentId: string, staleBefore: Date): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE message_claims SET agent_id = ?, created_at = ? WHERE message_key = ? AND status = 'pending' AND created_at < ?`,
+            [agentId, new Date().toISOString(), messageKey, staleBefore.toISOString()]
+        );
+        return changed > 0;
+    }
+
+    // Only the agent that holds the pending claim can decide it; false once another agent took it over
+    async decideMessageClaim(
+        messageKey: string,
+        agentId: string,
+        access: { allowed: boolean; reason: string; consumeType?: string; reservationId?: string }
+    ): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE message_claims SET status = ?, access_type = ?, consume_type = ?, reservation_id = ?
+             WHERE message_key = ? AND agent_id = ? AND status = 'pending'`,
+            [access.allowed ? 'granted' : 'denied', access.reason, access.consumeType || null, access.reservationId || null, messageKey, agentId]
+        );
+        return changed > 0;
+    }
+
+    async getMessageClaim(messageKey: string): Promise<MessageClaim | null> {
+        const rows = await this.all<MessageClaim>(`SELECT * FROM message_claims WHERE message_key = ?`, [messageKey]);
+        return rows[0] || null;
+    }
+
+    // Only the first capture of a message succeeds, whichever agent or process answers
+    async captureMessageClaim(messageKey: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE message_claims SET captured = 1 WHERE message_key = ? AND captured = 0`,
+            [messageKey]
+        );
+        return changed > 0;
+    }
+
+    async deleteMessageClaimsBefore(before: Date): Promise<number> {
+        return this.run(`DELETE FROM message_claims WHERE created_at < ?`, [before.toISOString()]);
+    }
+
+    // Usage Analytics: one row per business day, user, agent and access type
+    async recordUsage(userId: string, agentId: string, accessType: string): Promise<void> {
+        await this.run(
+            `INSERT INTO usage_daily (business_date, user_id, agent_id, access_type, messages) VALUES (?, ?, ?, ?, 1)
+             ON CONFLICT(business_date, user_id, agent_id, access_type) DO UPDATE SET messages = usage_daily.messages + 1`,
+            [getBusinessDate(), userId, agentId, accessType]
+        );
+    }
+
+    async getUsage(fromDate: string, toDate: string): Promise<UsageRow[]> {
+        return this.all<UsageRow>(
+            `SELECT business_date, user_id, agent_id, access_type, messages FROM usage_daily WHERE business_date >= ? AND business_date <= ?`,
+            [fromDate, toDate]
+        );
+    }
+
+    // Free queries consumed in [since, until); a balance_after of 0 means the quota ran out with that query
+    async getFreeQueries(since: Date, until: Date): Promise<{ user_id: string; balance_after: number; created_at: string }[]> {
+        return this.all(
+            `SELECT user_id, balance_after, created_at FROM ledger
+             WHERE account = 'daily_free' AND delta < 0 AND reason <> 'opening_balance' AND created_at >= ? AND created_at < ?`,
+            [since.toISOString(), until.toISOString()]
+        );
+    }
+
+    // Confirmed (and later refunded) payments in [since, until), with whether the payer had paid before `since`
+    async getPaymentsForAnalytics(since: Date, until: Date): Promise<{ payments: PaymentRecord[]; earlierPayers: Set<string> }> {
+        const payments = await this.getPayments(
+            `SELECT * FROM payments WHERE status IN ('confirmed', 'refunded') AND COALESCE(confirmed_at, created_at) >= ? AND COALESCE(confirmed_at, created_at) < ?
+             ORDER BY COALESCE(confirmed_at, created_at)`,
+            [since.toISOString(), until.toISOString()]
+        );
+        const rows = await this.all<{ user_id: string }>(
+            `SELECT DISTINCT user_id FROM payments WHERE status IN ('confirmed', 'refunded') AND COALESCE(confirmed_at, created_at) < ?`,
+            [since.toISOString()]
+        );
+        return { payments, earlierPayers: new Set(rows.map(row => row.user_id)) };
+    }
+
+    // Payment Tracking
+    async isPaymentUsed(txHash: string): Promise<boolean> {
+        const rows = await this.all('SELECT 1 AS used FROM payments WHERE tx_hash = ?', [txHash]);
+        return rows.length > 0;
+    }
+
+    // Returns false when the tx hash was already recorded (e.g. by another replica)
+    async recordPayment(
+        txHash: string,
+        userId: string,
+        amount: number,
+        paymentType: string,
+        details: {
+            status?: PaymentStatus;
+            asset?: PaymentAsset;
+            intentId?: string;
+            blockHash?: string;
+            confirmations?: number;
+            payer?: string;
+            discountPercent?: number;
+        } = {}
+    ): Promise<boolean> {
+        const status = details.status || 'confirmed';
+        const now = new Date().toISOString();
+        const inserted = await this.run(
+            `INSERT INTO payments (tx_hash, user_id, amount, payment_type, status, network, asset_id, intent_id, block_hash, confirmations, payer,
+                discount_percent, confirmed_at, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(tx_hash) DO NOTHING`,
+            [
+                txHash, userId, amount, paymentType, status,
+                details.asset?.network || null, details.asset?.id || null,
+                details.intentId || null, details.blockHash || null, details.confirmations || 0,
+                details.payer || null, details.discountPercent || 0, status === 'confirmed' ? now : null, now,
+            ]
+        );
+        if (inserted === 0) {
+            logger.warn(`[X402DB] Payment ${txHash} was already recorded`);
+            return false;
+        }
+        logger.info(`[X402DB] Payment recorded: ${txHash} for ${userId} (${amount} ${details.asset?.symbol || ''}, ${paymentType}, ${status})`);
+        return true;
+    }
+
+    private async getPayments(sql: string, params: unknown[]): Promise<PaymentRecord[]> {
+        return this.all<PaymentRecord>(sql, params);
+    }
+
+    async getPayment(txHash: string): Promise<PaymentRecord | null> {
+        return (await this.getPayments('SELECT * FROM payments WHERE tx_hash = ?', [txHash]))[0] || null;
+    }
+
+    // Newest first; every filter is optional
+    async findPayments(filter: { txHash?: string; userId?: string; status?: PaymentStatus; limit?: number } = {}): Promise<PaymentRecord[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (filter.txHash) {
+            // EVM hashes are hex (any case); Solana signatures are case-sensitive base58
+            conditions.push(filter.txHash.startsWith('0x') ? 'LOWER(tx_hash) = LOWER(?)' : 'tx_hash = ?');
+            params.push(filter.txHash);
+        }
+        if (filter.userId) {
+            conditions.push('user_id = ?');
+            params.push(filter.userId);
+        }
+        if (filter.status) {
+            conditions.push('status = ?');
+            params.push(filter.status);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        params.push(Math.min(Math.max(filter.limit || 50, 1), 500));
+        return this.getPayments(`SELECT * FROM payments ${where} ORDER BY created_at DESC LIMIT ?`, params);
+    }
+
+    async getPendingPayments(userId?: string): Promise<PaymentRecord[]> {
+        if (userId) {
+            return this.getPayments(
+                `SELECT * FROM payments WHERE status = 'pending' AND user_id = ? ORDER BY created_at`,
+                [userId]
+            );
+        }
+        return this.getPayments(`SELECT * FROM payments WHERE status = 'pending' ORDER BY created_at`, []);
+    }
+
+    // Confirmed payments still young enough to be undone by a reorg
+    // Payments confirmed since `since`, and older ones whose last recheck did not find them
+    async getRecentlyConfirmedPayments(since: Date): Promise<PaymentRecord[]> {
+        return this.getPayments(
+            `SELECT * FROM payments WHERE status = 'confirmed' AND asset_id IS NOT NULL AND (confirmed_at >= ? OR recheck_misses > 0)`,
+            [since.toISOString()]
+        );
+    }
+
+    // Counts a recheck that found no receipt, at most once per chain head; returns the misses so far
+    async recordPaymentMiss(txHash: string, head: number): Promise<number> {
+        await this.run(
+            `UPDATE payments SET recheck_misses = recheck_misses + 1, recheck_missed_block = ?
+             WHERE tx_hash = ? AND status = 'confirmed' AND COALESCE(recheck_missed_block, -1) < ?`,
+            [head, txHash, head]
+        );
+        return Number((await this.getPayment(txHash))?.recheck_misses || 0);
+    }
+
+    async clearPaymentMisses(txHash: string): Promise<void> {
+        await this.run(`UPDATE payments SET recheck_misses = 0, recheck_missed_block = NULL WHERE tx_hash = ?`, [txHash]);
+    }
+
+    async setPaymentConfirmations(txHash: string, confirmations: number, blockHash: string | null): Promise<void> {
+        await this.run(
+            `UPDATE payments SET confirmations = ?, block_hash = ? WHERE tx_hash = ?`,
+            [confirmations, blockHash, txHash]
+        );
+    }
+
+    // Only a pending payment can be promoted, so two instances never credit it twice
+    async promotePendingPayment(txHash: string, blockHash: string | null): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE payments SET status = 'confirmed', block_hash = COALESCE(?, block_hash), confirmed_at = ? WHERE tx_hash = ? AND status = 'pending'`,
+            [blockHash, new Date().toISOString(), txHash]
+        );
+        return changed > 0;
+    }
+
+    async setPaymentCreditsGranted(txHash: string, creditsGranted: number): Promise<void> {
+        await this.run(`UPDATE payments SET credits_granted_millis = ? WHERE tx_hash = ?`, [toCreditMillis(creditsGranted), txHash]);
+    }
+
+    // Undo what a confirmed payment granted (a reorg dropped the transaction, or it was refunded)
+    async revertPayment(payment: PaymentRecord, status: 'reverted' | 'refunded' = 'reverted', context: LedgerContext = {}): Promise<boolean> {
+        // Flip the status first so concurrent rechecks cannot revoke the same payment twice
+        const changed = await this.run(
+            `UPDATE payments SET status = ? WHERE tx_hash = ? AND status = ?`,
+            [status, payment.tx_hash, payment.status]
+        );
+        if (changed === 0) return false;
+
+        if (payment.status === 'confirmed') {
+            const plan = payment.payment_type.split('_')[0] as PaymentPlan;
+            const entry: LedgerContext = { ...context, paymentTxHash: payment.tx_hash, reason: context.reason || status };
+            // The balance follows the account the payer's identity was merged into
+            const userId = await this.resolveAccount(payment.user_id);
+            // Credits include what a Pro or Daily payment paid beyond the plan price
+            if (payment.credits_granted_millis > 0) {
+                await this.revokeCredits(userId, payment.credits_granted_millis / CREDIT_MILLIS, entry);
+            }
+            if (plan === 'daily') {
+                await this.resetUsage(
+                    userId,
+                    'daily_plan',
+                    { set: 'is_daily = 0' },
+                    { reason: status, balanceAfter: 0, recordEmpty: true, context: entry }
+                );
+            } else if (plan === 'pro') {
+                await this.shortenPro(userId, CONFIG.PRO_DURATION_DAYS, entry);
+            }
+            await this.revertReferralReward(payment.tx_hash, entry);
+        }
+        logger.warn(`[X402DB] Payment ${status}: ${payment.tx_hash} for ${payment.user_id} (was ${payment.status})`);
+        return true;
+    }
+
+    // Coupons
+    async createCoupon(coupon: {
+        code: string;
+        credits?: number;
+        discountPercent?: number;
+        plan?: PaymentPlan | null;
+        maxRedemptions?: number | null;
+        perUserLimit?: number;
+        expiresAt?: string | null;
+        createdBy: string;
+    }): Promise<boolean> {
+        const inserted = await this.run(
+            `INSERT INTO coupons (code, credits, discount_percent, plan, max_redemptions, per_user_limit, expires_at, created_by, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(code) DO NOTHING`,
+            [
+                coupon.code, coupon.credits || 0, coupon.discountPercent || 0, coupon.plan || null, coupon.maxRedemptions ?? null,
+                coupon.perUserLimit ?? 1, coupon.expiresAt || null, coupon.createdBy, new Date().toISOString(),
+            ]
+        );
+        return inserted > 0;
+    }
+
+    async getCoupon(code: string): Promise<Coupon | null> {
+        const rows = await this.all<Coupon>(`SELECT * FROM coupons WHERE code = ?`, [code.toUpperCase()]);
+        return rows[0] || null;
+    }
+
+    async listCoupons(includeDisabled: boolean = false): Promise<Coupon[]> {
+        return this.all<Coupon>(
+            `SELECT * FROM coupons ${includeDisabled ? '' : 'WHERE disabled_at IS NULL'} ORDER BY created_at DESC`
+        );
+    }
+
+    async disableCoupon(code: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE coupons SET disabled_at = ? WHERE code = ? AND disabled_at IS NULL`,
+            [new Date().toISOString(), code.toUpperCase()]
+        );
+        return changed > 0;
+    }
+
+    // Credit coupons are granted at once; a discount waits for the next payment (replacing an
+    // unused one). `requestKey` makes the same chat message one redemption for every agent.
+    async redeemCoupon(
+        code: string,
+        userId: string,
+        requestKey?: string
+    ): Promise<{ redemption?: CouponRedemption; error?: CouponRedeemError }> {
+        const coupon = await this.getCoupon(code);
+        if (!coupon || coupon.disabled_at) return { error: 'unknown' };
+        const now = new Date().toISOString();
+        if (coupon.expires_at && coupon.expires_at <= now) return { error: 'expired' };
+
+        const id = crypto.randomUUID();
+        const isDiscount = coupon.discount_percent > 0;
+        const inserted = await this.run(
+            `INSERT INTO coupon_redemptions (id, code, user_id, credits, discount_percent, plan, status, request_key, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT DO NOTHING`,
+            [
+                id, coupon.code, userId, isDiscount ? 0 : coupon.credits, coupon.discount_percent, coupon.plan,
+                isDiscount ? 'active' : 'granted', requestKey || null, now,
+            ]
+        );
+        if (inserted === 0) {
+            const rows = await this.all<CouponRedemption>(`SELECT * FROM coupon_redemptions WHERE request_key = ?`, [requestKey]);
+            return rows[0] ? { redemption: rows[0] } : { error: 'limit' };
+        }
+
+        // Checked after inserting, so two messages at once cannot both slip under the limit
+        const counted = await this.all<{ count: number }>(
+            `SELECT COUNT(*) AS count FROM coupon_redemptions WHERE code = ? AND user_id = ?`,
+            [coupon.code, userId]
+        );
+        if (Number(counted[0]?.count || 0) > coupon.per_user_limit) {
+            await this.run(`DELETE FROM coupon_redemptions WHERE id = ?`, [id]);
+            return { error: 'limit' };
+        }
+        const claimed = await this.run(
+            `UPDATE coupons SET redemptions = redemptions + 1
+             WHERE code = ? AND disabled_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+             AND (max_redemptions IS NULL OR redemptions < max_redemptions)`,
+            [coupon.code, now]
+        );
+        if (claimed === 0) {
+            await this.run(`DELETE FROM coupon_redemptions WHERE id = ?`, [id]);
+            return { error: 'exhausted' };
+        }
+
+        if (isDiscount) {
+            await this.run(
+                `UPDATE coupon_redemptions SET status = 'replaced' WHERE user_id = ? AND status = 'active' AND id <> ?`,
+                [userId, id]
+            );
+        } else {
+            await this.addCredits(userId, coupon.credits, { reason: `coupon:${coupon.code}` });
+        }
+        logger.info(`[X402DB] Coupon ${coupon.code} redeemed by ${userId}`);
+        return { redemption: (await this.all<CouponRedemption>(`SELECT * FROM coupon_redemptions WHERE id = ?`, [id]))[0] };
+    }
+
+    async getActiveDiscount(userId: string): Promise<CouponRedemption | null> {
+        const rows = await this.all<CouponRedemption>(
+            `SELECT * FROM coupon_redemptions WHERE user_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1`,
+            [userId]
+        );
+        return rows[0] || null;
+    }
+
+    // A discount prices one payment; seeing the same tx again (e.g. pending, then confirmed) still counts
+    async useCouponDiscount(redemptionId: string, txHash: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE coupon_redemptions SET status = 'used', tx_hash = ?, used_at = ? WHERE id = ? AND status = 'active'`,
+            [txHash, new Date().toISOString(), redemptionId]
+        );
+        if (changed > 0) return true;
+        const rows = await this.all(
+            `SELECT id FROM coupon_redemptions WHERE id = ? AND status = 'used' AND tx_hash = ?`,
+            [redemptionId, txHash]
+        );
+        return rows.length > 0;
+    }
+
+    // Referrals
+    async getOrCreateReferralCode(userId: string): Promise<string> {
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const rows = await this.all<{ code: string }>(`SELECT code FROM referral_codes WHERE user_id = ?`, [userId]);
+            if (rows[0]) return rows[0].code;
+            const code = REFERRAL_CODE_PREFIX + generateLinkCode().replace('-', '').slice(0, 6);
+            await this.run(
+                `INSERT INTO referral_codes (code, user_id, created_at) VALUES (?, ?, ?) ON CONFLICT DO NOTHING`,
+                [code, userId, new Date().toISOString()]
+            );
+        }
+        throw new Error(`Could not create a referral code for ${userId}`);
+    }
+
+    // Only someone who has not paid yet can be referred, and only once
+    async registerReferral(refereeId: string, code: string): Promise<{ referral?: Referral; error?: ReferralError }> {
+        const owner = await this.all<{ user_id: string }>(`SELECT user_id FROM referral_codes WHERE code = ?`, [code.toUpperCase()]);
+        if (!owner[0]) return { error: 'unknown' };
+        const referrerId = await this.resolveAccount(owner[0].user_id);
+        if (referrerId === await this.resolveAccount(refereeId)) return { error: 'self' };
+
+        const inserted = await this.run(
+            `INSERT INTO referrals (referee_id, referrer_id, code, status, created_at) VALUES (?, ?, ?, 'pending', ?) ON CONFLICT DO NOTHING`,
+            [refereeId, referrerId, code.toUpperCase(), new Date().toISOString()]
+        );
+        const referral = (await this.all<Referral>(`SELECT * FROM referrals WHERE referee_id = ?`, [refereeId]))[0];
+        if (inserted === 0) {
+            // The other agent registered the same message
+            return referral?.code === code.toUpperCase() && referral.status === 'pending' ? { referral } : { error: 'already_referred' };
+        }
+        const paid = await this.findPayments({ userId: refereeId, status: 'confirmed', limit: 1 });
+        if (paid.length > 0) {
+            await this.run(`DELETE FROM referrals WHERE referee_id = ? AND status = 'pending'`, [refereeId]);
+            return { error: 'already_paid' };
+        }
+        logger.info(`[X402DB] ${refereeId} was referred by ${referrerId} (${code})`);
+        return { referral };
+    }
+
+    // The referee's first confirmed payment of at least REFERRAL_MIN_PLAN credits the referrer once.
+    // Referrals between linked accounts or paid from the referrer's wallet, and rewards over the
+    // referrer's cap for the period, are rejected instead.
+    async rewardReferral(refereeId: string, paymentTxHash: string, plan: PaymentPlan): Promise<string | null> {
+        if (REFERRAL_PLAN_RANK[plan] < REFERRAL_PLAN_RANK[CONFIG.REFERRAL_MIN_PLAN]) return null;
+        const pending = (await this.all<Referral>(`SELECT * FROM referrals WHERE referee_id = ? AND status = 'pending'`, [refereeId]))[0];
+        if (!pending) return null;
+        const referrerId = await this.resolveAccount(pending.referrer_id);
+        if (await this.isReferrerPayment(referrerId, refereeId, paymentTxHash)) {
+            await this.run(
+                `UPDATE referrals SET status = 'rejected', payment_tx_hash = ? WHERE referee_id = ? AND status = 'pending'`,
+                [paymentTxHash, refereeId]
+            );
+            logger.warn(`[X402DB] Referral of ${refereeId} by ${referrerId} rejected: same account or payer wallet`);
+            return null;
+        }
+
+        const rewardedAt = new Date();
+        const rows = await this.all<Referral>(
+            `UPDATE referrals SET status = 'rewarded', reward_credits = ?, payment_tx_hash = ?, rewarded_at = ?
+             WHERE referee_id = ? AND status = 'pending' RETURNING *`,
+            [CONFIG.REFERRAL_REWARD_CREDITS, paymentTxHash, rewardedAt.toISOString(), refereeId]
+        );
+        if (!rows[0]) return null;
+
+        // Counted after the update (this reward included), so concurrent rewards cannot overshoot the cap
+        const since = new Date(rewardedAt.getTime() - CONFIG.REFERRAL_REWARD_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+        const counted = await this.all<{ rewards: number }>(
+            `SELECT COUNT(*) AS rewards FROM referrals
+             WHERE status = 'rewarded' AND rewarded_at >= ?
+             AND (referrer_id = ? OR referrer_id IN (SELECT identity_id FROM identities WHERE account_id = ?))`,
+            [since.toISOString(), referrerId, referrerId]
+        );
+        if (Number(counted[0]?.rewards || 0) > CONFIG.REFERRAL_MAX_REWARDS_PER_PERIOD) {
+            await this.run(
+                `UPDATE referrals SET status = 'rejected', reward_credits = 0 WHERE referee_id = ? AND status = 'rewarded'`,
+                [refereeId]
+            );
+            logger.warn(`[X402DB] Referral of ${refereeId} rejected: ${referrerId} reached ${CONFIG.REFERRAL_MAX_REWARDS_PER_PERIOD} rewards in ${CONFIG.REFERRAL_REWARD_PERIOD_DAYS} days`);
+            return null;
+        }
+        await this.addCredits(referrerId, CONFIG.REFERRAL_REWARD_CREDITS, { reason: `referral:${refereeId}`, paymentTxHash });
+        return referrerId;
+    }
+
+    // Whether the referee is (now) the referrer's own account, or paid from a wallet linked to the
+    // referrer or one the referrer has paid from
+    private async isReferrerPayment(referrerId: string, refereeId: string, paymentTxHash: string): Promise<boolean> {
+        if (await this.resolveAccount(refereeId) === referrerId) return true;
+        const payer = (await this.getPayment(paymentTxHash))?.payer?.toLowerCase();
+        if (!payer) return false;
+        if (await this.resolveAccount(getWalletIdentity(payer)) === referrerId) return true;
+        const paid = await this.all<{ tx_hash: string }>(
+            `SELECT tx_hash FROM payments WHERE LOWER(payer) = ?
+             AND (user_id = ? OR user_id IN (SELECT identity_id FROM identities WHERE account_id = ?)) LIMIT 1`,
+            [payer, referrerId, referrerId]
+        );
+        return paid.length > 0;
+    }
+
+    // Referrals whose referee and referrer ended up on the same account are rejected, and a reward
+    // already given is taken back
+    async rejectLinkedReferrals(accountId: string, context: LedgerContext = {}): Promise<void> {
+        const referrals = await this.all<Referral>(
+            `SELECT * FROM referrals WHERE status IN ('pending', 'rewarded')
+             AND (referee_id = ? OR referee_id IN (SELECT identity_id FROM identities WHERE account_id = ?))
+             AND (referrer_id = ? OR referrer_id IN (SELECT identity_id FROM identities WHERE account_id = ?))`,
+            [accountId, accountId, accountId, accountId]
+        );
+        for (const referral of referrals) {
+            const changed = await this.run(
+                `UPDATE referrals SET status = 'rejected' WHERE referee_id = ? AND status = ?`,
+                [referral.referee_id, referral.status]
+            );
+            if (changed === 0) continue;
+            logger.warn(`[X402DB] Referral of ${referral.referee_id} by ${referral.referrer_id} rejected: accounts linked`);
+            if (referral.status === 'rewarded') {
+                await this.revokeCredits(accountId, Number(referral.reward_credits), {
+                    ...context,
+                    paymentTxHash: referral.payment_tx_hash || undefined,
+                    reason: 'referral_rejected',
+                });
+            }
+        }
+    }
+
+    // A reverted or refunded first payment takes the referral reward back
+    async revertReferralReward(paymentTxHash: string, context: LedgerContext = {}): Promise<void> {
+        const rows = await this.all<Referral>(
+            `UPDATE referrals SET status = 'reverted' WHERE payment_tx_hash = ? AND status = 'rewarded' RETURNING *`,
+            [paymentTxHash]
+        );
+        for (const referral of rows) {
+            await this.revokeCredits(await this.resolveAccount(referral.referrer_id), Number(referral.reward_credits), {
+                ...context,
+                paymentTxHash,
+                reason: 'referral_reverted',
+            });
+        }
+    }
+
+    async getReferralStats(userId: string): Promise<{ referred: number; rewarded: number }> {
+        const rows = await this.all<{ referred: number; rewarded: number }>(
+            `SELECT COUNT(*) AS referred, SUM(CASE WHEN status = 'rewarded' THEN 1 ELSE 0 END) AS rewarded FROM referrals WHERE referrer_id = ?`,
+            [userId]
+        );
+        return { referred: Number(rows[0]?.referred || 0), rewarded: Number(rows[0]?.rewarded || 0) };
+    }
+
+    // Outbound x402 spends: the row is inserted first and blocked again when the day's total (this one
+    // included) is over the cap, so concurrent payments can never overshoot it together
+    async reserveClientSpend(spend: {
+        agentId: string;
+        url: string;
+        domain: string;
+        assetId: string;
+        amount: number;
+        credits: number;
+        userId?: string;
+        messageId?: string;
+    }, dailyCap: number): Promise<{ id: string; allowed: boolean }> {
+        const id = crypto.randomUUID();
+        const businessDate = getBusinessDate();
+        await this.run(
+            `INSERT INTO client_spends (id, agent_id, business_date, url, domain, asset_id, amount, credits, user_id, message_id, status, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'reserved', ?)`,
+            [
+                id, spend.agentId, businessDate, spend.url, spend.domain, spend.assetId, spend.amount, spend.credits,
+                spend.userId || null, spend.messageId || null, new Date().toISOString(),
+            ]
+        );
+        if ((await this.getClientSpentToday(spend.agentId, spend.assetId)) <= dailyCap) {
+            return { id, allowed: true };
+        }
+        await this.settleClientSpend(id, 'blocked', { error: 'daily_cap' });
+        return { id, allowed: false };
+    }
+
+    async settleClientSpend(
+        id: string,
+        status: Exclude<ClientSpendStatus, 'reserved'>,
+        details: { txHash?: string; error?: string } = {}
+    ): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE client_spends SET status = ?, tx_hash = ?, error = ?, settled_at = ? WHERE id = ? AND status = 'reserved'`,
+            [status, details.txHash || null, details.error || null, new Date().toISOString(), id]
+        );
+        return changed > 0;
+    }
+
+    async getClientSpentToday(agentId: string, assetId: string): Promise<number> {
+        const rows = await this.all<{ total: number | null }>(
+            `SELECT SUM(amount) AS total FROM client_spends
+             WHERE agent_id = ? AND asset_id = ? AND business_date = ? AND status IN ('reserved', 'paid', 'unknown')`,
+            [agentId, assetId, getBusinessDate()]
+        );
+        return Number(rows[0]?.total || 0);
+    }
+
+    async findClientSpends(filter: { agentId?: string; userId?: string; status?: ClientSpendStatus; limit?: number } = {}): Promise<ClientSpend[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (filter.agentId) {
+            conditions.push('agent_id = ?');
+            params.push(filter.agentId);
+        }
+        if (filter.userId) {
+            conditions.push('user_id = ?');
+            params.push(filter.userId);
+        }
+        if (filter.status) {
+            conditions.push('status = ?');
+            params.push(filter.status);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        params.push(Math.min(Math.max(filter.limit || 50, 1), 500));
+        return this.all<ClientSpend>(`SELECT * FROM client_spends ${where} ORDER BY created_at DESC LIMIT ?`, params);
+    }
+
+    // Agent transactions: pending ones expire after X402_TX_APPROVAL_TTL_MINUTES
+    async createAgentTransaction(tx: {
+        agentId: string;
+        kind: string;
+        signer: string;
+        chainId: number;
+        to: string;
+        data: string;
+        value: string;
+        gasLimit: string;
+        cost: number;
+        description: string;
+        requestedBy?: string;
+    }, status: 'pending' | 'sending' | 'rejected', error?: string): Promise<AgentTransaction> {
+        const id = crypto.randomUUID();
+        const now = new Date();
+        const expiresAt = status === 'pending' ? new Date(now.getTime() + CONFIG.TX_APPROVAL_TTL_MINUTES * 60 * 1000).toISOString() : null;
+        await this.run(
+            `INSERT INTO agent_transactions (id, agent_id, kind, signer, chain_id, to_address, data, value, gas_limit, cost, description,
+                requested_by, status, error, business_date, created_at, expires_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                id, tx.agentId, tx.kind, tx.signer, tx.chainId, tx.to, tx.data, tx.value, tx.gasLimit, tx.cost, tx.description,
+                tx.requestedBy || null, status, error || null, getBusinessDate(), now.toISOString(), expiresAt,
+            ]
+        );
+        return (await this.getAgentTransaction(id))!;
+    }
+
+    async getAgentTransaction(id: string): Promise<AgentTransaction | null> {
+        const rows = await this.all<AgentTransaction>(`SELECT * FROM agent_transactions WHERE id = ?`, [id]);
+        return rows[0] || null;
+    }
+
+    async findAgentTransactions(filter: { agentId?: string; kind?: string; status?: AgentTransactionStatus; limit?: number } = {}): Promise<AgentTransaction[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (filter.agentId) {
+            conditions.push('agent_id = ?');
+            params.push(filter.agentId);
+        }
+        if (filter.kind) {
+            conditions.push('kind = ?');
+            params.push(filter.kind);
+        }
+        if (filter.status) {
+            conditions.push('status = ?');
+            params.push(filter.status);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        params.push(Math.min(Math.max(filter.limit || 50, 1), 500));
+        return this.all<AgentTransaction>(`SELECT * FROM agent_transactions ${where} ORDER BY created_at DESC LIMIT ?`, params);
+    }
+
+    // Only an unexpired pending transaction can be approved; an approved one can still be rejected until it is sent
+    async reviewAgentTransaction(id: string, status: 'approved' | 'rejected', actor: string, error?: string): Promise<boolean> {
+        const now = new Date().toISOString();
+        const changed = status === 'approved'
+            ? await this.run(
+                `UPDATE agent_transactions SET status = 'approved', reviewed_by = ?, reviewed_at = ? WHERE id = ? AND status = 'pending' AND expires_at > ?`,
+                [actor, now, id, now]
+            )
+            : await this.run(
+                `UPDATE agent_transactions SET status = 'rejected', reviewed_by = ?, reviewed_at = ?, error = ? WHERE id = ? AND status IN ('pending', 'approved')`,
+                [actor, now, error || null, id]
+            );
+        return changed > 0;
+    }
+
+    // Claims an approved transaction for sending with a fresh estimate; it counts toward today's budgets from now on
+    async claimAgentTransaction(id: string, estimate: { gasLimit: string; cost: number }): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE agent_transactions SET status = 'sending', gas_limit = ?, cost = ?, business_date = ? WHERE id = ? AND status = 'approved'`,
+            [estimate.gasLimit, estimate.cost, getBusinessDate(), id]
+        );
+        return changed > 0;
+    }
+
+    // The row is counted first and failed again when the day's totals (this one included) are over a
+    // budget, so concurrent transactions can never overshoot it together
+    async checkAgentTransactionBudget(tx: AgentTransaction, budgets: { daily: number; kindDaily: number }): Promise<boolean> {
+        const total = await this.getAgentTxSpentToday(tx.agent_id);
+        const kindTotal = await this.getAgentTxSpentToday(tx.agent_id, tx.kind);
+        if (total <= budgets.daily + 1e-12 && kindTotal <= budgets.kindDaily + 1e-12) return true;
+        await this.finishAgentTransaction(tx.id, 'rejected', { error: 'daily_budget' });
+        return false;
+    }
+
+    async setAgentTransactionHash(id: string, txHash: string): Promise<void> {
+        await this.run(`UPDATE agent_transactions SET tx_hash = ?, sent_at = ? WHERE id = ?`, [txHash, new Date().toISOString(), id]);
+    }
+
+    async finishAgentTransaction(id: string, status: 'sent' | 'failed' | 'rejected', details: { txHash?: string; error?: string } = {}): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE agent_transactions SET status = ?, tx_hash = COALESCE(?, tx_hash), error = ? WHERE id = ? AND status IN ('approved', 'sending')`,
+            [status, details.txHash || null, details.error || null, id]
+        );
+        return changed > 0;
+    }
+
+    // A failed transaction that reached the chain still paid for its gas
+    async getAgentTxSpentToday(agentId: string, kind?: string): Promise<number> {
+        const rows = await this.all<{ total: number | null }>(
+            `SELECT SUM(cost) AS total FROM agent_transactions
+             WHERE agent_id = ? AND business_date = ?${kind ? ' AND kind = ?' : ''}
+             AND (status IN ('sending', 'sent') OR (status = 'failed' AND tx_hash IS NOT NULL))`,
+            kind ? [agentId, getBusinessDate(), kind] : [agentId, getBusinessDate()]
+        );
+        return Number(rows[0]?.total || 0);
+    }
+
+    async expireAgentTransactions(): Promise<number> {
+        return this.run(
+            `UPDATE agent_transactions SET status = 'expired' WHERE status = 'pending' AND expires_at <= ?`,
+            [new Date().toISOString()]
+        );
+    }
+
+    async getTxPolicySetting(key: string): Promise<string | null> {
+        const rows = await this.all<{ value: string }>(`SELECT value FROM tx_policy_settings WHERE key = ?`, [key]);
+        return rows[0]?.value ?? null;
+    }
+
+    async setTxPolicySetting(key: string, value: string, actor: string): Promise<void> {
+        await this.run(
+            `INSERT INTO tx_policy_settings (key, value, updated_by, updated_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_by = excluded.updated_by, updated_at = excluded.updated_at`,
+            [key, value, actor, new Date().toISOString()]
+        );
+    }
+
+    // Refunds (queued for an admin; approving one takes back what the payment granted)
+    async createRefund(refund: {
+        txHash: string;
+        userId: string;
+        assetId: string | null;
+        amount: number;
+        toAddress: string | null;
+        reason?: string;
+        requestKey?: string;
+        requestedBy: string;
+    }): Promise<RefundRecord | null> {
+        const id = crypto.randomUUID();
+        const inserted = await this.run(
+            `INSERT INTO refunds (id, tx_hash, user_id, asset_id, amount, to_address, reason, request_key, status, requested_by, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'requested', ?, ?) ON CONFLICT DO NOTHING`,
+            [
+                id, refund.txHash, refund.userId, refund.assetId, refund.amount, refund.toAddress || null,
+                refund.reason || null, refund.requestKey || null, refund.requestedBy, new Date().toISOString(),
+            ]
+        );
+        if (inserted > 0) return this.getRefund(id);
+        // The same chat message was already turned into a request (by the other agent)
+        const rows = refund.requestKey
+            ? await this.all<RefundRecord>(`SELECT * FROM refunds WHERE request_key = ?`, [refund.requestKey])
+            : [];
+        return rows[0] || null;
+    }
+
+    async getRefund(id: string): Promise<RefundRecord | null> {
+        const rows = await this.all<RefundRecord>(`SELECT * FROM refunds WHERE id = ?`, [id]);
+        return rows[0] || null;
+    }
+
+    async findRefunds(filter: { status?: RefundStatus; userId?: string; txHash?: string; limit?: number } = {}): Promise<RefundRecord[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (filter.status) {
+            conditions.push('status = ?');
+            params.push(filter.status);
+        }
+        if (filter.userId) {
+            conditions.push('user_id = ?');
+            params.push(filter.userId);
+        }
+        if (filter.txHash) {
+            conditions.push(filter.txHash.startsWith('0x') ? 'LOWER(tx_hash) = LOWER(?)' : 'tx_hash = ?');
+            params.push(filter.txHash);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        params.push(Math.min(Math.max(filter.limit || 50, 1), 500));
+        return this.all<RefundRecord>(`SELECT * FROM refunds ${where} ORDER BY created_at DESC LIMIT ?`, params);
+    }
+
+    // Amount of a payment already requested, approved or sent back
+    async getRefundedAmount(txHash: string, statuses: RefundStatus[] = ['requested', 'approved', 'sent']): Promise<number> {
+        const rows = await this.all<{ total: number | null }>(
+            `SELECT SUM(amount) AS total FROM refunds WHERE tx_hash = ? AND status IN (${statuses.map(() => '?').join(', ')})`,
+            [txHash, ...statuses]
+        );
+        return Number(rows[0]?.total || 0);
+    }
+
+    // Only a requested refund can be reviewed, so it is approved (and its grants taken back) once
+    async reviewRefund(id: string, status: 'approved' | 'rejected', actor: string, error?: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE refunds SET status = ?, reviewed_by = ?, reviewed_at = ?, error = ? WHERE id = ? AND status = 'requested'`,
+            [status, actor, new Date().toISOString(), error || null, id]
+        );
+        return changed > 0;
+    }
+
+    async setRefundTransfer(id: string, transfer: RefundTransfer): Promise<void> {
+        await this.run(`UPDATE refunds SET transfer = ? WHERE id = ?`, [JSON.stringify(transfer), id]);
+    }
+
+    // Claims an approved refund for the hot wallet; a claim left by a crash is resolved with markRefundSent
+    async claimRefundSend(id: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE refunds SET sent_at = ?, error = NULL WHERE id = ? AND status = 'approved' AND sent_at IS NULL`,
+            [new Date().toISOString(), id]
+        );
+        return changed > 0;
+    }
+
+    async releaseRefundSend(id: string, error: string): Promise<void> {
+        await this.run(`UPDATE refunds SET sent_at = NULL, error = ? WHERE id = ? AND status = 'approved'`, [error, id]);
+    }
+
+    async markRefundSent(id: string, refundTxHash: string): Promise<boolean> {
+        const changed = await this.run(
+            `UPDATE refunds SET status = 'sent', refund_tx_hash = ?, sent_at = COALESCE(sent_at, ?), error = NULL WHERE id = ? AND status = 'approved'`,
+            [refundTxHash, new Date().toISOString(), id]
+        );
+        return changed > 0;
+    }
+
+    // Partial refund: takes back up to `credits` of what the payment granted (the payment stays confirmed)
+    async revokePaymentCredits(payment: PaymentRecord, credits: number, context: LedgerContext = {}): Promise<number> {
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const granted = Number((await this.getPayment(payment.tx_hash))?.credits_granted_millis || 0);
+            const millis = Math.min(granted, toCreditMillis(credits));
+            if (millis <= 0) return 0;
+            const changed = await this.run(
+                `UPDATE payments SET credits_granted_millis = ? WHERE tx_hash = ? AND credits_granted_millis = ?`,
+                [granted - millis, payment.tx_hash, granted]
+            );
+            if (changed > 0) {
+                return this.revokeCredits(await this.resolveAccount(payment.user_id), millis / CREDIT_MILLIS, {
+                    ...context,
+                    paymentTxHash: payment.tx_hash,
+                });
+            }
+        }
+        throw new Error(`Payment ${payment.tx_hash} is being updated concurrently`);
+    }
+
+    // Payment Intents
+    private async getIntents(sql: string, params: unknown[]): Promise<PaymentIntent[]> {
+        return this.all<PaymentIntent>(sql, params);
+    }
+
+    async expireIntents(): Promise<void> {
+        await this.run(
+            `UPDATE payment_intents SET status = 'expired' WHERE status = 'open' AND expires_at < ?`,
+            [new Date().toISOString()]
+        );
+    }
+
+    async getOpenIntent(userId: string, asset: PaymentAsset): Promise<PaymentIntent | null> {
+        await this.expireIntents();
+        const rows = await this.getIntents(
+            `SELECT * FROM payment_intents WHERE user_id = ? AND asset_id = ? AND status = 'open' ORDER BY created_at DESC LIMIT 1`,
+            [userId, asset.id]
+        );
+        return rows[0] || null;
+    }
+
+    // Assets the user was asked to pay in; only those chains are checked for their tx hash
+    async getIntentAssetIds(userId: string): Promise<string[]> {
+        const intents = await this.getIntents(
+            `SELECT * FROM payment_intents WHERE user_id = ? AND status IN ('open', 'expired')`,
+            [userId]
+        );
+        return Array.from(new Set(intents.map(intent => intent.asset_id)));
+    }
+
+    async getOrCreateIntent(
+        userId: string,
+        asset: PaymentAsset,
+        payer?: string,
+        origin?: PaymentIntentOrigin
+    ): Promise<PaymentIntent | null> {
+        // A discount redeemed (or used up) since the intent was created needs a new quote
+        const discount = await this.getActiveDiscount(userId);
+        const existing = await this.getOpenIntent(userId, asset);
+        if (existing && (!payer || existing.payer?.toLowerCase() === payer.toLowerCase()) &&
+            existing.coupon_redemption_id === (discount?.id || null)) {
+            return existing;
+        }
+        if (!this.store) return null;
+
+        // Pick a suffix that no other open intent for the same asset is using
+        const openIntents = await this.getIntents(
+            `SELECT * FROM payment_intents WHERE asset_id = ? AND status = 'open'`,
+            [asset.id]
+        );
+        const used = new Set(openIntents.map(intent => intent.suffix));
+        let suffix = 0;
+        for (let attempt = 0; attempt < 50; attempt++) {
+            const candidate = crypto.randomInt(1, CONFIG.PAYMENT_INTENT_MAX_SUFFIX + 1);
+            if (!used.has(candidate)) {
+                suffix = candidate;
+                break;
+            }
+        }
+        if (!suffix) {
+            logger.error(`[X402DB] No free payment intent suffix for ${asset.id}`);
+            return null;
+        }
+
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + CONFIG.PAYMENT_INTENT_TTL_MINUTES * 60 * 1000);
+        const id = crypto.randomBytes(6).toString('hex');
+        // Solana Pay reference: a random public key the wallet attaches to the transfer
+        const reference = isSolanaAsset(asset) ? ethers.encodeBase58(crypto.randomBytes(32)) : null;
+        await this.run(
+            `INSERT INTO payment_intents (id, user_id, asset_id, currency, suffix, reference, payer, room_id, agent_id, source,
+                coupon_redemption_id, discount_percent, discount_plan, expires_at, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                id, userId, asset.id, asset.symbol, suffix, reference, payer ? payer.toLowerCase() : null,
+                origin?.roomId || null, origin?.agentId || null, origin?.source || null,
+                discount?.id || null, discount?.discount_percent || 0, discount?.plan || null,
+                expiresAt.toISOString(), now.toISOString(),
+            ]
+        );
+        logger.info(`[X402DB] Payment intent ${id} created for ${userId} (${asset.id}, suffix ${suffix})`);
+        return this.getIntent(id);
+    }
+
+    // An intent matches when the amount carries its suffix, the transfer happened inside
+    // the intent's validity window, and the sender is the bound payer (if any)
+    async findMatchingIntent(
+        userId: string,
+        asset: PaymentAsset,
+        amountUnits: bigint,
+        blockTimestamp: number,
+        payer: string,
+        references: string[] = []
+    ): Promise<PaymentIntent | null> {
+        // Expired intents still match a transfer that was mined inside their window
+        const candidates = await this.getIntents(
+            `SELECT * FROM payment_intents WHERE user_id = ? AND asset_id = ? AND status IN ('open', 'expired')`,
+            [userId, asset.id]
+        );
+        return candidates.find(intent => intentMatchesTransfer(intent, asset, amountUnits, blockTimestamp, payer, references)) || null;
+    }
+
+    // Watcher lookup: suffixes are unique among open intents, so the transfer identifies the user
+    async findIntentForTransfer(
+        asset: PaymentAsset,
+        amountUnits: bigint,
+        blockTimestamp: number,
+        payer: string
+    ): Promise<PaymentIntent | null> {
+        const suffix = getIntentSuffixOf(asset, amountUnits);
+        if (suffix <= 0) return null;
+        const candidates = await this.getIntents(
+            `SELECT * FROM payment_intents WHERE asset_id = ? AND suffix = ? AND status IN ('open', 'expired') ORDER BY created_at DESC`,
+            [asset.id, suffix]
+        );
+        return candidates.find(intent => intentMatchesTransfer(intent, asset, amountUnits, blockTimestamp, payer)) || null;
+    }
+
+    // The most recent conversation the user was quoted in (where subscription notices are sent)
+    async getLatestIntentWithOrigin(userId: string): Promise<PaymentIntent | null> {
+        const rows = await this.getIntents(
+            `SELECT * FROM payment_intents WHERE user_id = ? AND room_id IS NOT NULL ORDER BY created_at DESC LIMIT 1`,
+            [userId]
+        );
+        return rows[0] || null;
+    }
+
+    async getUserIntents(userId: string, limit: number = 20): Promise<PaymentIntent[]> {
+        return this.getIntents(
+            `SELECT * FROM payment_intents WHERE user_id = ? ORDER BY created_at DESC LIMIT ?`,
+            [userId, limit]
+        );
+    }
+
+    async getIntent(intentId: string): Promise<PaymentIntent | null> {
+        return (await this.getIntents(`SELECT * FROM payment_intents WHERE id = ?`, [intentId]))[0] || null;
+    }
+
+    async fulfillIntent(intentId: string, txHash: string, payer: string): Promise<void> {
+        await this.run(
+            `UPDATE payment_intents SET status = 'fulfilled', tx_hash = ?, payer = ?, fulfilled_at = ? WHERE id = ?`,
+            [txHash, payer.toLowerCase(), new Date().toISOString(), intentId]
+        );
+        logger.info(`[X402DB] Payment intent ${intentId} fulfilled by ${txHash}`);
+    }
+
+    // Payment Watcher Cursors (keyed by asset id)
+    async getWatcherCursor(network: string): Promise<number | null> {
+        const rows = await this.all<{ last_block: number }>('SELECT last_block FROM watcher_cursors WHERE network = ?', [network]);
+        return rows[0] ? Number(rows[0].last_block) : null;
+    }
+
+    async setWatcherCursor(network: string, lastBlock: number): Promise<void> {
+        await this.run(
+            `INSERT INTO watcher_cursors (network, last_block, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+             ON CONFLICT(network) DO UPDATE SET last_block = excluded.last_block, updated_at = excluded.updated_at`,
+            [network, lastBlock]
+        );
+    }
+
+    // Status
+    async getUserStatus(userId: string): Promise<{
+        isPro: boolean;
+        proExpiresAt: Date | null;
+        proInGrace: boolean;
+        proDaysRemaining: number;
+        isDaily: boolean;
+        dailyPlanRemaining: number;
+        dailyPlanExpiresAt: Date | null;
+        credits: number;
+        dailyFreeRemaining: number;
+    }> {
+        await this.ensureUser(userId);
+        const isPro = await this.isPro(userId);
+        const proExpiresAt = await this.getProExpiresAt(userId);
+        const now = Date.now();
+        return {
+            isPro,
+            proExpiresAt,
+            proInGrace: isPro && !!proExpiresAt && proExpiresAt.getTime() < now,
+            proDaysRemaining: isPro && proExpiresAt ? Math.max(0, Math.ceil((proExpiresAt.getTime() - now) / (24 * 60 * 60 * 1000))) : 0,
+            isDaily: await this.isDaily(userId),
+            dailyPlanRemaining: await this.getDailyPlanRemaining(userId),
+            dailyPlanExpiresAt: await this.getDailyPlanExpiresAt(userId),
+            credits: await this.getCredits(userId),
+            dailyFreeRemaining: await this.getDailyFreeRemaining(userId),
+        };
+    }
+}
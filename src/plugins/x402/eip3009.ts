@@ -0,0 +1,193 @@
+import { logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import { CONFIG } from './config';
+import type { PaymentAsset } from './assets';
+import { getAssetsForNetwork } from './assets';
+import type { X402PaymentRequirements } from './http';
+import { X402_VERSION } from './http';
+
+// ============================================
+// EIP-3009 Settlement (x402 "exact" scheme - gasless transfers of any registry asset with an eip712 domain)
+// ============================================
+type Eip3009Authorization = {
+    from: string;
+    to: string;
+    value: string;
+    validAfter: string;
+    validBefore: string;
+    nonce: string;
+};
+
+export type ExactEvmPayload = {
+    signature: string;
+    authorization: Eip3009Authorization;
+};
+
+export interface X402Facilitator {
+    verify(payload: ExactEvmPayload, requirements: X402PaymentRequirements): Promise<{ isValid: boolean; invalidReason?: string; payer?: string }>;
+    settle(payload: ExactEvmPayload, requirements: X402PaymentRequirements): Promise<{ success: boolean; errorReason?: string; transaction?: string; payer?: string }>;
+}
+
+// Several assets may share a network, so requirements are resolved by network and token address
+export function getRequirementsAsset(requirements: X402PaymentRequirements): PaymentAsset | null {
+    return getAssetsForNetwork(requirements.network)
+        .find(asset => asset.address.toLowerCase() === requirements.asset.toLowerCase()) || null;
+}
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+    TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' },
+    ],
+};
+
+const EIP3009_ABI = [
+    'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+    'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+    'function balanceOf(address account) view returns (uint256)',
+];
+
+// Seconds of headroom so an authorization does not expire while the relayer tx is pending
+const AUTHORIZATION_EXPIRY_BUFFER_SECONDS = 6;
+
+export function isExactEvmPayload(payload: unknown): payload is ExactEvmPayload {
+    const p = payload as ExactEvmPayload;
+    return !!p && typeof p.signature === 'string' && !!p.authorization &&
+        typeof p.authorization.from === 'string' && typeof p.authorization.nonce === 'string';
+}
+
+// Off-chain checks shared by every facilitator: receiver, amount, validity window, signature
+export function verifyAuthorizationLocally(payload: ExactEvmPayload, requirements: X402PaymentRequirements): string | null {
+    const { authorization, signature } = payload;
+    const asset = getRequirementsAsset(requirements);
+    if (!asset) return `Unsupported asset ${requirements.asset} on ${requirements.network}`;
+
+    if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+        return 'Authorization receiver does not match payTo';
+    }
+    if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+        return 'Authorization value is below the required amount';
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (BigInt(authorization.validAfter) > BigInt(now)) {
+        return 'Authorization is not yet valid';
+    }
+    if (BigInt(authorization.validBefore) < BigInt(now + AUTHORIZATION_EXPIRY_BUFFER_SECONDS)) {
+        return 'Authorization has expired';
+    }
+
+    const domain = {
+        name: String(requirements.extra?.name || ''),
+        version: String(requirements.extra?.version || ''),
+        chainId: asset.chainId,
+        verifyingContract: asset.address,
+    };
+    try {
+        const signer = ethers.verifyTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, authorization, signature);
+        if (signer.toLowerCase() !== authorization.from.toLowerCase()) {
+            return 'Signature does not match authorization.from';
+        }
+    } catch (e: any) {
+        return `Invalid signature: ${e.message}`;
+    }
+    return null;
+}
+
+// Submits transferWithAuthorization from our own relayer wallet (pays the gas)
+class RelayerFacilitator implements X402Facilitator {
+    constructor(private privateKey: string) {}
+
+    private getToken(requirements: X402PaymentRequirements, withSigner: boolean): ethers.Contract {
+        const asset = getRequirementsAsset(requirements);
+        if (!asset) throw new Error(`Unsupported asset ${requirements.asset} on ${requirements.network}`);
+        const provider = new ethers.JsonRpcProvider(asset.rpcUrl);
+        const runner = withSigner ? new ethers.Wallet(this.privateKey, provider) : provider;
+        return new ethers.Contract(asset.address, EIP3009_ABI, runner);
+    }
+
+    async verify(payload: ExactEvmPayload, requirements: X402PaymentRequirements) {
+        const localError = verifyAuthorizationLocally(payload, requirements);
+        if (localError) return { isValid: false, invalidReason: localError };
+
+        const { authorization } = payload;
+        const token = this.getToken(requirements, false);
+        const used: boolean = await token.authorizationState(authorization.from, authorization.nonce);
+        if (used) return { isValid: false, invalidReason: 'Authorization nonce has already been used' };
+
+        const balance: bigint = await token.balanceOf(authorization.from);
+        if (balance < BigInt(authorization.value)) {
+            return { isValid: false, invalidReason: 'Insufficient token balance' };
+        }
+        return { isValid: true, payer: authorization.from };
+    }
+
+    async settle(payload: ExactEvmPayload, requirements: X402PaymentRequirements) {
+        const { authorization } = payload;
+        const sig = ethers.Signature.from(payload.signature);
+        const token = this.getToken(requirements, true);
+
+        const tx = await token.transferWithAuthorization(
+            authorization.from,
+            authorization.to,
+            authorization.value,
+            authorization.validAfter,
+            authorization.validBefore,
+            authorization.nonce,
+            sig.v,
+            sig.r,
+            sig.s
+        );
+        logger.info(`[X402_RELAYER] transferWithAuthorization submitted: ${tx.hash}`);
+        const receipt = await tx.wait();
+        if (!receipt || receipt.status !== 1) {
+            return { success: false, errorReason: 'transferWithAuthorization reverted', transaction: tx.hash };
+        }
+        return { success: true, transaction: tx.hash as string, payer: authorization.from };
+    }
+}
+
+// Delegates to a hosted x402 facilitator (POST /verify and /settle)
+class HttpFacilitator implements X402Facilitator {
+    constructor(private baseUrl: string) {}
+
+    private async post(endpoint: string, payload: ExactEvmPayload, requirements: X402PaymentRequirements): Promise<any> {
+        const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/${endpoint}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                x402Version: X402_VERSION,
+                paymentPayload: { x402Version: X402_VERSION, scheme: 'exact', network: requirements.network, payload },
+                paymentRequirements: requirements,
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`Facilitator ${endpoint} failed: HTTP ${response.status}`);
+        }
+        return response.json();
+    }
+
+    async verify(payload: ExactEvmPayload, requirements: X402PaymentRequirements) {
+        const localError = verifyAuthorizationLocally(payload, requirements);
+        if (localError) return { isValid: false, invalidReason: localError };
+        return this.post('verify', payload, requirements);
+    }
+
+    async settle(payload: ExactEvmPayload, requirements: X402PaymentRequirements) {
+        return this.post('settle', payload, requirements);
+    }
+}
+
+export function createDefaultFacilitator(): X402Facilitator | null {
+    if (CONFIG.FACILITATOR_URL) {
+        return new HttpFacilitator(CONFIG.FACILITATOR_URL);
+    }
+    if (CONFIG.RELAYER_PRIVATE_KEY) {
+        return new RelayerFacilitator(CONFIG.RELAYER_PRIVATE_KEY);
+    }
+    return null;
+}
@@ -0,0 +1,210 @@
+import type { Provider, IAgentRuntime, Memory, State, Evaluator, HandlerCallback } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { CONFIG } from './config';
+import { getMessageKey } from './messages';
+import { getIntentOrigin, getPaymentQuote, formatPlanSummaryLines } from './payment-prompt';
+import { isAdminLoginMessage, handleAdminLoginMessage, formatAdminLoginResult } from './admin-auth';
+import { getAccountLinkCommand } from './identity';
+import { getRedeemCode } from './coupons';
+import { SOLANA_SIGNATURE_REGEX } from './verification';
+import type { X402Service } from './service';
+import { getTxReviewCommand } from './tx-policy';
+
+// ============================================
+// Provider (Critical for payment gating)
+// ============================================
+export const x402Provider: Provider = {
+    // @ts-ignore
+    name: 'x402Provider',
+    get: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return { text: '', values: {}, data: {} };
+
+        const userId = await service.resolveUserId(message);
+        const text = (message.content.text || '').toLowerCase();
+        const messageKey = getMessageKey(message);
+        const agentName = runtime.character?.name || 'unknown';
+
+        logger.info(`[X402Provider:${agentName}] User: ${userId}, MessageKey: ${messageKey.substring(0, 30)}...`);
+
+        // Skip payment check for special messages
+        const hasAdmin = text.includes('admin') || text.includes('管理者');
+        const hasLogout = text.includes('logout') || text.includes('ログアウト') || text.includes('解除');
+        if (text.includes('支払いました') || text.includes('paid') || text.includes('0x') ||
+            SOLANA_SIGNATURE_REGEX.test(message.content.text || '') ||
+            text.includes('ステータス') || text.includes('status') ||
+            (hasAdmin && hasLogout) || getAccountLinkCommand(message) || getRedeemCode(message) || getTxReviewCommand(message)) {
+            return { text: '', values: { hasAccess: true }, data: {} };
+        }
+
+        // Admin login: verified (and the key redacted from memory) before anything else sees it
+        if (isAdminLoginMessage(message)) {
+            const result = await handleAdminLoginMessage(runtime, service, message);
+            const success = !!result?.success;
+            logger.info(`[X402Provider:${agentName}] Admin login ${success ? 'succeeded' : 'failed'}`);
+
+            return {
+                text: `【システム】管理者ログインの結果です。「${formatAdminLoginResult(result)}」とだけ応答してください。`,
+                values: { hasAccess: success, isAdminKey: true, adminLoginSuccess: success },
+                data: { adminLoginSuccess: success }
+            };
+        }
+
+        // The first agent to claim the message reserves access (captured after the response by
+        // x402MeteringEvaluator); agents in this or other processes share that decision
+        const access = await service.claimMessage(message, userId);
+        const db = service.getDatabase();
+
+        if (access.allowed) {
+            logger.info(`[X402Provider:${agentName}] Access ${access.first ? `reserved (${access.reason})` : 'shared'} for ${userId}`);
+            return {
+                text: '',
+                values: { hasAccess: true, accessType: access.first ? access.reason : 'shared' },
+                data: {}
+            };
+        }
+        // NO ACCESS - Return blocking message to instruct model to show payment prompt
+        const PAYMENT_PAGE_URL = process.env.PAYMENT_PAGE_URL || 'https://x402payment.vercel.app';
+        const paymentLink = `${PAYMENT_PAGE_URL}/pay?user=${encodeURIComponent(userId)}`;
+        const quote = await getPaymentQuote(db, userId, getIntentOrigin(runtime, message));
+
+        logger.info(`[X402Provider:${agentName}] NO ACCESS - User ${userId} - blocking response`);
+
+        const blockingMessage = `【重要：支払いが必要です】
+このユーザーは無料枠を使い切りました。質問には回答せず、以下の支払い案内のみを返してください：
+
+💰 **ご利用には支払いが必要です**
+
+🆓 本日の無料枠（${CONFIG.FREE_DAILY_LIMIT}回/日）を使い切りました。
+
+📦 **料金プラン**
+${formatPlanSummaryLines(quote)}
+
+👉 ${paymentLink}
+
+⚠️ 表示された金額ちょうどを ${quote?.expiresStr ?? ''} までに送金してください
+
+✅ 支払い完了後、トランザクションハッシュ(0x...)を送信してください`;
+
+        return {
+            text: blockingMessage,
+            values: { hasAccess: false, paymentRequired: true },
+            data: { paymentPageUrl: paymentLink }
+        };
+    },
+};
+
+// ============================================
+// Evaluator - CRITICAL: Intercepts ALL responses to enforce payment gate
+// ============================================
+export const x402PaymentGateEvaluator: Evaluator = {
+    name: 'x402PaymentGateEvaluator',
+    description: 'Enforces payment gate by intercepting responses when user has no access',
+    similes: ['PAYMENT_GATE', 'ACCESS_CONTROL'],
+    alwaysRun: true, // Always run this evaluator
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state?: State): Promise<boolean> => {
+        const agentName = runtime.character?.name || 'unknown';
+
+        // Always validate - we need to check every message
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) {
+            logger.warn('[X402_EVALUATOR] No x402 service found');
+            return false;
+        }
+
+        const text = (message.content.text || '').toLowerCase();
+
+        // Skip for special messages
+        const hasAdminWord = text.includes('admin') || text.includes('管理者');
+        const hasLogoutWord = text.includes('logout') || text.includes('ログアウト') || text.includes('解除');
+        if (text.includes('支払いました') || text.includes('paid') || text.includes('0x') ||
+            SOLANA_SIGNATURE_REGEX.test(message.content.text || '') ||
+            text.includes('ステータス') || text.includes('status') ||
+            (hasAdminWord && hasLogoutWord)) {
+            return false;
+        }
+
+        if (isAdminLoginMessage(message) || getAccountLinkCommand(message) || getRedeemCode(message) || getTxReviewCommand(message)) {
+            return false;
+        }
+
+        if (await service.getAdminAuth().isAdminSender(message)) {
+            return false;
+        }
+        const userId = await service.resolveUserId(message);
+        const access = await service.canAccess(userId);
+
+        // Only run evaluator if user does NOT have access
+        const shouldRun = !access.allowed;
+        logger.info(`[X402_EVALUATOR:${agentName}] User ${userId}: allowed=${access.allowed}, shouldRun=${shouldRun}`);
+
+        return shouldRun;
+    },
+
+    handler: async (runtime: IAgentRuntime, message: Memory, _state?: State): Promise<any> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return null;
+
+        const userId = await service.resolveUserId(message);
+        const agentName = runtime.character?.name || 'unknown';
+        const PAYMENT_PAGE_URL = process.env.PAYMENT_PAGE_URL || 'https://x402payment.vercel.app';
+
+        logger.info(`[X402_EVALUATOR:${agentName}] 🚫 BLOCKING RESPONSE - User ${userId} has no access`);
+
+        const paymentLink = `${PAYMENT_PAGE_URL}/pay?user=${encodeURIComponent(userId)}`;
+        const quote = await getPaymentQuote(service.getDatabase(), userId, getIntentOrigin(runtime, message));
+
+        // Return the payment required message - this should replace the agent's response
+        return {
+            text: `💰 **ご利用には支払いが必要です**
+
+🆓 本日の無料枠を使い切りました（${CONFIG.FREE_DAILY_LIMIT}回/日）
+
+📦 **料金プラン**
+
+${formatPlanSummaryLines(quote)}
+
+👉 <a href="${paymentLink}">支払いページへ</a>
+
+⚠️ 表示された金額ちょうどを ${quote?.expiresStr ?? ''} までに送金してください
+
+✅ 支払い完了後、トランザクションハッシュ(0x...)を送信してください`,
+            shouldBlock: true,
+            action: 'BLOCK_RESPONSE'
+        };
+    },
+
+    examples: []
+};
+
+// ============================================
+// Metering Evaluator - Captures the metered cost once the response exists
+// ============================================
+export const x402MeteringEvaluator: Evaluator = {
+    name: 'x402MeteringEvaluator',
+    description: 'Captures the metered cost of a response (actions run and LLM tokens) after it was sent',
+    similes: ['METERED_BILLING'],
+    alwaysRun: true,
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state?: State): Promise<boolean> => {
+        const service = runtime.getService<X402Service>('x402');
+        return !!service?.hasMeteredBill(message);
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State,
+        _options?: any,
+        _callback?: HandlerCallback,
+        responses?: Memory[]
+    ): Promise<any> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return null;
+        const cost = await service.captureMeteredMessage(message, responses || []);
+        return { success: true, data: { cost } };
+    },
+
+    examples: []
+};
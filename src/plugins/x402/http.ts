@@ -0,0 +1,332 @@
+import type { RouteRequest, RouteResponse, IAgentRuntime } from '@elizaos/core';
+import { ModelType, logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import { PAYMENT_ASSETS, getPaymentAsset, getAssetsForNetwork, getAssetReceiver } from './assets';
+import { CREDIT_MILLIS, getActionPrice, toCreditMillis } from './pricing';
+import { redeemVerifiedPayment } from './ledger';
+import type { PaymentQuote } from './payment-prompt';
+import { getPaymentQuote } from './payment-prompt';
+import { SOLANA_SIGNATURE_REGEX, verifyPaymentOnChain } from './verification';
+import type { X402Service } from './service';
+import type { ExactEvmPayload } from './eip3009';
+import { isExactEvmPayload, verifyAuthorizationLocally } from './eip3009';
+
+// ============================================
+// x402 HTTP Protocol - 402 Payment Required for paid API calls
+// ============================================
+export const X402_VERSION = 1;
+
+export type X402PaymentRequirements = {
+    scheme: 'exact';
+    network: string;
+    maxAmountRequired: string;
+    resource: string;
+    description: string;
+    mimeType: string;
+    payTo: string;
+    maxTimeoutSeconds: number;
+    asset: string;
+    extra?: Record<string, unknown>;
+};
+
+type X402PaymentPayload = {
+    x402Version: number;
+    scheme: string;
+    network: string;
+    payload: ExactEvmPayload | { txHash?: string };
+};
+
+export function getHeader(req: RouteRequest, name: string): string | undefined {
+    const value = req.headers?.[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function encodeX402Header(data: unknown): string {
+    return Buffer.from(JSON.stringify(data), 'utf8').toString('base64');
+}
+
+function decodeX402Header(header: string): X402PaymentPayload | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+        if (!decoded || typeof decoded !== 'object' || !decoded.payload) return null;
+        return decoded as X402PaymentPayload;
+    } catch (e) {
+        return null;
+    }
+}
+
+// One paid request costs the single-plan price of each accepted asset.
+// For a known user the amounts carry the suffix of their open payment intents.
+function buildPaymentRequirements(resource: string, agentName: string, quote?: PaymentQuote | null): X402PaymentRequirements[] {
+    const description = `${agentName}への質問 1回分`;
+    return PAYMENT_ASSETS.map(asset => {
+        const entry = quote?.entries.find(e => e.asset.id === asset.id);
+        return {
+            scheme: 'exact' as const,
+            network: asset.network,
+            maxAmountRequired: ethers.parseUnits(entry?.single ?? String(asset.prices.single), asset.decimals).toString(),
+            resource,
+            description,
+            mimeType: 'application/json',
+            payTo: getAssetReceiver(asset),
+            maxTimeoutSeconds: 300,
+            asset: asset.address,
+            extra: {
+                ...(asset.eip712 || {}),
+                assetId: asset.id,
+                symbol: asset.symbol,
+                decimals: asset.decimals,
+                reference: entry?.intent.id,
+            },
+        };
+    });
+}
+
+// A payload only names its network; when several assets share it, the one whose EIP-712 domain
+// the signature verifies against wins
+function selectRequirements(accepts: X402PaymentRequirements[], payment: X402PaymentPayload): X402PaymentRequirements | null {
+    const candidates = accepts.filter(r => r.network === payment.network);
+    if (candidates.length <= 1 || !isExactEvmPayload(payment.payload)) return candidates[0] || null;
+    const payload = payment.payload;
+    return candidates.find(r => verifyAuthorizationLocally(payload, r) === null) || candidates[0];
+}
+
+function sendPaymentRequired(res: RouteResponse, accepts: X402PaymentRequirements[], error: string) {
+    res.status(402).json({ x402Version: X402_VERSION, error, accepts });
+}
+
+// Verify an X-PAYMENT header and credit the payer through the same plan logic as VERIFY_PAYMENT
+async function settleHttpPayment(
+    service: X402Service,
+    payment: X402PaymentPayload,
+    accepts: X402PaymentRequirements[],
+    requestedUserId?: string
+): Promise<{ success: boolean; userId?: string; txHash?: string; payer?: string; error?: string }> {
+    if (payment.x402Version !== X402_VERSION || payment.scheme !== 'exact') {
+        return { success: false, error: 'Unsupported x402 version or scheme' };
+    }
+    const requirements = selectRequirements(accepts, payment);
+    if (!requirements) {
+        return { success: false, error: `Unsupported network: ${payment.network}` };
+    }
+
+    // Standard "exact" scheme: signed EIP-3009 authorization, settled by us
+    if (isExactEvmPayload(payment.payload)) {
+        const settled = await service.settleAuthorization(payment.payload, requirements, requestedUserId);
+        if (!settled.success) {
+            return { success: false, error: settled.error };
+        }
+        return { success: true, userId: settled.userId, txHash: settled.transaction, payer: settled.payer };
+    }
+
+    // Fallback: the client already sent the transfer and proves it with the tx hash. A hash is public,
+    // so it only counts for a signed-in caller whose payment intent (or verified wallet) it matches.
+    const db = service.getDatabase();
+    const txHash = (payment.payload as { txHash?: string }).txHash;
+    if (!txHash || !(/^0x[a-fA-F0-9]{64}$/.test(txHash) || new RegExp(`^${SOLANA_SIGNATURE_REGEX.source}$`).test(txHash))) {
+        return { success: false, error: 'payload.txHash is required' };
+    }
+    if (!requestedUserId) {
+        return { success: false, error: 'A txHash payment needs a signed-in session (Authorization: Bearer) - or pay with an EIP-3009 authorization' };
+    }
+
+    // A retry for a payment that was still confirming: succeed once it has been promoted
+    const existing = await db.getPayment(txHash);
+    if (existing) {
+        if (existing.user_id !== requestedUserId) {
+            return { success: false, error: 'Transaction has already been used' };
+        }
+        const current = existing.status === 'pending' ? await service.refreshPendingPayment(existing) : existing;
+        if (current?.status === 'confirmed') {
+            return { success: true, userId: current.user_id, txHash };
+        }
+        if (current?.status === 'pending') {
+            const required = getPaymentAsset(current.asset_id)?.minConfirmations ?? 0;
+            return { success: false, error: `Payment pending confirmation (${current.confirmations}/${required})` };
+        }
+        return { success: false, error: `Transaction has been ${current?.status || 'reverted'}` };
+    }
+
+    const result = await verifyPaymentOnChain(txHash, getAssetsForNetwork(payment.network));
+    if (!result.verified || !result.payer) {
+        return { success: false, error: result.error || 'Payment could not be verified' };
+    }
+
+    const redeemed = await redeemVerifiedPayment(db, requestedUserId, txHash, result);
+    if (!redeemed.success) {
+        return { success: false, error: redeemed.error };
+    }
+    if (redeemed.pending) {
+        return { success: false, error: `Payment pending confirmation (${redeemed.confirmations}/${redeemed.required}) - retry with the same X-PAYMENT header` };
+    }
+    return { success: true, userId: requestedUserId, txHash, payer: result.payer };
+}
+
+async function generateHttpAnswer(runtime: IAgentRuntime, question: string): Promise<string> {
+    const character = runtime.character;
+    const prompt = `${character.system || ''}
+
+# 質問
+${question}
+
+${character.name}として、上記の質問に日本語で回答してください。`;
+
+    const response = await runtime.useModel(ModelType.TEXT_LARGE, { prompt });
+    return String(response).trim();
+}
+
+export const askAgentHandler = async (req: RouteRequest, res: RouteResponse, runtime: IAgentRuntime) => {
+    const agentName = runtime.character?.name || 'unknown';
+    const requestedAgent = req.params?.agent || '';
+
+    if (requestedAgent.toLowerCase() !== agentName.toLowerCase()) {
+        res.status(404).json({ error: `Unknown agent: ${requestedAgent}` });
+        return;
+    }
+
+    const service = runtime.getService<X402Service>('x402');
+    if (!service) {
+        res.status(503).json({ error: 'x402 service not available' });
+        return;
+    }
+
+    const body = (req.body || {}) as { question?: string };
+    const question = body.question || (req.query?.q as string | undefined);
+    if (!question) {
+        res.status(400).json({ error: 'question is required' });
+        return;
+    }
+
+    // The caller is known only through a SIWE session; otherwise the payment in this request pays for it
+    const db = service.getDatabase();
+    const paymentHeader = getHeader(req, 'X-PAYMENT');
+    const authorization = getHeader(req, 'Authorization') || '';
+    let userId: string | undefined;
+    if (authorization) {
+        const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+        userId = (await service.getWalletSessionAccount(token)) || undefined;
+        if (!userId) {
+            res.status(401).json({ error: 'Invalid or expired session - sign in again with POST /x402/siwe' });
+            return;
+        }
+    }
+    const accepts = buildPaymentRequirements(
+        req.url || req.path || `/x402/ask/${requestedAgent}`,
+        agentName,
+        userId ? await getPaymentQuote(db, userId) : null
+    );
+    let paymentResponse: Record<string, unknown> | null = null;
+
+    if (paymentHeader) {
+        const payment = decodeX402Header(paymentHeader);
+        if (!payment) {
+            sendPaymentRequired(res, accepts, 'Malformed X-PAYMENT header');
+            return;
+        }
+
+        const settlement = await settleHttpPayment(service, payment, accepts, userId);
+        if (!settlement.success) {
+            logger.warn(`[X402_HTTP:${agentName}] Payment rejected: ${settlement.error}`);
+            sendPaymentRequired(res, accepts, settlement.error || 'Payment rejected');
+            return;
+        }
+
+        userId = settlement.userId;
+        paymentResponse = {
+            success: true,
+            transaction: settlement.txHash,
+            network: payment.network,
+            payer: settlement.payer,
+        };
+        logger.info(`[X402_HTTP:${agentName}] ✅ Payment settled for ${userId}: ${settlement.txHash}`);
+    }
+
+    if (!userId) {
+        sendPaymentRequired(res, accepts, 'X-PAYMENT header is required');
+        return;
+    }
+
+    // A request whose payment was just settled is answered even if that balance was spent concurrently
+    // (by another request of the same account): the caller has paid, so it never gets a 402 back
+    const access = await service.reserveAccess(userId);
+    if (!access.allowed && !paymentResponse) {
+        sendPaymentRequired(res, accepts, 'Insufficient balance for this request');
+        return;
+    }
+
+    let captured = false;
+    try {
+        const answer = await generateHttpAnswer(runtime, question);
+        // Metered like a chat reply, once the answer exists; a failed generation releases the reservation
+        const cost = toCreditMillis(getActionPrice('REPLY')) / CREDIT_MILLIS;
+        captured = access.allowed && (!access.consumeType || await service.consumeAccess(userId, access.consumeType, cost, { reason: 'http_query' }));
+        if (!captured && !paymentResponse) {
+            sendPaymentRequired(res, accepts, 'Insufficient balance for this request');
+            return;
+        }
+        if (!captured) {
+            logger.warn(`[X402_HTTP:${agentName}] Answering ${userId} uncharged - the balance from its payment was already used`);
+        }
+        if (paymentResponse) {
+            res.setHeader?.('X-PAYMENT-RESPONSE', encodeX402Header(paymentResponse));
+        }
+        res.status(200).json({ agent: agentName, user: userId, access: captured ? access.reason : 'paid', answer });
+    } catch (error: any) {
+        logger.error(`[X402_HTTP:${agentName}] Failed to generate answer:`, error);
+        res.status(500).json({ error: 'Failed to generate answer' });
+    } finally {
+        if (access.reservationId) {
+            await service.getDatabase().settleReservation(access.reservationId, captured ? 'captured' : 'released');
+        }
+    }
+};
+
+// Payment page endpoint: credit a chat user from a signed EIP-3009 authorization (no tx hash paste)
+export const settleAuthorizationHandler = async (req: RouteRequest, res: RouteResponse, runtime: IAgentRuntime) => {
+    const service = runtime.getService<X402Service>('x402');
+    if (!service) {
+        res.status(503).json({ error: 'x402 service not available' });
+        return;
+    }
+
+    const body = (req.body || {}) as { user?: string; network?: string; asset?: string; payload?: unknown };
+    if (!body.user || !isExactEvmPayload(body.payload)) {
+        res.status(400).json({ error: 'user and payload (authorization, signature) are required' });
+        return;
+    }
+
+    // `asset` (registry id) picks the token directly; `network` alone works when it has one asset
+    const accepts = buildPaymentRequirements(req.url || req.path || '/x402/settle', runtime.character?.name || 'unknown');
+    const asset = body.asset ? getPaymentAsset(body.asset) : null;
+    const requirements = asset
+        ? accepts.find(r => r.extra?.assetId === asset.id) || null
+        : selectRequirements(accepts, { x402Version: X402_VERSION, scheme: 'exact', network: body.network || '', payload: body.payload });
+    if (!requirements) {
+        res.status(400).json({ error: `Unsupported asset or network: ${body.asset || body.network}` });
+        return;
+    }
+
+    // Referral codes are only registered from chat (REDEEM_CODE): this route is unauthenticated
+    const userId = await service.getDatabase().resolveAccount(body.user);
+    const settled = await service.settleAuthorization(body.payload, requirements, userId);
+    if (!settled.success) {
+        res.status(402).json({ success: false, error: settled.error });
+        return;
+    }
+    res.status(200).json({
+        success: true,
+        transaction: settled.transaction,
+        plan: settled.plan,
+        creditsAdded: settled.creditsAdded,
+    });
+};
+
+// Reports which schema migrations have been applied to the x402 database
+export const schemaStatusHandler = async (_req: RouteRequest, res: RouteResponse, runtime: IAgentRuntime) => {
+    const service = runtime.getService<X402Service>('x402');
+    if (!service) {
+        res.status(503).json({ error: 'x402 service not available' });
+        return;
+    }
+    res.status(200).json(await service.getDatabase().getSchemaStatus());
+};
@@ -0,0 +1,407 @@
+import type {
+    Memory,
+    Action,
+    IAgentRuntime,
+    State,
+    HandlerCallback,
+    ActionResult,
+    RouteRequest,
+    RouteResponse,
+} from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import crypto from 'crypto';
+import { CONFIG } from './config';
+import { MESSAGE_CACHE_TTL, extractUserId, getMessageKey } from './messages';
+import type { X402Service } from './service';
+import type { AdminRouteHandler } from './admin-routes';
+import { getAdminTargetUser } from './admin-routes';
+
+// ============================================
+// Account Linking
+// ============================================
+// A user links platform accounts with a one-time code (issued on one platform, sent from the other)
+// or by signing in with a wallet (SIWE). The sender's account merges into the code issuer's (or the
+// wallet's) account, so every linked platform sees one balance.
+// Chat commands: "連携コード" / "link code", "連携 <コード>" / "link <code>", "ウォレット連携 [0x...]" /
+// "link wallet [0x...]", "署名 0x..." / "signature 0x...", "連携解除" / "unlink".
+
+export type LinkCodeKind = 'code' | 'wallet';
+
+export type LinkCode = {
+    code_hash: string;
+    kind: LinkCodeKind;
+    identity_id: string;
+    account_id: string;
+    address: string | null;
+    message: string | null;
+    created_at: string;
+    expires_at: string;
+    used_at: string | null;
+};
+
+export type WalletRecord = {
+    address: string;
+    chain_id: number | null;
+    verified_at: string;
+    last_sign_in_at: string;
+};
+
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LINK_CODE_REGEX = /^\/?(?:連携|link)\s*[:：]?\s*([A-HJ-NP-Z2-9]{4})-?([A-HJ-NP-Z2-9]{4})$/i;
+const WALLET_LINK_REGEX = /(?:ウォレット連携|ウォレットログイン|^\/?link\s+wallet\b|^\/?wallet\s+login\b)\s*[:：]?\s*(0x[a-fA-F0-9]{40})?/i;
+const SIGNATURE_REGEX = /^\/?(?:署名|signature|sign)\s*[:：]?\s*(0x[a-fA-F0-9]{130})$/i;
+
+type AccountLinkCommand =
+    | { command: 'issue' | 'unlink' }
+    | { command: 'wallet'; address?: string }
+    | { command: 'redeem'; code: string }
+    | { command: 'signature'; signature: string };
+
+type AccountLinkResult =
+    | { command: 'issue'; code: string; expiresAt: Date }
+    | { command: 'wallet'; url?: string; message?: string; expiresAt?: Date }
+    | { command: 'redeem'; success: boolean; alreadyLinked?: boolean }
+    | { command: 'signature'; success: boolean; address?: string; error?: string }
+    | { command: 'unlink'; result: 'unlinked' | 'primary' | 'not_linked' };
+
+export function getAccountLinkCommand(message: Memory): AccountLinkCommand | null {
+    const text = (message.content.text || '').trim();
+    const textLower = text.toLowerCase();
+    if (textLower.includes('連携解除') || /^\/?unlink\b/.test(textLower)) return { command: 'unlink' };
+    const walletMatch = text.match(WALLET_LINK_REGEX);
+    if (walletMatch) return { command: 'wallet', address: walletMatch[1] };
+    const signatureMatch = text.match(SIGNATURE_REGEX);
+    if (signatureMatch) return { command: 'signature', signature: signatureMatch[1] };
+    if (textLower.includes('連携コード') || /^\/?link\s+code\b/.test(textLower)) return { command: 'issue' };
+    const match = text.match(LINK_CODE_REGEX);
+    return match ? { command: 'redeem', code: `${match[1]}-${match[2]}`.toUpperCase() } : null;
+}
+
+export function generateLinkCode(): string {
+    const chars = Array.from({ length: 8 }, () => LINK_CODE_ALPHABET[crypto.randomInt(LINK_CODE_ALPHABET.length)]);
+    return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+// Codes and wallet nonces are stored hashed; codes are compared without case or dash
+export function hashLinkCode(code: string): string {
+    return crypto.createHash('sha256').update(code.replace(/-/g, '').toUpperCase()).digest('hex');
+}
+
+export function getWalletIdentity(address: string): string {
+    return `wallet:${address.toLowerCase()}`;
+}
+
+// Session tokens are random, so a plain hash is enough to keep them out of the database
+export function hashSessionToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// ============================================
+// Sign-In With Ethereum (EIP-4361)
+// ============================================
+type SiweMessage = {
+    domain: string;
+    address: string;
+    statement?: string;
+    uri: string;
+    version: string;
+    chainId: number;
+    nonce: string;
+    issuedAt: string;
+    expirationTime?: string;
+    notBefore?: string;
+    requestId?: string;
+    resources?: string[];
+};
+
+const SIWE_HEADER = ' wants you to sign in with your Ethereum account:';
+export const SIWE_STATEMENT = 'x402 のアカウントにこのウォレットを連携します。このウォレットからの支払いはアカウントに付与されます。';
+
+export function buildSiweMessage(siwe: SiweMessage): string {
+    const lines = [`${siwe.domain}${SIWE_HEADER}`, siwe.address, ''];
+    if (siwe.statement) lines.push(siwe.statement);
+    lines.push(
+        '',
+        `URI: ${siwe.uri}`,
+        `Version: ${siwe.version}`,
+        `Chain ID: ${siwe.chainId}`,
+        `Nonce: ${siwe.nonce}`,
+        `Issued At: ${siwe.issuedAt}`
+    );
+    if (siwe.expirationTime) lines.push(`Expiration Time: ${siwe.expirationTime}`);
+    if (siwe.notBefore) lines.push(`Not Before: ${siwe.notBefore}`);
+    if (siwe.requestId) lines.push(`Request ID: ${siwe.requestId}`);
+    if (siwe.resources?.length) lines.push('Resources:', ...siwe.resources.map(resource => `- ${resource}`));
+    return lines.join('\n');
+}
+
+// Returns null for anything that is not a well-formed EIP-4361 message
+export function parseSiweMessage(text: string): SiweMessage | null {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const header = lines[0]?.match(/^(?:[a-zA-Z][a-zA-Z0-9+.-]*:\/\/)?(\S+) wants you to sign in with your Ethereum account:$/);
+    const address = lines[1];
+    if (!header || !address || !ethers.isAddress(address) || lines[2] !== '') return null;
+
+    let index = 3;
+    let statement: string | undefined;
+    if (lines[index] !== '') statement = lines[index++];
+    if (lines[index++] !== '') return null;
+
+    const fields = new Map<string, string>();
+    let resources: string[] | undefined;
+    for (; index < lines.length; index++) {
+        if (lines[index] === 'Resources:') {
+            resources = lines.slice(index + 1).map(line => line.replace(/^- /, ''));
+            break;
+        }
+        const field = lines[index].match(/^([A-Za-z ]+): (.+)$/);
+        if (!field || fields.has(field[1])) return null;
+        fields.set(field[1], field[2]);
+    }
+
+    const uri = fields.get('URI');
+    const version = fields.get('Version');
+    const chainId = Number(fields.get('Chain ID'));
+    const nonce = fields.get('Nonce');
+    const issuedAt = fields.get('Issued At');
+    if (!uri || version !== '1' || !Number.isInteger(chainId) || !nonce || !/^[a-zA-Z0-9]{8,}$/.test(nonce) || !issuedAt) return null;
+
+    return {
+        domain: header[1],
+        address,
+        statement,
+        uri,
+        version,
+        chainId,
+        nonce,
+        issuedAt,
+        expirationTime: fields.get('Expiration Time'),
+        notBefore: fields.get('Not Before'),
+        requestId: fields.get('Request ID'),
+        resources,
+    };
+}
+
+// Dliza and Coo both see the command; the first one runs it and both answer with the same result
+const accountLinkResults = new Map<string, { result: Promise<AccountLinkResult>; timestamp: number }>();
+
+function handleAccountLinkMessage(service: X402Service, message: Memory, command: AccountLinkCommand): Promise<AccountLinkResult> {
+    const cacheKey = getMessageKey(message);
+    const cached = accountLinkResults.get(cacheKey);
+    if (cached) return cached.result;
+
+    const identityId = extractUserId(message);
+    let result: Promise<AccountLinkResult>;
+    if (command.command === 'issue') {
+        result = service.issueLinkCode(identityId).then(issued => ({ command: 'issue', ...issued }));
+    } else if (command.command === 'wallet') {
+        result = service.requestWalletLink(identityId, command.address).then(request => ({ command: 'wallet', ...request }));
+    } else if (command.command === 'signature') {
+        result = service.completeWalletSignIn(identityId, command.signature).then(signedIn => ({ command: 'signature', ...signedIn }));
+    } else if (command.command === 'redeem') {
+        result = service.redeemLinkCode(identityId, command.code).then(redeemed => ({ command: 'redeem', ...redeemed }));
+    } else {
+        result = service.unlinkIdentity(identityId).then(unlinked => ({ command: 'unlink', result: unlinked }));
+    }
+    for (const [entryKey, entry] of accountLinkResults) {
+        if (entry.timestamp < Date.now() - MESSAGE_CACHE_TTL) accountLinkResults.delete(entryKey);
+    }
+    accountLinkResults.set(cacheKey, { result, timestamp: Date.now() });
+    return result;
+}
+
+function formatAccountLinkResult(result: AccountLinkResult): string {
+    const formatExpiry = (date: Date) => date.toLocaleTimeString('ja-JP', { timeZone: CONFIG.TIMEZONE, hour: '2-digit', minute: '2-digit' });
+    switch (result.command) {
+        case 'issue':
+            return `🔗 **アカウント連携コード**: \`${result.code}\`
+
+連携したい別のアプリ（Telegram / Discord / Web）で「連携 ${result.code}」と送信してください。
+そのアカウントのクレジットと Pro はこのアカウントにまとめられます。
+
+⏰ 有効期限: ${formatExpiry(result.expiresAt)}（1回のみ使用可能）
+⚠️ このコードは他の人に教えないでください`;
+        case 'wallet':
+            if (!result.message || !result.url || !result.expiresAt) {
+                return `👛 **ウォレットでサインイン (SIWE)**
+
+連携するウォレットのアドレスを指定して「ウォレット連携 0x（アドレス）」と送信してください。
+署名はそのアドレスのウォレットでのみ受け付けます。`;
+            }
+            return `👛 **ウォレットでサインイン (SIWE)**
+
+👉 <a href="${result.url}">連携ページへ</a>
+
+ページで署名するか、ウォレットで次のメッセージに署名し（personal_sign）、「署名 0x...」と送信してください：
+
+\`\`\`
+${result.message}
+\`\`\`
+
+署名が確認されると、同じウォレットを連携したアプリ同士で残高が共有され、このウォレットからの送金は自動的にあなたのアカウントに付与されます。
+⏰ 有効期限: ${formatExpiry(result.expiresAt)}（このアドレスのウォレットのみ）`;
+        case 'signature':
+            if (!result.success) {
+                return `❌ 署名を確認できませんでした（${result.error || '不明なエラー'}）。「ウォレット連携 0x（アドレス）」からやり直してください。`;
+            }
+            return `✅ ウォレット \`${result.address}\` でサインインしました。
+このウォレットからの送金は自動的にあなたのアカウントに付与され、同じウォレットでサインインしたアプリ同士で残高が共有されます。`;
+        case 'redeem':
+            if (!result.success) {
+                return '❌ 連携コードが正しくないか、有効期限が切れています。元のアプリで「連携コード」と送信して新しいコードを発行してください。';
+            }
+            return result.alreadyLinked
+                ? '✅ このアカウントはすでに連携済みです。'
+                : '✅ アカウントを連携しました。残高は連携先のアカウントにまとめられました。「ステータス」で確認できます。';
+        case 'unlink':
+            if (result.result === 'unlinked') {
+                return '🔓 このアプリの連携を解除しました。残高は連携先のアカウントに残ります。';
+            }
+            if (result.result === 'primary') {
+                return 'ℹ️ このアカウントは連携の元になっているため解除できません。連携を解除したい別のアプリで「連携解除」と送信してください。';
+            }
+            return 'ℹ️ このアカウントは他のアプリと連携されていません。';
+    }
+}
+
+// Account Link Action - issues or redeems a link code, or starts a wallet link
+export const linkAccountAction: Action = {
+    name: 'LINK_ACCOUNT',
+    similes: ['連携コード', '連携', 'ウォレット連携', '署名', 'link code', 'link wallet', 'SIGN_IN_WITH_ETHEREUM'],
+    description: 'Links this chat account with the user\'s account on another platform (one-time code or Sign-In With Ethereum) so they share one balance and payments from the wallet are credited automatically',
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        const agentName = runtime.character?.name || 'unknown';
+        if (agentName !== 'Dliza' && agentName !== 'Coo') {
+            return false;
+        }
+        const command = getAccountLinkCommand(message);
+        return !!command && command.command !== 'unlink';
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        const command = getAccountLinkCommand(message);
+        if (!service || !command) return { success: false };
+
+        const result = await handleAccountLinkMessage(service, message, command);
+        await callback({
+            text: formatAccountLinkResult(result),
+            source: message.content.source,
+        });
+        return { success: result.command !== 'redeem' || result.success };
+    },
+    examples: []
+};
+
+// Account Unlink Action
+export const unlinkAccountAction: Action = {
+    name: 'UNLINK_ACCOUNT',
+    similes: ['連携解除', 'unlink'],
+    description: 'Unlinks this chat account from the account it shares a balance with',
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        const agentName = runtime.character?.name || 'unknown';
+        if (agentName !== 'Dliza' && agentName !== 'Coo') {
+            return false;
+        }
+        return getAccountLinkCommand(message)?.command === 'unlink';
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        if (!service) return { success: false };
+
+        const result = await handleAccountLinkMessage(service, message, { command: 'unlink' });
+        await callback({
+            text: formatAccountLinkResult(result),
+            source: message.content.source,
+        });
+        return { success: true };
+    },
+    examples: []
+};
+
+// ============================================
+// Sign-In With Ethereum (payment page endpoints)
+// ============================================
+// Payment page /link screen: the SIWE message to sign for a sign-in request started in chat
+// Query: ?address=0x...&chainId=8453
+export const siweMessageHandler = async (req: RouteRequest, res: RouteResponse, runtime: IAgentRuntime) => {
+    const service = runtime.getService<X402Service>('x402');
+    if (!service) {
+        res.status(503).json({ error: 'x402 service not available' });
+        return;
+    }
+    const nonce = req.params?.nonce || '';
+    const address = typeof req.query?.address === 'string' ? req.query.address : '';
+    const chainId = typeof req.query?.chainId === 'string' ? parseInt(req.query.chainId, 10) : CONFIG.SIWE_CHAIN_ID;
+    if (chainId !== CONFIG.SIWE_CHAIN_ID) {
+        res.status(400).json({ error: `Unsupported chain: sign in on chain ${CONFIG.SIWE_CHAIN_ID}` });
+        return;
+    }
+    const message = nonce && address ? await service.getSiweMessage(nonce, address, chainId) : null;
+    if (!message) {
+        res.status(404).json({ error: 'Unknown or expired sign-in request' });
+        return;
+    }
+    res.status(200).json({ message });
+};
+
+// Body: { message, signature } - signature is personal_sign over the SIWE message above
+export const siweSignInHandler = async (req: RouteRequest, res: RouteResponse, runtime: IAgentRuntime) => {
+    const service = runtime.getService<X402Service>('x402');
+    if (!service) {
+        res.status(503).json({ error: 'x402 service not available' });
+        return;
+    }
+    const body = (req.body || {}) as { message?: unknown; signature?: unknown };
+    if (typeof body.message !== 'string' || typeof body.signature !== 'string') {
+        res.status(400).json({ error: 'message and signature are required' });
+        return;
+    }
+    const signedIn = await service.signInWithEthereum(body.message, body.signature);
+    if (!signedIn.success || !signedIn.address) {
+        res.status(400).json({ success: false, error: signedIn.error });
+        return;
+    }
+    const session = await service.openWalletSession(signedIn.address);
+    res.status(200).json({ success: true, address: signedIn.address, sessionToken: session.token, expiresAt: session.expiresAt.toISOString() });
+};
+
+// ============================================
+// Admin REST API (accounts)
+// ============================================
+// Body: { into } - moves the user's credits, Pro and linked identities into another account
+export const adminMergeUserHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const userId = await getAdminTargetUser(req, res, db);
+    if (!userId) return;
+    const target = (req.body as { into?: unknown } | undefined)?.into;
+    const intoId = typeof target === 'string' ? await db.resolveAccount(target) : '';
+    if (!intoId || !(await db.getUser(intoId))) {
+        res.status(404).json({ error: `Unknown user: ${target}` });
+        return;
+    }
+    if (intoId === userId) {
+        res.status(409).json({ error: 'Both ids already belong to the same account' });
+        return;
+    }
+    await db.mergeAccounts(userId, intoId, 'admin', { reason: `admin:${actor}` });
+    logger.info(`[X402_ADMIN] Merged ${userId} into ${intoId}`);
+    res.status(200).json({ success: true, status: await db.getUserStatus(intoId), identities: await db.getLinkedIdentities(intoId) });
+};
@@ -0,0 +1,66 @@
+import type { Plugin, ModelEventPayload, RunEventPayload } from '@elizaos/core';
+import { EventType, logger } from '@elizaos/core';
+import { CONFIG } from './config';
+import { PAYMENT_ASSETS } from './assets';
+import { adminLoginAction, adminLogoutAction, x402AdminLoginEvaluator } from './admin-auth';
+import { linkAccountAction, unlinkAccountAction } from './identity';
+import { redeemCodeAction } from './coupons';
+import { requestRefundAction } from './refunds';
+import { X402Service } from './service';
+import { X402ClientService } from './client';
+import { TxPolicyService, reviewTransactionAction } from './tx-policy';
+import { statusAction, checkPaymentAction, verifyPaymentAction } from './actions';
+import { x402Provider, x402PaymentGateEvaluator, x402MeteringEvaluator } from './gate';
+import { x402Routes } from './routes';
+
+// ============================================
+// Plugin Export
+// ============================================
+export const x402Plugin: Plugin = {
+    name: 'x402',
+    description: 'x402 Payment Gating with SQLite persistence (Free/Daily/Pro) - using sql.js (pure JS)',
+    services: [X402Service, X402ClientService, TxPolicyService],
+    // CRITICAL: checkPaymentAction MUST be FIRST to intercept ALL messages when no access
+    // This ensures it takes priority over bootstrap's RESPOND action
+    actions: [checkPaymentAction, statusAction, verifyPaymentAction, adminLoginAction, adminLogoutAction, linkAccountAction, unlinkAccountAction, requestRefundAction, redeemCodeAction, reviewTransactionAction],
+    providers: [x402Provider],
+    evaluators: [x402AdminLoginEvaluator, x402PaymentGateEvaluator, x402MeteringEvaluator],
+    routes: x402Routes,
+    events: {
+        [EventType.MODEL_USED]: [
+            async (payload: ModelEventPayload) => {
+                payload.runtime.getService<X402Service>('x402')?.recordModelUsage(payload.tokens?.total || 0);
+            },
+        ],
+        // Runs that end without the metering evaluator (errors, timeouts) release their reservation
+        [EventType.RUN_ENDED]: [
+            async (payload: RunEventPayload) => {
+                await payload.runtime.getService<X402Service>('x402')?.endMeteredRun(payload.messageId);
+            },
+        ],
+        [EventType.RUN_TIMEOUT]: [
+            async (payload: RunEventPayload) => {
+                await payload.runtime.getService<X402Service>('x402')?.endMeteredRun(payload.messageId);
+            },
+        ],
+    },
+    init: async (_config: Record<string, string>) => {
+        logger.info(`*** X402 Plugin Initialized (sql.js - ${PAYMENT_ASSETS.length} payment assets) ***`);
+        logger.info(`*** Free: ${CONFIG.FREE_DAILY_LIMIT}/day ***`);
+        for (const asset of PAYMENT_ASSETS) {
+            logger.info(`*** ${asset.symbol} (${asset.networkName}): Single ${asset.prices.single} | Daily ${asset.prices.daily} | Pro ${asset.prices.pro}/${CONFIG.PRO_DURATION_DAYS}days ***`);
+        }
+    },
+};
+
+export default x402Plugin;
+
+export { X402Service } from './service';
+export { X402ClientService, type X402FetchOptions } from './client';
+export {
+    TxPolicyService,
+    type AgentTransactionRequest,
+    type AgentTransactionResult,
+    type AgentTransactionSentHandler,
+} from './tx-policy';
+export type { X402Facilitator } from './eip3009';
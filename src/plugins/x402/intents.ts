@@ -0,0 +1,97 @@
+import { ethers } from 'ethers';
+import { CONFIG } from './config';
+import type { PaymentPlan } from './types';
+import type { PaymentAsset } from './assets';
+
+// ============================================
+// Payment Intents
+// ============================================
+export type PaymentIntent = {
+    id: string;
+    user_id: string;
+    asset_id: string;
+    currency: string;
+    suffix: number;
+    reference: string | null;
+    payer: string | null;
+    status: 'open' | 'fulfilled' | 'expired';
+    tx_hash: string | null;
+    room_id: string | null;
+    agent_id: string | null;
+    source: string | null;
+    coupon_redemption_id: string | null;
+    discount_percent: number;
+    discount_plan: PaymentPlan | null;
+    expires_at: string;
+    fulfilled_at: string | null;
+    created_at: string;
+};
+
+// Where the payment prompt was shown, so the watcher can notify the user there
+export type PaymentIntentOrigin = {
+    roomId?: string;
+    agentId?: string;
+    source?: string;
+};
+
+const INTENT_CLOCK_SKEW_MS = 60 * 1000;
+
+// Suffix unit is amountStep / (MAX_SUFFIX + 1), e.g. 0.000001 USDC or 0.0001 JPYC. Prices are
+// multiples of amountStep, so the suffix can always be recovered with a modulo and never changes the plan.
+function getIntentSuffixUnit(asset: PaymentAsset): bigint {
+    return ethers.parseUnits(asset.amountStep, asset.decimals) / BigInt(CONFIG.PAYMENT_INTENT_MAX_SUFFIX + 1);
+}
+
+export function getIntentSuffixOf(asset: PaymentAsset, amountUnits: bigint): number {
+    const unit = getIntentSuffixUnit(asset);
+    const modulus = unit * BigInt(CONFIG.PAYMENT_INTENT_MAX_SUFFIX + 1);
+    const remainder = amountUnits % modulus;
+    if (remainder % unit !== 0n) return -1;
+    return Number(remainder / unit);
+}
+
+// Solana Pay style: a transaction carrying the intent's reference key (or memo) identifies it directly;
+// otherwise the amount suffix has to match
+export function intentMatchesTransfer(
+    intent: PaymentIntent,
+    asset: PaymentAsset,
+    amountUnits: bigint,
+    blockTimestamp: number,
+    payer: string,
+    references: string[] = []
+): boolean {
+    if (intent.asset_id !== asset.id) return false;
+    const referenced = !!intent.reference && references.includes(intent.reference);
+    if (!referenced && getIntentSuffixOf(asset, amountUnits) !== intent.suffix) return false;
+    if (intent.payer && intent.payer !== payer.toLowerCase()) return false;
+    const paidAt = blockTimestamp * 1000;
+    const createdAt = new Date(intent.created_at).getTime() - INTENT_CLOCK_SKEW_MS;
+    const expiresAt = new Date(intent.expires_at).getTime();
+    return paidAt >= createdAt && paidAt <= expiresAt;
+}
+
+// Exact amount the user must send for a given plan price
+export function getIntentAmount(asset: PaymentAsset, price: number, intent: PaymentIntent): string {
+    const units = ethers.parseUnits(String(price), asset.decimals) + BigInt(intent.suffix) * getIntentSuffixUnit(asset);
+    return ethers.formatUnits(units, asset.decimals);
+}
+
+// Plan prices after a coupon discount (for one plan, or every plan when `plan` is null). Rounded
+// down to amountStep so the intent suffix can still be recovered from the amount.
+export function getDiscountedPrices(asset: PaymentAsset, percent: number, plan: PaymentPlan | null): PaymentAsset['prices'] {
+    if (!(percent > 0)) return asset.prices;
+    const step = ethers.parseUnits(asset.amountStep, asset.decimals);
+    const discount = (price: number) => {
+        const units = ethers.parseUnits(String(price), asset.decimals) * BigInt(100 - percent) / 100n;
+        return Number(ethers.formatUnits(units - units % step, asset.decimals));
+    };
+    const prices = { ...asset.prices };
+    for (const key of ['single', 'daily', 'pro'] as const) {
+        if (!plan || plan === key) prices[key] = discount(asset.prices[key]);
+    }
+    return prices;
+}
+
+export function getIntentPrices(asset: PaymentAsset, intent: PaymentIntent | null): PaymentAsset['prices'] {
+    return intent?.coupon_redemption_id ? getDiscountedPrices(asset, intent.discount_percent, intent.discount_plan) : asset.prices;
+}
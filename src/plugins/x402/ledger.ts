@@ -0,0 +1,273 @@
+import { logger } from '@elizaos/core';
+import { CONFIG } from './config';
+import type { PaymentPlan } from './types';
+import type { PaymentAsset } from './assets';
+import { CREDIT_MILLIS, toCreditMillis, formatCredits } from './pricing';
+import { getDiscountedPrices, getIntentPrices } from './intents';
+import type { X402Database } from './database';
+import type { PaymentVerificationResult } from './verification';
+import { getPlanFlags, getPaymentPlan } from './verification';
+import type { AdminRouteHandler } from './admin-routes';
+
+// ============================================
+// Billing Ledger
+// ============================================
+// Billing ledger: one append-only row per balance change.
+// credits: delta is the change in thousandths of a credit and balance_after the balance left (same unit).
+// daily_free / daily_plan: -1 per query, and a reset gives the used queries back (balance_after = queries left).
+// pro: delta is days added or taken back; expires_at is the term end afterwards.
+export type LedgerAccount = 'credits' | 'daily_free' | 'daily_plan' | 'pro';
+
+// What caused a balance change (stored on the ledger entry)
+export type LedgerContext = {
+    agentId?: string;
+    messageId?: string;
+    paymentTxHash?: string;
+    reason?: string;
+};
+
+export type LedgerEntry = {
+    id: number;
+    user_id: string;
+    account: LedgerAccount;
+    delta: number;
+    balance_after: number | null;
+    expires_at: string | null;
+    reason: string;
+    agent_id: string | null;
+    message_id: string | null;
+    payment_tx_hash: string | null;
+    created_at: string;
+};
+
+export type LedgerMismatch = {
+    user_id: string;
+    account: LedgerAccount;
+    ledger: number | string | null;
+    actual: number | string | null;
+};
+
+// ============================================
+// Payment Grants (what a verified payment credits)
+// ============================================
+// Grant the plan a payment bought: pro > daily > single. Credits are fractional, so nothing paid is
+// lost: a single payment buys amount / single price credits, and whatever a Pro or Daily payment
+// paid beyond the plan price is added as credits too. A coupon discount lowers the plan's price.
+// The first payment of a referred user (of at least REFERRAL_MIN_PLAN) also rewards the referrer.
+export async function grantPaymentPlan(
+    db: X402Database,
+    userId: string,
+    plan: PaymentPlan,
+    asset: PaymentAsset,
+    amount: number,
+    context: LedgerContext,
+    discountPercent: number = 0
+): Promise<{ plan: PaymentPlan; creditsAdded: number }> {
+    const entry: LedgerContext = { reason: 'payment', ...context };
+    const prices = getDiscountedPrices(asset, discountPercent, plan);
+    let creditedAmount = amount;
+    let creditPrice = prices.single;
+    if (plan === 'pro') {
+        await db.grantPro(userId, CONFIG.PRO_DURATION_DAYS, entry);
+        creditedAmount = amount - prices.pro;
+        creditPrice = asset.prices.single;
+    } else if (plan === 'daily') {
+        await db.grantDaily(userId, entry);
+        creditedAmount = amount - prices.daily;
+        creditPrice = asset.prices.single;
+    }
+
+    const creditsAdded = toCreditMillis(creditedAmount / creditPrice) / CREDIT_MILLIS;
+    if (creditsAdded > 0) {
+        await db.addCredits(userId, creditsAdded, plan === 'single' ? entry : { ...entry, reason: 'payment_surplus' });
+    }
+    if (context.paymentTxHash) {
+        const referrerId = await db.rewardReferral(userId, context.paymentTxHash, plan);
+        if (referrerId) logger.info(`[X402] Referral reward for ${referrerId} (first payment of ${userId})`);
+    }
+    return { plan, creditsAdded: Math.max(creditsAdded, 0) };
+}
+
+// The plan a payment bought, at the discounted prices when the matched intent carries a coupon
+// discount for that plan that no other payment has used
+async function getPaymentPricing(
+    db: X402Database,
+    txHash: string,
+    result: PaymentVerificationResult,
+    intentId?: string
+): Promise<{ plan: PaymentPlan; discountPercent: number }> {
+    const plan = getPaymentPlan(result);
+    const intent = intentId ? await db.getIntent(intentId) : null;
+    if (!intent?.coupon_redemption_id || !result.asset) return { plan, discountPercent: 0 };
+
+    const prices = getIntentPrices(result.asset, intent);
+    const discountedPlan = getPaymentPlan({ ...result, ...getPlanFlags(result.asset, result.amount || 0, prices) });
+    if (intent.discount_plan && intent.discount_plan !== discountedPlan) return { plan, discountPercent: 0 };
+    // Already used by another payment: the amount still counts, at list prices
+    if (!(await db.useCouponDiscount(intent.coupon_redemption_id, txHash))) return { plan, discountPercent: 0 };
+    return { plan: discountedPlan, discountPercent: intent.discount_percent };
+}
+
+// Record a verified payment as confirmed and grant the matching plan.
+// Returns null when the tx hash was already recorded, so it is never granted twice.
+export async function applyVerifiedPayment(
+    db: X402Database,
+    userId: string,
+    txHash: string,
+    result: PaymentVerificationResult,
+    intentId?: string
+): Promise<{ plan: PaymentPlan; creditsAdded: number } | null> {
+    const amount = result.amount || 0;
+    const asset = result.asset!;
+    const { plan, discountPercent } = await getPaymentPricing(db, txHash, result, intentId);
+    const recorded = await db.recordPayment(txHash, userId, amount, `${plan}_${asset.symbol}`, {
+        status: 'confirmed',
+        asset,
+        intentId,
+        blockHash: result.blockHash,
+        confirmations: result.confirmations,
+        payer: result.payer,
+        discountPercent,
+    });
+    if (!recorded) return null;
+
+    const granted = await grantPaymentPlan(db, userId, plan, asset, amount, { paymentTxHash: txHash }, discountPercent);
+    await db.setPaymentCreditsGranted(txHash, granted.creditsAdded);
+    return granted;
+}
+
+// Record a payment that is not yet deep enough; it is credited when promoted
+async function recordPendingPayment(
+    db: X402Database,
+    userId: string,
+    txHash: string,
+    result: PaymentVerificationResult,
+    intentId?: string
+): Promise<PaymentPlan | null> {
+    const { plan, discountPercent } = await getPaymentPricing(db, txHash, result, intentId);
+    const recorded = await db.recordPayment(txHash, userId, result.amount || 0, `${plan}_${result.asset?.symbol}`, {
+        status: 'pending',
+        asset: result.asset,
+        intentId,
+        blockHash: result.blockHash,
+        confirmations: result.confirmations,
+        payer: result.payer,
+        discountPercent,
+    });
+    return recorded ? plan : null;
+}
+
+// Credits only once the transfer is deep enough; shallower payments are stored as pending.
+// Returns null when the tx hash was already recorded.
+export async function creditOrHoldPayment(
+    db: X402Database,
+    userId: string,
+    txHash: string,
+    result: PaymentVerificationResult,
+    intentId?: string
+): Promise<{ pending: boolean; plan: PaymentPlan; creditsAdded: number; confirmations: number; required: number } | null> {
+    const required = result.asset ? result.asset.minConfirmations : 0;
+    const confirmations = result.confirmations ?? required;
+    if (confirmations < required) {
+        const plan = await recordPendingPayment(db, userId, txHash, result, intentId);
+        if (!plan) return null;
+        logger.info(`[X402] Payment ${txHash} pending (${confirmations}/${required} confirmations)`);
+        return { pending: true, plan, creditsAdded: 0, confirmations, required };
+    }
+    const applied = await applyVerifiedPayment(db, userId, txHash, result, intentId);
+    if (!applied) return null;
+    return { pending: false, ...applied, confirmations, required };
+}
+
+export function formatPendingPaymentText(amount: number, asset: PaymentAsset, confirmations: number, required: number): string {
+    return `⏳ お支払いを検出しました。ブロック確認中 (${confirmations}/${required})\n\n💰 金額: ${amount} ${asset.symbol}\n確認が完了すると自動的に付与されます。`;
+}
+
+export function formatPaymentCreditedText(
+    amount: number,
+    asset: PaymentAsset,
+    plan: PaymentPlan,
+    creditsAdded: number
+): string {
+    const currency = asset.symbol;
+    const networkName = asset.networkName;
+    // Overpayment beyond the Pro or Daily price is kept as credits
+    const surplus = creditsAdded > 0 ? `\n🎫 差額分のクレジット: ${formatCredits(creditsAdded)} 付与` : '';
+    if (plan === 'pro') {
+        return `✅ **Pro会員になりました！**\n\n💰 受領額: ${amount} ${currency} (${networkName})\n⭐ ${CONFIG.PRO_DURATION_DAYS}日間無制限でご利用いただけます（期間中の更新は現在の有効期限から延長されます）${surplus}\n\nご質問をどうぞ！`;
+    }
+    if (plan === 'daily') {
+        return `✅ **Dailyプランが有効になりました！**\n\n💰 受領額: ${amount} ${currency} (${networkName})\n📅 本日中 ${CONFIG.DAILY_QUERY_LIMIT}回までご利用いただけます${surplus}\n\nご質問をどうぞ！`;
+    }
+    return `✅ お支払いを確認しました！\n\n💰 受領額: ${amount} ${currency} (${networkName})\n🎫 クレジット: ${formatCredits(creditsAdded)} 付与\n\nご質問をどうぞ！`;
+}
+
+// Credit a verified transfer only when it matches one of the user's open payment intents,
+// so a tx hash copied from a block explorer cannot be redeemed by someone else
+export async function redeemVerifiedPayment(
+    db: X402Database,
+    userId: string,
+    txHash: string,
+    result: PaymentVerificationResult
+): Promise<{
+    success: boolean;
+    error?: string;
+    plan?: PaymentPlan;
+    creditsAdded?: number;
+    pending?: boolean;
+    confirmations?: number;
+    required?: number;
+}> {
+    if (!result.verified || !result.asset || !result.payer) {
+        return { success: false, error: result.error || '支払いを確認できませんでした' };
+    }
+
+    if (result.amountUnits === undefined || result.blockTimestamp === undefined) {
+        return { success: false, error: '送金内容を確認できませんでした' };
+    }
+    let intentId: string | undefined;
+    const intent = await db.findMatchingIntent(
+        userId, result.asset, result.amountUnits, result.blockTimestamp, result.payer, result.references
+    );
+    // Transfers from a wallet the user signed in with (SIWE) need no intent
+    if (intent) {
+        intentId = intent.id;
+    } else if (await db.getVerifiedWalletAccount(result.payer) === userId) {
+        logger.info(`[X402] Crediting ${txHash} to ${userId} from verified wallet ${result.payer}`);
+    } else {
+        logger.warn(`[X402] No matching payment intent for ${userId}: ${txHash}`);
+        return {
+            success: false,
+            error: 'このトランザクションはあなたの支払い依頼（金額・送金元・有効期限）と一致しません',
+        };
+    }
+
+    const credited = await creditOrHoldPayment(db, userId, txHash, result, intentId);
+    if (!credited) {
+        return { success: false, error: 'このトランザクションは既に使用されています' };
+    }
+    if (intentId) {
+        await db.fulfillIntent(intentId, txHash, result.payer);
+    }
+    return { success: true, ...credited };
+}
+
+// ============================================
+// Admin REST API (ledger)
+// ============================================
+// Query: user, tx (source payment), limit - newest first
+export const adminListLedgerHandler: AdminRouteHandler = async (req, res, db) => {
+    const query = (req.query || {}) as Record<string, string | undefined>;
+    const entries = await db.findLedgerEntries({
+        userId: query.user,
+        paymentTxHash: query.tx,
+        limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    });
+    res.status(200).json({ entries });
+};
+
+// Query: user (optional) - lists every account whose ledger disagrees with the users table
+export const adminReconcileLedgerHandler: AdminRouteHandler = async (req, res, db) => {
+    const mismatches = await db.reconcileLedger((req.query as Record<string, string | undefined> | undefined)?.user);
+    res.status(200).json({ balanced: mismatches.length === 0, mismatches });
+};
@@ -0,0 +1,115 @@
+import type { Memory } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { X402Database } from './database';
+
+// ============================================
+// Messages (metered bills, user and sender identity)
+// ============================================
+// One agent's usage while answering: LLM tokens and what it paid upstream APIs
+type MeteredAgent = { messageId?: string; tokens: number; upstream: { name: string; credits: number }[] };
+
+// Messages answered on reserved access in this process, waiting for their capture (shared by the
+// agents answering; whether the message was already charged lives in its message claim)
+export const meteredBills = new Map<string, {
+    userId: string;
+    consumeType: string;
+    reservationId: string;
+    captured: boolean;
+    settled: boolean;
+    agents: Map<string, MeteredAgent>; // agents still answering
+    timestamp: number;
+}>();
+
+// Configuration for message cache
+export const MESSAGE_CACHE_TTL = 2 * 60 * 1000;  // 2 minutes (reduced from 5)
+const MESSAGE_CACHE_CLEANUP_INTERVAL = 30 * 1000;  // 30 seconds (reduced from 60)
+
+// Clean up old entries
+setInterval(() => {
+    const cutoff = Date.now() - MESSAGE_CACHE_TTL;
+
+    // A bill whose response never arrived is dropped, returning whatever it still holds
+    for (const [key, bill] of meteredBills.entries()) {
+        if (bill.timestamp < cutoff) {
+            meteredBills.delete(key);
+            if (!bill.settled) {
+                X402Database.getInstance().settleReservation(bill.reservationId, bill.captured ? 'captured' : 'released')
+                    .catch(error => logger.error('[X402_METER] Failed to settle a stale reservation:', error));
+            }
+        }
+    }
+}, MESSAGE_CACHE_CLEANUP_INTERVAL);
+
+export function extractUserId(message: Memory): string {
+    // Log ALL possible user ID sources for debugging
+    const sources = {
+        userId: (message as any).userId,
+        authorId: (message as any).authorId,
+        author_id: (message as any).author_id,
+        contentSourceId: (message.content as any)?.sourceId,
+        metadataSourceId: (message.metadata as any)?.sourceId,
+        rawSenderId: (message.metadata as any)?.raw?.senderId,
+        roomId: message.roomId,
+        entityId: (message as any).entityId,
+        agentId: (message as any).agentId,
+    };
+
+    logger.info(`[X402] extractUserId - All sources: ${JSON.stringify(sources)}`);
+
+    // IMPORTANT: For web client (REST API), the userId field is actually the messageId
+    // which changes every message. We need to use roomId as the persistent identifier.
+    // Only use authorId/author_id if they look like actual user identifiers (not UUIDs that change)
+
+    // For Telegram/Discord, use the actual sender ID from metadata
+    const telegramSenderId = sources.rawSenderId;
+    if (telegramSenderId && typeof telegramSenderId === 'number') {
+        logger.info(`[X402] extractUserId: Using Telegram senderId: ${telegramSenderId}`);
+        return String(telegramSenderId);
+    }
+
+    // For platforms with stable author ID (not web client)
+    const stableAuthorId = sources.authorId || sources.author_id;
+    if (stableAuthorId && sources.roomId && stableAuthorId !== sources.roomId) {
+        // Check if authorId is different from roomId - might be a real user ID
+        // But for web client, authorId often equals messageId, so skip if it looks like a UUID
+        const isUuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+        if (!isUuidPattern.test(stableAuthorId)) {
+            logger.info(`[X402] extractUserId: Using stable authorId: ${stableAuthorId}`);
+            return stableAuthorId;
+        }
+    }
+
+    // For web client: use roomId as the persistent identifier
+    // This represents the conversation/chat session
+    if (sources.roomId) {
+        logger.info(`[X402] extractUserId: Using roomId as persistent identifier: ${sources.roomId}`);
+        return sources.roomId;
+    }
+
+    // Fallback
+    const fallback = sources.userId || sources.entityId || 'unknown';
+    logger.info(`[X402] extractUserId: Using fallback: ${fallback}`);
+    return fallback;
+}
+
+// Key shared by every agent and process that sees the same inbound message: the platform's message id
+// when the connector provides one (each agent stores its own memory id), otherwise the memory id
+export function getMessageKey(message: Memory): string {
+    const raw = (message.metadata as any)?.raw;
+    const platformId = raw?.messageId ?? raw?.message_id ?? (message as any).messageId;
+    if (platformId) {
+        return `${message.content?.source || 'platform'}:${platformId}`;
+    }
+    return `memory:${message.id || `${message.roomId}:${message.createdAt}`}`;
+}
+
+// The platform's own id for the sender (Telegram sender, Discord author). Null for the web client,
+// whose only stable id is the room: a room can be shared or made up, so it never holds admin rights.
+export function getSenderIdentity(message: Memory): string | null {
+    const senderId = (message.metadata as any)?.raw?.senderId;
+    if (typeof senderId === 'number') return String(senderId);
+    const authorId = (message as any).authorId || (message as any).author_id;
+    const isUuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (authorId && authorId !== message.roomId && !isUuidPattern.test(authorId)) return String(authorId);
+    return null;
+}
@@ -0,0 +1,654 @@
+import { logger } from '@elizaos/core';
+import { CONFIG } from './config';
+import { CREDIT_MILLIS } from './pricing';
+import type { X402StoreDialect, X402StoreExecutor, X402Store } from './store';
+
+// ============================================
+// Schema Migrations
+// ============================================
+// Each migration runs once, in version order, inside a transaction together with its
+// schema_migrations row. Never edit a released migration; append a new one instead.
+interface X402MigrationContext {
+    dialect: X402StoreDialect;
+    run(sql: string, params?: unknown[]): Promise<number>;
+    // Skips columns that already exist (databases created before schema_migrations was introduced)
+    addColumn(table: string, column: string, definition: string): Promise<void>;
+}
+
+interface X402Migration {
+    version: number;
+    name: string;
+    up(ctx: X402MigrationContext): Promise<void>;
+}
+
+// Databases that predate versioning replay every migration, so these must stay idempotent
+// against the old ad-hoc schema (IF NOT EXISTS, addColumn, guarded backfills)
+const X402_MIGRATIONS: X402Migration[] = [
+    {
+        version: 1,
+        name: 'initial_schema',
+        async up({ dialect, run, addColumn }) {
+            const idColumn = dialect === 'postgres' ? 'SERIAL PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT';
+            const realType = dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+
+            await run(`
+                CREATE TABLE IF NOT EXISTS users (
+                    user_id TEXT PRIMARY KEY,
+                    is_admin INTEGER DEFAULT 0,
+                    is_pro INTEGER DEFAULT 0,
+                    pro_expires_at TEXT,
+                    is_daily INTEGER DEFAULT 0,
+                    daily_plan_expires_at TEXT,
+                    daily_plan_used INTEGER DEFAULT 0,
+                    credits INTEGER DEFAULT 0,
+                    daily_free_used INTEGER DEFAULT 0,
+                    daily_reset_date TEXT,
+                    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+            // The Daily plan columns were added after the first release
+            await addColumn('users', 'is_daily', 'INTEGER DEFAULT 0');
+            await addColumn('users', 'daily_plan_expires_at', 'TEXT');
+            await addColumn('users', 'daily_plan_used', 'INTEGER DEFAULT 0');
+
+            await run(`
+                CREATE TABLE IF NOT EXISTS payments (
+                    id ${idColumn},
+                    tx_hash TEXT UNIQUE,
+                    user_id TEXT,
+                    amount ${realType},
+                    payment_type TEXT,
+                    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_payments_user ON payments(user_id)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_payments_tx ON payments(tx_hash)`);
+        },
+    },
+    {
+        version: 2,
+        name: 'payment_intents',
+        async up({ run, addColumn }) {
+            await run(`
+                CREATE TABLE IF NOT EXISTS payment_intents (
+                    id TEXT PRIMARY KEY,
+                    user_id TEXT NOT NULL,
+                    currency TEXT NOT NULL,
+                    suffix INTEGER NOT NULL,
+                    payer TEXT,
+                    status TEXT DEFAULT 'open',
+                    tx_hash TEXT,
+                    expires_at TEXT NOT NULL,
+                    fulfilled_at TEXT,
+                    created_at TEXT NOT NULL
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_intents_user ON payment_intents(user_id, currency, status)`);
+            // Where the intent was quoted, so automatic credits can be announced there
+            await addColumn('payment_intents', 'room_id', 'TEXT');
+            await addColumn('payment_intents', 'agent_id', 'TEXT');
+            await addColumn('payment_intents', 'source', 'TEXT');
+            await addColumn('payments', 'network', 'TEXT');
+            await addColumn('payments', 'intent_id', 'TEXT');
+        },
+    },
+    {
+        version: 3,
+        name: 'payment_confirmations',
+        async up({ run, addColumn }) {
+            await addColumn('payments', 'status', `TEXT DEFAULT 'confirmed'`);
+            await addColumn('payments', 'block_hash', 'TEXT');
+            await addColumn('payments', 'confirmations', 'INTEGER DEFAULT 0');
+            await addColumn('payments', 'credits_granted', 'INTEGER DEFAULT 0');
+            await addColumn('payments', 'confirmed_at', 'TEXT');
+            await run(`
+                CREATE TABLE IF NOT EXISTS watcher_cursors (
+                    network TEXT PRIMARY KEY,
+                    last_block INTEGER NOT NULL,
+                    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+        },
+    },
+    {
+        version: 4,
+        name: 'payment_assets',
+        async up({ run, addColumn }) {
+            await addColumn('payments', 'asset_id', 'TEXT');
+            await run(`UPDATE payments SET asset_id = 'base-usdc' WHERE asset_id IS NULL AND network = 'base'`);
+            await run(`UPDATE payments SET asset_id = 'polygon-jpyc' WHERE asset_id IS NULL AND network = 'polygon'`);
+
+            await addColumn('payment_intents', 'asset_id', 'TEXT');
+            await run(`UPDATE payment_intents SET asset_id = 'base-usdc' WHERE asset_id IS NULL AND currency = 'USDC'`);
+            await run(`UPDATE payment_intents SET asset_id = 'polygon-jpyc' WHERE asset_id IS NULL AND currency = 'JPYC'`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_intents_asset ON payment_intents(asset_id, suffix, status)`);
+
+            // Cursors are keyed by payment asset id (each asset is scanned separately)
+            await run(`UPDATE watcher_cursors SET network = 'base-usdc' WHERE network = 'base'`);
+            await run(`UPDATE watcher_cursors SET network = 'polygon-jpyc' WHERE network = 'polygon'`);
+        },
+    },
+    {
+        version: 5,
+        name: 'solana_references',
+        async up({ addColumn }) {
+            await addColumn('payment_intents', 'reference', 'TEXT');
+        },
+    },
+    {
+        version: 6,
+        name: 'pro_notifications',
+        async up({ addColumn }) {
+            // The pro_expires_at each notice was sent for (a renewal starts a new term)
+            await addColumn('users', 'pro_reminded_for', 'TEXT');
+            await addColumn('users', 'pro_expiry_notified_for', 'TEXT');
+        },
+    },
+    {
+        version: 7,
+        name: 'admin_credentials',
+        async up({ run }) {
+            // Named admin keys: only a salted scrypt hash is stored
+            await run(`
+                CREATE TABLE IF NOT EXISTS admin_credentials (
+                    name TEXT PRIMARY KEY,
+                    scopes TEXT NOT NULL,
+                    salt TEXT NOT NULL,
+                    key_hash TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    revoked_at TEXT
+                )
+            `);
+            await run(`
+                CREATE TABLE IF NOT EXISTS admin_sessions (
+                    id TEXT PRIMARY KEY,
+                    credential_name TEXT NOT NULL,
+                    subject TEXT NOT NULL,
+                    scopes TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    expires_at TEXT NOT NULL,
+                    revoked_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_admin_sessions_subject ON admin_sessions(subject, expires_at)`);
+            await run(`
+                CREATE TABLE IF NOT EXISTS admin_login_attempts (
+                    subject TEXT PRIMARY KEY,
+                    failures INTEGER NOT NULL DEFAULT 0,
+                    locked_until TEXT,
+                    updated_at TEXT
+                )
+            `);
+            // Expiring sessions replace the permanent is_admin flag
+            await run(`UPDATE users SET is_admin = 0 WHERE is_admin = 1`);
+        },
+    },
+    {
+        version: 8,
+        name: 'billing_ledger',
+        async up({ dialect, run }) {
+            const idColumn = dialect === 'postgres' ? 'SERIAL PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT';
+            await run(`
+                CREATE TABLE IF NOT EXISTS ledger (
+                    id ${idColumn},
+                    user_id TEXT NOT NULL,
+                    account TEXT NOT NULL,
+                    delta INTEGER NOT NULL,
+                    balance_after INTEGER,
+                    expires_at TEXT,
+                    reason TEXT NOT NULL,
+                    agent_id TEXT,
+                    message_id TEXT,
+                    payment_tx_hash TEXT,
+                    created_at TEXT NOT NULL
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_ledger_user ON ledger(user_id, account)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_ledger_payment ON ledger(payment_tx_hash)`);
+
+            // Append-only: entries are never corrected in place, only offset by new entries
+            if (dialect === 'postgres') {
+                await run(`
+                    CREATE OR REPLACE FUNCTION ${CONFIG.STORE_SCHEMA}.ledger_append_only() RETURNS trigger AS $$
+                    BEGIN
+                        RAISE EXCEPTION 'x402 billing entries are append-only';
+                    END;
+                    $$ LANGUAGE plpgsql
+                `);
+                await run(`
+                    CREATE TRIGGER ledger_append_only BEFORE UPDATE OR DELETE ON ledger
+                    FOR EACH ROW EXECUTE FUNCTION ${CONFIG.STORE_SCHEMA}.ledger_append_only()
+                `);
+            } else {
+                for (const operation of ['UPDATE', 'DELETE']) {
+                    await run(`
+                        CREATE TRIGGER IF NOT EXISTS ledger_no_${operation.toLowerCase()} BEFORE ${operation} ON ledger
+                        BEGIN SELECT RAISE(ABORT, 'x402 billing entries are append-only'); END
+                    `);
+                }
+            }
+
+            // Opening balances, so existing users reconcile from the start
+            const now = new Date().toISOString();
+            await run(
+                `INSERT INTO ledger (user_id, account, delta, balance_after, reason, created_at)
+                 SELECT user_id, 'credits', credits, credits, 'opening_balance', '${now}' FROM users WHERE credits <> 0`
+            );
+            await run(
+                `INSERT INTO ledger (user_id, account, delta, balance_after, reason, created_at)
+                 SELECT user_id, 'daily_free', -daily_free_used, ${CONFIG.FREE_DAILY_LIMIT} - daily_free_used, 'opening_balance', '${now}'
+                 FROM users WHERE daily_free_used <> 0`
+            );
+            await run(
+                `INSERT INTO ledger (user_id, account, delta, balance_after, expires_at, reason, created_at)
+                 SELECT user_id, 'daily_plan', -daily_plan_used, ${CONFIG.DAILY_QUERY_LIMIT} - daily_plan_used, daily_plan_expires_at, 'opening_balance', '${now}'
+                 FROM users WHERE is_daily = 1 OR daily_plan_used <> 0`
+            );
+            await run(
+                `INSERT INTO ledger (user_id, account, delta, expires_at, reason, created_at)
+                 SELECT user_id, 'pro', 0, pro_expires_at, 'opening_balance', '${now}' FROM users WHERE pro_expires_at IS NOT NULL`
+            );
+        },
+    },
+    {
+        version: 9,
+        name: 'metered_credits',
+        async up({ run, addColumn }) {
+            // Balances move to thousandths of a credit; the whole-credit `credits` column is no longer written
+            await addColumn('users', 'credit_millis', 'INTEGER DEFAULT 0');
+            await run(`UPDATE users SET credit_millis = credits * ${CREDIT_MILLIS} WHERE credits <> 0`);
+            // The ledger is append-only, so earlier whole-credit entries are scaled by one conversion entry
+            await run(
+                `INSERT INTO ledger (user_id, account, delta, balance_after, reason, created_at)
+                 SELECT l.user_id, 'credits', SUM(l.delta) * ${CREDIT_MILLIS - 1}, MAX(u.credit_millis), 'credit_millis_conversion', '${new Date().toISOString()}'
+                 FROM ledger l JOIN users u ON u.user_id = l.user_id
+                 WHERE l.account = 'credits' GROUP BY l.user_id HAVING SUM(l.delta) <> 0`
+            );
+        },
+    },
+    {
+        version: 10,
+        name: 'access_reservations',
+        async up({ run, addColumn }) {
+            // Access held for messages still being answered (checked together with the balance)
+            await addColumn('users', 'credit_millis_held', 'INTEGER DEFAULT 0');
+            await addColumn('users', 'daily_free_held', 'INTEGER DEFAULT 0');
+            await addColumn('users', 'daily_plan_held', 'INTEGER DEFAULT 0');
+            await addColumn('users', 'held_at', 'TEXT');
+            await run(`
+                CREATE TABLE IF NOT EXISTS access_reservations (
+                    id TEXT PRIMARY KEY,
+                    user_id TEXT NOT NULL,
+                    consume_type TEXT NOT NULL,
+                    held INTEGER NOT NULL,
+                    message_key TEXT,
+                    agent_id TEXT,
+                    status TEXT NOT NULL DEFAULT 'reserved',
+                    created_at TEXT NOT NULL,
+                    expires_at TEXT NOT NULL,
+                    settled_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_reservations_status ON access_reservations(status, expires_at)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_reservations_user ON access_reservations(user_id, status)`);
+        },
+    },
+    {
+        version: 11,
+        name: 'message_claims',
+        async up({ run }) {
+            // The gate's decision per inbound message, shared by every agent and process that sees it
+            await run(`
+                CREATE TABLE IF NOT EXISTS message_claims (
+                    message_key TEXT PRIMARY KEY,
+                    user_id TEXT NOT NULL,
+                    agent_id TEXT,
+                    status TEXT NOT NULL DEFAULT 'pending',
+                    access_type TEXT,
+                    consume_type TEXT,
+                    reservation_id TEXT,
+                    captured INTEGER DEFAULT 0,
+                    created_at TEXT NOT NULL
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_message_claims_created ON message_claims(created_at)`);
+        },
+    },
+    {
+        version: 12,
+        name: 'identities',
+        async up({ run }) {
+            // Platform identities linked to a canonical account (unlinked identities are their own account)
+            await run(`
+                CREATE TABLE IF NOT EXISTS identities (
+                    identity_id TEXT PRIMARY KEY,
+                    account_id TEXT NOT NULL,
+                    linked_via TEXT NOT NULL,
+                    linked_at TEXT NOT NULL
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_identities_account ON identities(account_id)`);
+            // One-time link codes and wallet signature requests (stored hashed)
+            await run(`
+                CREATE TABLE IF NOT EXISTS link_codes (
+                    code_hash TEXT PRIMARY KEY,
+                    kind TEXT NOT NULL,
+                    identity_id TEXT NOT NULL,
+                    account_id TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    expires_at TEXT NOT NULL,
+                    used_at TEXT
+                )
+            `);
+        },
+    },
+    {
+        version: 13,
+        name: 'wallets',
+        async up({ run, addColumn }) {
+            // Wallets proven with a SIWE signature (their account is the `wallet:<address>` identity's)
+            await run(`
+                CREATE TABLE IF NOT EXISTS wallets (
+                    address TEXT PRIMARY KEY,
+                    chain_id INTEGER,
+                    verified_at TEXT NOT NULL,
+                    last_sign_in_at TEXT NOT NULL
+                )
+            `);
+            // Chat sign-ins bind the request to one address and keep the exact message to sign
+            await addColumn('link_codes', 'address', 'TEXT');
+            await addColumn('link_codes', 'message', 'TEXT');
+        },
+    },
+    {
+        version: 14,
+        name: 'refunds',
+        async up({ dialect, run, addColumn }) {
+            // Payments grant fractional credits now, and refunds go back to the paying address
+            const realType = dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+            await addColumn('payments', 'credits_granted_millis', 'INTEGER DEFAULT 0');
+            await run(`UPDATE payments SET credits_granted_millis = credits_granted * ${CREDIT_MILLIS} WHERE credits_granted <> 0`);
+            await addColumn('payments', 'payer', 'TEXT');
+            await run(`UPDATE payments SET payer = (SELECT i.payer FROM payment_intents i WHERE i.id = intent_id) WHERE intent_id IS NOT NULL`);
+            await run(`
+                CREATE TABLE IF NOT EXISTS refunds (
+                    id TEXT PRIMARY KEY,
+                    tx_hash TEXT NOT NULL,
+                    user_id TEXT NOT NULL,
+                    asset_id TEXT,
+                    amount ${realType} NOT NULL,
+                    to_address TEXT,
+                    reason TEXT,
+                    request_key TEXT UNIQUE,
+                    status TEXT NOT NULL DEFAULT 'requested',
+                    requested_by TEXT NOT NULL,
+                    reviewed_by TEXT,
+                    transfer TEXT,
+                    refund_tx_hash TEXT,
+                    error TEXT,
+                    created_at TEXT NOT NULL,
+                    reviewed_at TEXT,
+                    sent_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status, created_at)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_refunds_tx ON refunds(tx_hash)`);
+        },
+    },
+    {
+        version: 15,
+        name: 'coupons',
+        async up({ dialect, run, addColumn }) {
+            const realType = dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+            // Promo codes: a credit grant, or a discount on the next payment for one plan (or all)
+            await run(`
+                CREATE TABLE IF NOT EXISTS coupons (
+                    code TEXT PRIMARY KEY,
+                    credits ${realType} DEFAULT 0,
+                    discount_percent INTEGER DEFAULT 0,
+                    plan TEXT,
+                    max_redemptions INTEGER,
+                    redemptions INTEGER DEFAULT 0,
+                    per_user_limit INTEGER DEFAULT 1,
+                    expires_at TEXT,
+                    created_by TEXT,
+                    created_at TEXT NOT NULL,
+                    disabled_at TEXT
+                )
+            `);
+            await run(`
+                CREATE TABLE IF NOT EXISTS coupon_redemptions (
+                    id TEXT PRIMARY KEY,
+                    code TEXT NOT NULL,
+                    user_id TEXT NOT NULL,
+                    credits ${realType} DEFAULT 0,
+                    discount_percent INTEGER DEFAULT 0,
+                    plan TEXT,
+                    status TEXT NOT NULL,
+                    request_key TEXT UNIQUE,
+                    tx_hash TEXT,
+                    created_at TEXT NOT NULL,
+                    used_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user ON coupon_redemptions(user_id, status)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_code ON coupon_redemptions(code, user_id)`);
+            // Intents quote the discounted prices; the payment keeps the discount it was priced with
+            await addColumn('payment_intents', 'coupon_redemption_id', 'TEXT');
+            await addColumn('payment_intents', 'discount_percent', 'INTEGER DEFAULT 0');
+            await addColumn('payment_intents', 'discount_plan', 'TEXT');
+            await addColumn('payments', 'discount_percent', 'INTEGER DEFAULT 0');
+
+            // One referral code per account; a referee is referred once, rewarded on the first payment
+            await run(`
+                CREATE TABLE IF NOT EXISTS referral_codes (
+                    code TEXT PRIMARY KEY,
+                    user_id TEXT NOT NULL UNIQUE,
+                    created_at TEXT NOT NULL
+                )
+            `);
+            await run(`
+                CREATE TABLE IF NOT EXISTS referrals (
+                    referee_id TEXT PRIMARY KEY,
+                    referrer_id TEXT NOT NULL,
+                    code TEXT NOT NULL,
+                    status TEXT NOT NULL DEFAULT 'pending',
+                    reward_credits ${realType} DEFAULT 0,
+                    payment_tx_hash TEXT,
+                    created_at TEXT NOT NULL,
+                    rewarded_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_referrals_referrer ON referrals(referrer_id)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_referrals_payment ON referrals(payment_tx_hash)`);
+        },
+    },
+    {
+        version: 16,
+        name: 'client_spends',
+        async up({ dialect, run }) {
+            const realType = dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+            // Payments the agents made to upstream x402 APIs
+            await run(`
+                CREATE TABLE IF NOT EXISTS client_spends (
+                    id TEXT PRIMARY KEY,
+                    agent_id TEXT NOT NULL,
+                    business_date TEXT NOT NULL,
+                    url TEXT NOT NULL,
+                    domain TEXT NOT NULL,
+                    asset_id TEXT NOT NULL,
+                    amount ${realType} NOT NULL,
+                    credits ${realType} DEFAULT 0,
+                    user_id TEXT,
+                    message_id TEXT,
+                    status TEXT NOT NULL DEFAULT 'reserved',
+                    tx_hash TEXT,
+                    error TEXT,
+                    created_at TEXT NOT NULL,
+                    settled_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_client_spends_agent ON client_spends(agent_id, business_date)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_client_spends_user ON client_spends(user_id)`);
+        },
+    },
+    {
+        version: 17,
+        name: 'agent_transactions',
+        async up({ dialect, run }) {
+            const realType = dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+            // On-chain writes submitted to the transaction policy, and its persisted switches
+            await run(`
+                CREATE TABLE IF NOT EXISTS agent_transactions (
+                    id TEXT PRIMARY KEY,
+                    agent_id TEXT NOT NULL,
+                    kind TEXT NOT NULL,
+                    signer TEXT NOT NULL,
+                    chain_id INTEGER NOT NULL,
+                    to_address TEXT NOT NULL,
+                    data TEXT NOT NULL,
+                    value TEXT NOT NULL DEFAULT '0',
+                    gas_limit TEXT NOT NULL,
+                    cost ${realType} NOT NULL,
+                    description TEXT NOT NULL,
+                    requested_by TEXT,
+                    status TEXT NOT NULL,
+                    tx_hash TEXT,
+                    error TEXT,
+                    reviewed_by TEXT,
+                    business_date TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    expires_at TEXT,
+                    reviewed_at TEXT,
+                    sent_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_agent_transactions_status ON agent_transactions(status, created_at)`);
+            await run(`CREATE INDEX IF NOT EXISTS idx_agent_transactions_agent ON agent_transactions(agent_id, business_date)`);
+            await run(`
+                CREATE TABLE IF NOT EXISTS tx_policy_settings (
+                    key TEXT PRIMARY KEY,
+                    value TEXT NOT NULL,
+                    updated_by TEXT,
+                    updated_at TEXT NOT NULL
+                )
+            `);
+        },
+    },
+    {
+        version: 18,
+        name: 'usage_daily',
+        async up({ run }) {
+            // Messages each agent handled per user, business day and access type (message claims are
+            // deleted after a day and the ledger has no Pro or admin usage, so analytics need their own rollup)
+            await run(`
+                CREATE TABLE IF NOT EXISTS usage_daily (
+                    business_date TEXT NOT NULL,
+                    user_id TEXT NOT NULL,
+                    agent_id TEXT NOT NULL,
+                    access_type TEXT NOT NULL,
+                    messages INTEGER NOT NULL DEFAULT 0,
+                    PRIMARY KEY (business_date, user_id, agent_id, access_type)
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_usage_daily_agent ON usage_daily(agent_id, business_date)`);
+        },
+    },
+    {
+        version: 19,
+        name: 'wallet_sessions',
+        async up({ run }) {
+            // HTTP API sessions opened by a SIWE sign-in; only the token's hash is stored
+            await run(`
+                CREATE TABLE IF NOT EXISTS wallet_sessions (
+                    token_hash TEXT PRIMARY KEY,
+                    identity_id TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    expires_at TEXT NOT NULL,
+                    revoked_at TEXT
+                )
+            `);
+            await run(`CREATE INDEX IF NOT EXISTS idx_wallet_sessions_identity ON wallet_sessions(identity_id)`);
+        },
+    },
+    {
+        version: 20,
+        name: 'end_room_admin_sessions',
+        async up({ run }) {
+            // Logins used to open a session on the room as well; end them all so admins log in again as themselves
+            await run(`UPDATE admin_sessions SET revoked_at = ? WHERE revoked_at IS NULL`, [new Date().toISOString()]);
+        },
+    },
+    {
+        version: 21,
+        name: 'payment_recheck_misses',
+        async up({ addColumn }) {
+            // Rechecks of a credited payment that found no receipt, and the chain head at the last one
+            await addColumn('payments', 'recheck_misses', 'INTEGER DEFAULT 0');
+            await addColumn('payments', 'recheck_missed_block', 'INTEGER');
+        },
+    },
+    {
+        version: 22,
+        name: 'admin_credential_key_ids',
+        async up({ addColumn, run }) {
+            // Public id embedded in new keys so a bearer key is looked up before its hash is computed
+            // (keys saved before this have none and are accepted in chat only until rotated)
+            await addColumn('admin_credentials', 'key_id', 'TEXT');
+            await run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_credentials_key_id ON admin_credentials(key_id)`);
+        },
+    },
+];
+
+export const X402_SCHEMA_VERSION = X402_MIGRATIONS[X402_MIGRATIONS.length - 1].version;
+
+async function columnExists(tx: X402StoreExecutor, dialect: X402StoreDialect, table: string, column: string): Promise<boolean> {
+    if (dialect === 'postgres') {
+        const rows = await tx.all(
+            `SELECT 1 FROM information_schema.columns WHERE table_schema = ? AND table_name = ? AND column_name = ?`,
+            [CONFIG.STORE_SCHEMA, table, column]
+        );
+        return rows.length > 0;
+    }
+    const rows = await tx.all<{ name: string }>(`PRAGMA table_info(${table})`);
+    return rows.some(row => row.name === column);
+}
+
+export async function getAppliedMigrations(store: X402StoreExecutor): Promise<{ version: number; name: string; applied_at: string }[]> {
+    return store.all(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version`);
+}
+
+export async function runX402Migrations(store: X402Store): Promise<void> {
+    await store.run(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+
+    const applied = new Set((await getAppliedMigrations(store)).map(row => Number(row.version)));
+    for (const migration of X402_MIGRATIONS) {
+        if (applied.has(migration.version)) continue;
+
+        await store.transaction(async tx => {
+            // Claiming the version first makes a concurrent replica wait, then skip it
+            const claimed = await tx.run(
+                `INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?) ON CONFLICT(version) DO NOTHING`,
+                [migration.version, migration.name, new Date().toISOString()]
+            );
+            if (claimed === 0) return;
+
+            await migration.up({
+                dialect: store.dialect,
+                run: (sql, params) => tx.run(sql, params),
+                addColumn: async (table, column, definition) => {
+                    if (await columnExists(tx, store.dialect, table, column)) return;
+                    await tx.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+                },
+            });
+            logger.info(`[X402DB] Applied migration ${migration.version} (${migration.name})`);
+        });
+    }
+}
@@ -0,0 +1,146 @@
+import type { IAgentRuntime, Memory, Media } from '@elizaos/core';
+import { ContentType } from '@elizaos/core';
+import { ethers } from 'ethers';
+import path from 'path';
+import fs from 'fs';
+import QRCode from 'qrcode';
+import { CONFIG } from './config';
+import type { PaymentPlan } from './types';
+import type { PaymentAsset } from './assets';
+import { PAYMENT_ASSETS, getAssetReceiver } from './assets';
+import type { PaymentIntent, PaymentIntentOrigin } from './intents';
+import { getIntentAmount, getIntentPrices } from './intents';
+import type { X402Database } from './database';
+
+// ============================================
+// Payment Prompt (quotes, payment links, QR codes)
+// ============================================
+type PaymentQuoteEntry = {
+    asset: PaymentAsset;
+    intent: PaymentIntent;
+    single: string;
+    daily: string;
+    pro: string;
+};
+
+export type PaymentQuote = {
+    entries: PaymentQuoteEntry[];
+    expiresStr: string;
+};
+
+export function getIntentOrigin(runtime: IAgentRuntime, message: Memory): PaymentIntentOrigin {
+    return {
+        roomId: message.roomId,
+        agentId: runtime.agentId,
+        source: message.content?.source,
+    };
+}
+
+// Exact per-user amounts for the payment prompt, backed by open payment intents
+export async function getPaymentQuote(db: X402Database, userId: string, origin?: PaymentIntentOrigin): Promise<PaymentQuote | null> {
+    const entries: PaymentQuoteEntry[] = [];
+    for (const asset of PAYMENT_ASSETS) {
+        const intent = await db.getOrCreateIntent(userId, asset, undefined, origin);
+        if (!intent) continue;
+        const prices = getIntentPrices(asset, intent);
+        entries.push({
+            asset,
+            intent,
+            single: getIntentAmount(asset, prices.single, intent),
+            daily: getIntentAmount(asset, prices.daily, intent),
+            pro: getIntentAmount(asset, prices.pro, intent),
+        });
+    }
+    if (entries.length === 0) return null;
+
+    const expiresAt = Math.min(...entries.map(entry => new Date(entry.intent.expires_at).getTime()));
+    return {
+        entries,
+        expiresStr: new Date(expiresAt).toLocaleTimeString('ja-JP', { timeZone: CONFIG.TIMEZONE, hour: '2-digit', minute: '2-digit', timeZoneName: 'short' }),
+    };
+}
+
+export function getAssetLabel(asset: PaymentAsset): string {
+    return `${asset.icon || '🔹'} ${asset.networkName} (${asset.symbol})`;
+}
+
+// One summary line per accepted asset: exact intent amounts when known, list prices otherwise
+export function formatPlanSummaryLines(quote: PaymentQuote | null): string {
+    return PAYMENT_ASSETS.map(asset => {
+        const entry = quote?.entries.find(e => e.asset.id === asset.id);
+        const single = entry?.single ?? asset.prices.single;
+        const daily = entry?.daily ?? asset.prices.daily;
+        const pro = entry?.pro ?? asset.prices.pro;
+        return `${getAssetLabel(asset)}: 単発 ${single} ${asset.symbol} | Daily ${daily} ${asset.symbol} | Pro ${pro} ${asset.symbol}`;
+    }).join('\n');
+}
+
+// Payment page link for one plan of a quote entry (the intent id and exact amount identify the user)
+export function getPaymentLink(userId: string, entry: PaymentQuoteEntry, plan: PaymentPlan): string {
+    const PAYMENT_PAGE_URL = process.env.PAYMENT_PAGE_URL || 'https://x402payment.vercel.app';
+    const { asset, intent } = entry;
+    return `${PAYMENT_PAGE_URL}/pay?user=${encodeURIComponent(userId)}&asset=${asset.id}&currency=${asset.symbol.toLowerCase()}&plan=${plan}&amount=${entry[plan]}&ref=${intent.id}` +
+        (intent.reference ? `&reference=${intent.reference}` : '');
+}
+
+export const PLAN_LABELS: Record<PaymentPlan, string> = { single: '単発', daily: 'Daily', pro: 'Pro' };
+
+// EIP-681 ERC-20 transfer URI: wallets open it with the token, chain, receiver and exact intent amount filled in
+function getPaymentUri(entry: PaymentQuoteEntry, plan: PaymentPlan): string | null {
+    const { asset } = entry;
+    if (asset.chain === 'solana' || !asset.chainId) return null;
+    const units = ethers.parseUnits(entry[plan], asset.decimals);
+    return `ethereum:${asset.address}@${asset.chainId}/transfer?address=${getAssetReceiver(asset)}&uint256=${units}`;
+}
+
+// QR codes are files under DB_DIR/qr: Discord and Telegram upload attachments from a local path.
+// An intent's amounts never change, so its images are reused until the sweep removes them.
+export async function getPaymentQrAttachments(quote: PaymentQuote): Promise<Media[]> {
+    const plans = (['single', 'daily', 'pro'] as PaymentPlan[]).filter(plan => CONFIG.PAYMENT_QR_PLANS.includes(plan));
+    if (plans.length === 0) return [];
+
+    const dir = path.resolve(CONFIG.DB_DIR, 'qr');
+    await fs.promises.mkdir(dir, { recursive: true });
+    await removeExpiredQrFiles(dir);
+
+    const attachments: Media[] = [];
+    for (const entry of quote.entries) {
+        for (const plan of plans) {
+            const uri = getPaymentUri(entry, plan);
+            if (!uri) continue;
+            const file = path.join(dir, `${entry.intent.id}-${plan}.png`);
+            if (!fs.existsSync(file)) {
+                await QRCode.toFile(file, uri, { width: 360, margin: 2 });
+            }
+            attachments.push({
+                id: `${entry.intent.id}-${plan}`,
+                url: file,
+                title: `${entry.asset.id}-${plan}.png`,
+                description: `${PLAN_LABELS[plan]} ${entry[plan]} ${entry.asset.symbol} (${entry.asset.networkName})`,
+                text: uri,
+                source: 'x402',
+                contentType: ContentType.IMAGE,
+            });
+        }
+    }
+    return attachments;
+}
+
+// Images outlive their intent by one TTL at most
+async function removeExpiredQrFiles(dir: string): Promise<void> {
+    const cutoff = Date.now() - 2 * CONFIG.PAYMENT_INTENT_TTL_MINUTES * 60 * 1000;
+    for (const name of await fs.promises.readdir(dir)) {
+        const file = path.join(dir, name);
+        const stat = await fs.promises.stat(file).catch(() => null);
+        if (stat && stat.mtimeMs < cutoff) {
+            await fs.promises.unlink(file).catch(() => undefined);
+        }
+    }
+}
+
+// One Pro renewal link per accepted asset
+export function formatProRenewalLines(userId: string, quote: PaymentQuote): string {
+    return quote.entries
+        .map(entry => `👉 <a href="${getPaymentLink(userId, entry, 'pro')}">Pro更新 ${entry.pro} ${entry.asset.symbol} (${entry.asset.networkName})</a>`)
+        .join('\n');
+}
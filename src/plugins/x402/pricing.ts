@@ -0,0 +1,125 @@
+import type { Memory } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { CONFIG } from './config';
+
+// ============================================
+// Metered Pricing
+// ============================================
+// A message is charged after the response is sent: the prices of the actions the agent ran (REPLY is a
+// plain answer) plus, optionally, the LLM tokens it used. Credits are billed by that cost; the free tier
+// and the Daily plan count one query per billable message; Pro and admins are unlimited.
+const DEFAULT_ACTION_PRICES: Record<string, number> = {
+    REPLY: 1,
+    GET_JP_REGULATION: 1,
+    GET_DEFI_YIELD: 1,
+    WEB_SEARCH: 1,
+    GET_CRYPTO_NEWS: 0.5,
+    GET_EXCHANGE_INFO: 0.5,
+    GET_CRYPTO_PRICE: 0.25,
+    GET_GAS_PRICES: 0.25,
+    // Greetings, status and payment handling are free
+    NONE: 0,
+    IGNORE: 0,
+    CHECK_STATUS: 0,
+    CHECK_PAYMENT: 0,
+    VERIFY_PAYMENT: 0,
+    ADMIN_LOGIN: 0,
+    ADMIN_LOGOUT: 0,
+    LINK_ACCOUNT: 0,
+    UNLINK_ACCOUNT: 0,
+    REQUEST_REFUND: 0,
+    REDEEM_CODE: 0,
+    REVIEW_TRANSACTION: 0,
+};
+
+// Balances are stored in thousandths of a credit, so fractional prices stay exact
+export const CREDIT_MILLIS = 1000;
+
+// Greetings and thanks on their own are never billed
+const FREE_MESSAGE_REGEX = /^\s*(hi|hello|hey|gm|thanks|thank you|こんにちは|こんばんは|おはよう(ございます)?|ありがとう(ございます)?|よろしく(お願いします)?)[\s!！。.、〜~]*$/i;
+
+function loadActionPrices(): Record<string, number> {
+    if (!CONFIG.ACTION_PRICES) return DEFAULT_ACTION_PRICES;
+    try {
+        const overrides = JSON.parse(CONFIG.ACTION_PRICES) as Record<string, unknown>;
+        const prices = { ...DEFAULT_ACTION_PRICES };
+        for (const [action, price] of Object.entries(overrides)) {
+            if (typeof price !== 'number' || !(price >= 0)) {
+                throw new Error(`price of ${action} must be a non-negative number`);
+            }
+            prices[action.toUpperCase()] = price;
+        }
+        logger.info(`[X402] Action prices: ${JSON.stringify(prices)}`);
+        return prices;
+    } catch (error) {
+        logger.error('[X402] Invalid X402_ACTION_PRICES, using defaults:', error);
+        return DEFAULT_ACTION_PRICES;
+    }
+}
+
+const ACTION_PRICES: Record<string, number> = loadActionPrices();
+
+export function getActionPrice(action: string): number {
+    return ACTION_PRICES[action.toUpperCase()] ?? CONFIG.DEFAULT_ACTION_PRICE;
+}
+
+export function toCreditMillis(credits: number): number {
+    return Math.round(credits * CREDIT_MILLIS);
+}
+
+export function formatCredits(credits: number): string {
+    return String(Math.round(credits * CREDIT_MILLIS) / CREDIT_MILLIS);
+}
+
+export type MeteredCost = {
+    credits: number;
+    items: { name: string; credits: number }[];
+};
+
+// Cost of one answered message from the agent's responses (each action counted once) plus what
+// upstream x402 APIs charged while answering it
+export function getMeteredCost(
+    message: Memory,
+    responses: Memory[],
+    tokens: number,
+    upstream: { name: string; credits: number }[] = []
+): MeteredCost {
+    if (FREE_MESSAGE_REGEX.test(message.content?.text || '')) {
+        return { credits: 0, items: [] };
+    }
+
+    const actions = new Set<string>();
+    for (const response of responses) {
+        for (const action of response.content?.actions || []) {
+            actions.add(String(action).toUpperCase());
+        }
+        // A plain text answer without an action list is billed as REPLY
+        if (response.content?.text && !response.content?.actions?.length) {
+            actions.add('REPLY');
+        }
+    }
+
+    const items = [...actions].map(name => ({ name, credits: getActionPrice(name) }));
+    if (CONFIG.TOKEN_PRICE_PER_1K > 0 && tokens > 0 && items.some(item => item.credits > 0)) {
+        items.push({ name: `${tokens} tokens`, credits: tokens / 1000 * CONFIG.TOKEN_PRICE_PER_1K });
+    }
+    items.push(...upstream.map(item => ({ name: `upstream:${item.name}`, credits: item.credits })));
+    const credits = toCreditMillis(items.reduce((sum, item) => sum + item.credits, 0)) / CREDIT_MILLIS;
+    return { credits, items: items.filter(item => item.credits > 0) };
+}
+
+// Price list for CHECK_STATUS (free actions are left out)
+export function formatActionPriceLines(): string {
+    const lines = Object.entries(ACTION_PRICES)
+        .filter(([, price]) => price > 0)
+        .sort(([a, priceA], [b, priceB]) => (a === 'REPLY' ? -1 : b === 'REPLY' ? 1 : priceB - priceA))
+        .map(([action, price]) => action === 'REPLY'
+            ? `• 通常の回答 (REPLY): ${formatCredits(price)}`
+            : `• ${action}: +${formatCredits(price)}`);
+    lines.push(`• その他のアクション: +${formatCredits(CONFIG.DEFAULT_ACTION_PRICE)}`);
+    if (CONFIG.TOKEN_PRICE_PER_1K > 0) {
+        lines.push(`• LLMトークン: 1,000トークンごとに +${formatCredits(CONFIG.TOKEN_PRICE_PER_1K)}`);
+    }
+    lines.push('• あいさつ・ステータス確認・お支払い: 無料');
+    return lines.join('\n');
+}
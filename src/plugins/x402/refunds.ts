@@ -0,0 +1,216 @@
+import type { Memory, Action, IAgentRuntime, State, HandlerCallback, ActionResult } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import type { PaymentAsset } from './assets';
+import { getPaymentAsset } from './assets';
+import { extractUserId, getMessageKey } from './messages';
+import { SOLANA_SIGNATURE_REGEX } from './verification';
+import type { X402Service } from './service';
+import type { AdminRouteHandler } from './admin-routes';
+
+// ============================================
+// Refunds (queued by users or admins, approved by an admin)
+// ============================================
+// requested -> approved (grants taken back, transfer built) -> sent; or requested -> rejected
+export type RefundStatus = 'requested' | 'approved' | 'sent' | 'rejected';
+
+// An unsigned ERC-20 transfer returning the refund to the payer
+export type RefundTransfer = { chainId: number; to: string; data: string; value: string };
+
+export type RefundRecord = {
+    id: string;
+    tx_hash: string;
+    user_id: string;
+    asset_id: string | null;
+    amount: number;
+    to_address: string | null;
+    reason: string | null;
+    request_key: string | null;
+    status: RefundStatus;
+    requested_by: string;
+    reviewed_by: string | null;
+    transfer: string | null;
+    refund_tx_hash: string | null;
+    error: string | null;
+    created_at: string;
+    reviewed_at: string | null;
+    sent_at: string | null;
+};
+
+// Chat: "返金 <tx>" / "refund <tx>" queues a refund of what is left of the payment
+const REFUND_REQUEST_REGEX = new RegExp(`^\\/?(?:返金|refund)\\s*[:：]?\\s*(0x[a-fA-F0-9]{64}|${SOLANA_SIGNATURE_REGEX.source})\\s*(.*)$`, 'is');
+
+const ERC20_TRANSFER_ABI = ['function transfer(address to, uint256 value) returns (bool)'];
+
+export function getRefundRequest(message: Memory): { txHash: string; reason: string } | null {
+    const match = (message.content.text || '').trim().match(REFUND_REQUEST_REGEX);
+    return match ? { txHash: match[1], reason: match[2].trim() } : null;
+}
+
+// Amounts are stored as numbers; 9 decimals is below every price step
+function toRefundUnits(asset: PaymentAsset, amount: number): bigint {
+    return ethers.parseUnits(amount.toFixed(Math.min(asset.decimals, 9)), asset.decimals);
+}
+
+// The ERC-20 transfer returning the refund, ready to sign (EVM assets only)
+export function buildRefundTransfer(asset: PaymentAsset, to: string, amount: number): RefundTransfer | null {
+    if ((asset.chain || 'evm') !== 'evm' || !asset.chainId) return null;
+    return {
+        chainId: asset.chainId,
+        to: asset.address,
+        data: new ethers.Interface(ERC20_TRANSFER_ABI).encodeFunctionData('transfer', [ethers.getAddress(to), toRefundUnits(asset, amount)]),
+        value: '0',
+    };
+}
+
+function formatRefundRequestText(refund: RefundRecord): string {
+    const asset = refund.asset_id ? getPaymentAsset(refund.asset_id) : undefined;
+    const to = refund.to_address ? `送金元アドレス \`${refund.to_address.slice(0, 6)}…${refund.to_address.slice(-4)}\`` : '送金元アドレス';
+    return `🧾 **返金リクエストを受け付けました**
+
+💰 返金額: ${refund.amount} ${asset?.symbol || ''}
+管理者の確認後、${to} へ返金されます。
+⚠️ 返金が承認されると、この支払いで付与されたクレジット・プランは取り消されます。`;
+}
+
+// Refund Request Action: queues the refund for an admin to approve
+export const requestRefundAction: Action = {
+    name: 'REQUEST_REFUND',
+    similes: ['返金', 'refund'],
+    description: 'Queues a refund of one of the user\'s payments (by transaction hash) for an admin to approve',
+
+    validate: async (runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        const agentName = runtime.character?.name || 'unknown';
+        if (agentName !== 'Dliza' && agentName !== 'Coo') {
+            return false;
+        }
+        return !!getRefundRequest(message);
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        const request = getRefundRequest(message);
+        if (!service || !request) return { success: false };
+
+        const userId = await service.resolveUserId(message);
+        // Both agents see the message; the request key makes it one refund
+        const requested = await service.requestRefund({
+            txHash: request.txHash,
+            requestedBy: extractUserId(message),
+            reason: request.reason || undefined,
+            userId,
+            requestKey: `chat:${getMessageKey(message)}`,
+        });
+
+        let text: string;
+        if (requested.success && requested.refund) {
+            text = formatRefundRequestText(requested.refund);
+        } else if (requested.error === 'Unknown payment') {
+            text = '❌ この取引はあなたの支払いとして記録されていません。「ステータス」で支払い状況を確認してください。';
+        } else if (requested.error === 'Payment is already fully refunded') {
+            text = 'ℹ️ この支払いはすでに返金リクエスト済みです。管理者の確認をお待ちください。';
+        } else {
+            text = `❌ この支払いは返金できません（${requested.error}）。`;
+        }
+        await callback({ text, source: message.content.source });
+        return { success: requested.success };
+    },
+    examples: []
+};
+
+// ============================================
+// Admin REST API (refunds)
+// ============================================
+// Body: { amount?, reason?, to? } - queues a refund (default: whatever is left of the payment) for approval
+export const adminRefundPaymentHandler: AdminRouteHandler = async (req, res, _db, service, actor) => {
+    const body = (req.body || {}) as { amount?: unknown; reason?: unknown; to?: unknown };
+    const amount = body.amount === undefined ? undefined : Number(body.amount);
+    if (amount !== undefined && !(amount > 0)) {
+        res.status(400).json({ error: 'amount must be a positive number' });
+        return;
+    }
+    const requested = await service.requestRefund({
+        txHash: req.params?.tx || '',
+        requestedBy: `admin:${actor}`,
+        amount,
+        reason: typeof body.reason === 'string' ? body.reason : undefined,
+        to: typeof body.to === 'string' ? body.to : undefined,
+    });
+    if (!requested.success) {
+        res.status(requested.error === 'Unknown payment' ? 404 : 409).json({ error: requested.error });
+        return;
+    }
+    res.status(201).json({ success: true, refund: requested.refund });
+};
+
+// Query: status, user, tx, limit - newest first
+export const adminListRefundsHandler: AdminRouteHandler = async (req, res, db) => {
+    const query = (req.query || {}) as Record<string, string | undefined>;
+    const status = query.status as RefundStatus | undefined;
+    if (status && !['requested', 'approved', 'sent', 'rejected'].includes(status)) {
+        res.status(400).json({ error: `Unknown status: ${status}` });
+        return;
+    }
+    const refunds = await db.findRefunds({
+        status,
+        userId: query.user,
+        txHash: query.tx,
+        limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    });
+    res.status(200).json({ refunds });
+};
+
+// Body: { send? } - with send: true the transfer also goes out from X402_REFUND_PRIVATE_KEY
+export const adminApproveRefundHandler: AdminRouteHandler = async (req, res, _db, service, actor) => {
+    const send = (req.body as { send?: unknown } | undefined)?.send === true;
+    const approved = await service.approveRefund(req.params?.id || '', actor, send);
+    if (!approved.success) {
+        res.status(409).json({ error: approved.error });
+        return;
+    }
+    res.status(200).json({ success: true, refund: approved.refund, sendError: approved.error });
+};
+
+// Body: { reason? }
+export const adminRejectRefundHandler: AdminRouteHandler = async (req, res, db, service, actor) => {
+    const reason = (req.body as { reason?: unknown } | undefined)?.reason;
+    const id = req.params?.id || '';
+    if (!(await service.rejectRefund(id, actor, typeof reason === 'string' ? reason : undefined))) {
+        res.status(409).json({ error: 'Only a requested refund can be rejected' });
+        return;
+    }
+    res.status(200).json({ success: true, refund: await db.getRefund(id) });
+};
+
+// Sends (or retries) an approved refund from the hot wallet
+export const adminSendRefundHandler: AdminRouteHandler = async (req, res, _db, service) => {
+    const sent = await service.sendRefund(req.params?.id || '');
+    if (!sent.success) {
+        res.status(409).json({ error: sent.error, refund: sent.refund });
+        return;
+    }
+    res.status(200).json({ success: true, refund: sent.refund });
+};
+
+// Body: { refundTx } - records a refund that was sent from another wallet
+export const adminMarkRefundSentHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const refundTx = (req.body as { refundTx?: unknown } | undefined)?.refundTx;
+    const id = req.params?.id || '';
+    if (typeof refundTx !== 'string' || !refundTx) {
+        res.status(400).json({ error: 'refundTx is required' });
+        return;
+    }
+    if (!(await db.markRefundSent(id, refundTx))) {
+        res.status(409).json({ error: 'Only an approved refund can be marked as sent' });
+        return;
+    }
+    logger.info(`[X402_ADMIN] Refund ${id} marked as sent (${refundTx}) by ${actor}`);
+    res.status(200).json({ success: true, refund: await db.getRefund(id) });
+};
@@ -0,0 +1,250 @@
+import type { Route } from '@elizaos/core';
+import { adminListLedgerHandler, adminReconcileLedgerHandler } from './ledger';
+import { siweMessageHandler, siweSignInHandler, adminMergeUserHandler } from './identity';
+import { adminListCouponsHandler, adminCreateCouponHandler, adminDisableCouponHandler } from './coupons';
+import {
+    adminRefundPaymentHandler,
+    adminListRefundsHandler,
+    adminApproveRefundHandler,
+    adminRejectRefundHandler,
+    adminSendRefundHandler,
+    adminMarkRefundSentHandler,
+} from './refunds';
+import { adminListClientSpendsHandler } from './client';
+import {
+    adminListTransactionsHandler,
+    adminApproveTransactionHandler,
+    adminRejectTransactionHandler,
+    adminKillSwitchHandler,
+} from './tx-policy';
+import { askAgentHandler, settleAuthorizationHandler, schemaStatusHandler } from './http';
+import { analyticsPageHandler, adminAnalyticsHandler } from './analytics';
+import {
+    adminRoute,
+    adminGetUserHandler,
+    adminCreditsHandler,
+    adminGrantDailyHandler,
+    adminGrantProHandler,
+    adminListPaymentsHandler,
+    adminResetUserAuthHandler,
+    adminListCredentialsHandler,
+    adminCreateCredentialHandler,
+    adminRevokeCredentialHandler,
+} from './admin-routes';
+
+// ============================================
+// Routes (x402 HTTP protocol, payment page, admin REST API)
+// ============================================
+export const x402Routes: Route[] = [
+    {
+        name: 'x402-ask-get',
+        path: '/x402/ask/:agent',
+        type: 'GET',
+        handler: askAgentHandler,
+    },
+    {
+        name: 'x402-ask',
+        path: '/x402/ask/:agent',
+        type: 'POST',
+        handler: askAgentHandler,
+    },
+    {
+        name: 'x402-settle',
+        path: '/x402/settle',
+        type: 'POST',
+        handler: settleAuthorizationHandler,
+    },
+    {
+        name: 'x402-siwe-message',
+        path: '/x402/siwe/:nonce',
+        type: 'GET',
+        handler: siweMessageHandler,
+    },
+    {
+        name: 'x402-siwe',
+        path: '/x402/siwe',
+        type: 'POST',
+        handler: siweSignInHandler,
+    },
+    {
+        name: 'x402 Analytics',
+        path: '/x402/analytics',
+        type: 'GET',
+        public: true,
+        handler: analyticsPageHandler,
+    },
+    {
+        name: 'x402-schema',
+        path: '/x402/schema',
+        type: 'GET',
+        handler: schemaStatusHandler,
+    },
+    {
+        name: 'x402-admin-user',
+        path: '/x402/admin/users/:id',
+        type: 'GET',
+        handler: adminRoute(['billing', 'moderation'], adminGetUserHandler),
+    },
+    {
+        name: 'x402-admin-user-credits',
+        path: '/x402/admin/users/:id/credits',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminCreditsHandler),
+    },
+    {
+        name: 'x402-admin-user-daily',
+        path: '/x402/admin/users/:id/daily',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminGrantDailyHandler),
+    },
+    {
+        name: 'x402-admin-user-pro',
+        path: '/x402/admin/users/:id/pro',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminGrantProHandler),
+    },
+    {
+        name: 'x402-admin-payments',
+        path: '/x402/admin/payments',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminListPaymentsHandler),
+    },
+    {
+        name: 'x402-admin-payment-refund',
+        path: '/x402/admin/payments/:tx/refund',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminRefundPaymentHandler),
+    },
+    {
+        name: 'x402-admin-refunds',
+        path: '/x402/admin/refunds',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminListRefundsHandler),
+    },
+    {
+        name: 'x402-admin-refund-approve',
+        path: '/x402/admin/refunds/:id/approve',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminApproveRefundHandler),
+    },
+    {
+        name: 'x402-admin-refund-reject',
+        path: '/x402/admin/refunds/:id/reject',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminRejectRefundHandler),
+    },
+    {
+        name: 'x402-admin-refund-send',
+        path: '/x402/admin/refunds/:id/send',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminSendRefundHandler),
+    },
+    {
+        name: 'x402-admin-refund-sent',
+        path: '/x402/admin/refunds/:id/sent',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminMarkRefundSentHandler),
+    },
+    {
+        name: 'x402-admin-coupons',
+        path: '/x402/admin/coupons',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminListCouponsHandler),
+    },
+    {
+        name: 'x402-admin-coupon-create',
+        path: '/x402/admin/coupons',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminCreateCouponHandler),
+    },
+    {
+        name: 'x402-admin-coupon-disable',
+        path: '/x402/admin/coupons/:code/disable',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminDisableCouponHandler),
+    },
+    {
+        name: 'x402-admin-client-spends',
+        path: '/x402/admin/client-spends',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminListClientSpendsHandler),
+    },
+    {
+        name: 'x402-admin-transactions',
+        path: '/x402/admin/transactions',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminListTransactionsHandler),
+    },
+    {
+        name: 'x402-admin-transaction-approve',
+        path: '/x402/admin/transactions/:id/approve',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminApproveTransactionHandler),
+    },
+    {
+        name: 'x402-admin-transaction-reject',
+        path: '/x402/admin/transactions/:id/reject',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminRejectTransactionHandler),
+    },
+    {
+        name: 'x402-admin-transactions-kill-switch',
+        path: '/x402/admin/transactions/kill-switch',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminKillSwitchHandler),
+    },
+    {
+        name: 'x402-admin-analytics',
+        path: '/x402/admin/analytics',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminAnalyticsHandler),
+    },
+    {
+        name: 'x402-admin-analytics-section',
+        path: '/x402/admin/analytics/:section',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminAnalyticsHandler),
+    },
+    {
+        name: 'x402-admin-ledger',
+        path: '/x402/admin/ledger',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminListLedgerHandler),
+    },
+    {
+        name: 'x402-admin-ledger-reconcile',
+        path: '/x402/admin/ledger/reconcile',
+        type: 'GET',
+        handler: adminRoute(['billing'], adminReconcileLedgerHandler),
+    },
+    {
+        name: 'x402-admin-user-merge',
+        path: '/x402/admin/users/:id/merge',
+        type: 'POST',
+        handler: adminRoute(['billing'], adminMergeUserHandler),
+    },
+    {
+        name: 'x402-admin-user-reset-auth',
+        path: '/x402/admin/users/:id/reset-auth',
+        type: 'POST',
+        handler: adminRoute(['moderation'], adminResetUserAuthHandler),
+    },
+    {
+        name: 'x402-admin-credentials',
+        path: '/x402/admin/credentials',
+        type: 'GET',
+        handler: adminRoute('root', adminListCredentialsHandler),
+    },
+    {
+        name: 'x402-admin-credentials-create',
+        path: '/x402/admin/credentials',
+        type: 'POST',
+        handler: adminRoute('root', adminCreateCredentialHandler),
+    },
+    {
+        name: 'x402-admin-credentials-revoke',
+        path: '/x402/admin/credentials/:name/revoke',
+        type: 'POST',
+        handler: adminRoute('root', adminRevokeCredentialHandler),
+    },
+];
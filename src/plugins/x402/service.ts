@@ -0,0 +1,1028 @@
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { Service, logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import crypto from 'crypto';
+import { CONFIG } from './config';
+import type { PaymentPlan, PaymentRecord, MessageClaim } from './types';
+import type { PaymentAsset } from './assets';
+import { PAYMENT_ASSETS, getPaymentAsset, isSolanaAsset, getAssetReceiver } from './assets';
+import type { MeteredCost } from './pricing';
+import { formatCredits, getMeteredCost } from './pricing';
+import { formatBusinessDate, getProGraceEnd } from './time';
+import type { PaymentIntent } from './intents';
+import { parseDbTimestamp } from './store';
+import { X402Database } from './database';
+import type { LedgerContext } from './ledger';
+import {
+    grantPaymentPlan,
+    applyVerifiedPayment,
+    creditOrHoldPayment,
+    formatPendingPaymentText,
+    formatPaymentCreditedText,
+} from './ledger';
+import { meteredBills, extractUserId, getMessageKey } from './messages';
+import { getPaymentQuote, formatProRenewalLines } from './payment-prompt';
+import { X402AdminAuth } from './admin-auth';
+import {
+    generateLinkCode,
+    getWalletIdentity,
+    hashSessionToken,
+    SIWE_STATEMENT,
+    buildSiweMessage,
+    parseSiweMessage,
+} from './identity';
+import type { RedeemCodeResult } from './coupons';
+import { REFERRAL_CODE_PREFIX } from './coupons';
+import type { RefundTransfer, RefundRecord } from './refunds';
+import { buildRefundTransfer } from './refunds';
+import { TRANSFER_EVENT_TOPIC, getPlanFlags, getTransactionStatus, getChainHead, isPlanPayment } from './verification';
+import { TxPolicyService } from './tx-policy';
+import type { ExactEvmPayload, X402Facilitator } from './eip3009';
+import { getRequirementsAsset, createDefaultFacilitator } from './eip3009';
+import type { X402PaymentRequirements } from './http';
+
+// ============================================
+// X402 Service
+// ============================================
+export class X402Service extends Service {
+    static serviceType = 'x402';
+    private db: X402Database;
+    private adminAuth: X402AdminAuth;
+    private facilitator: X402Facilitator | null;
+    private settlingNonces = new Set<string>();
+    private watcherTimer: ReturnType<typeof setInterval> | null = null;
+    private watcherRunning = false;
+    private confirmationTimer: ReturnType<typeof setInterval> | null = null;
+    private confirmationRunning = false;
+    private subscriptionTimer: ReturnType<typeof setInterval> | null = null;
+    private subscriptionRunning = false;
+    private reservationTimer: ReturnType<typeof setInterval> | null = null;
+
+    // All agents share one database, so a single service instance runs the payment watcher
+    // and notifications are routed to the agent that showed the payment prompt
+    private static instances = new Map<string, X402Service>();
+    private static watcherOwner: X402Service | null = null;
+
+    constructor(runtime: IAgentRuntime) {
+        super(runtime);
+        this.db = X402Database.getInstance();
+        this.adminAuth = new X402AdminAuth(this.db);
+        this.facilitator = createDefaultFacilitator();
+    }
+
+    static async start(runtime: IAgentRuntime) {
+        logger.info('*** Starting X402 service (sql.js - pure JS, no native bindings) ***');
+        const service = new X402Service(runtime);
+        // Initialize database asynchronously (the first agent picks the store backend)
+        await service.db.init(runtime);
+
+        X402Service.instances.set(runtime.agentId, service);
+        if (!X402Service.watcherOwner) {
+            X402Service.watcherOwner = service;
+            await service.adminAuth.importLegacyKey();
+            await service.checkLedger();
+            if (CONFIG.WATCHER_ENABLED) {
+                service.startPaymentWatcher();
+            }
+            service.startConfirmationMonitor();
+            service.startSubscriptionMonitor();
+            service.startReservationSweeper();
+        }
+        return service;
+    }
+
+    static async stop(_runtime: IAgentRuntime) {
+        logger.info('*** Stopping X402 service ***');
+    }
+
+    async stop() {
+        logger.info('*** Stopping X402 service instance ***');
+        if (this.watcherTimer) {
+            clearInterval(this.watcherTimer);
+            this.watcherTimer = null;
+        }
+        if (this.confirmationTimer) {
+            clearInterval(this.confirmationTimer);
+            this.confirmationTimer = null;
+        }
+        if (this.subscriptionTimer) {
+            clearInterval(this.subscriptionTimer);
+            this.subscriptionTimer = null;
+        }
+        if (this.reservationTimer) {
+            clearInterval(this.reservationTimer);
+            this.reservationTimer = null;
+        }
+        X402Service.instances.delete(this.runtime.agentId);
+        if (X402Service.watcherOwner === this) {
+            X402Service.watcherOwner = null;
+        }
+        await this.db.flush();
+    }
+
+    // Character name of an agent running in this process (analytics label)
+    static getAgentName(agentId: string): string | null {
+        return X402Service.instances.get(agentId)?.runtime.character?.name || null;
+    }
+
+    getDatabase(): X402Database {
+        return this.db;
+    }
+
+    getAdminAuth(): X402AdminAuth {
+        return this.adminAuth;
+    }
+
+    // Every incoming message is billed to the canonical account of its sender
+    async resolveUserId(message: Memory): Promise<string> {
+        return this.db.resolveAccount(extractUserId(message));
+    }
+
+    async issueLinkCode(identityId: string): Promise<{ code: string; expiresAt: Date }> {
+        const code = generateLinkCode();
+        const expiresAt = await this.db.createLinkCode('code', code, identityId, await this.db.resolveAccount(identityId));
+        return { code, expiresAt };
+    }
+
+    // The sender's account merges into the account that issued the code
+    async redeemLinkCode(identityId: string, code: string): Promise<{ success: boolean; alreadyLinked?: boolean }> {
+        const link = await this.db.useLinkCode('code', code);
+        if (!link) return { success: false };
+
+        // The issuing account may itself have been merged since the code was issued
+        const accountId = await this.db.resolveAccount(link.account_id);
+        const currentId = await this.db.resolveAccount(identityId);
+        if (currentId === accountId) return { success: true, alreadyLinked: true };
+        await this.db.mergeAccounts(currentId, accountId, 'code', { agentId: this.runtime.agentId });
+        return { success: true };
+    }
+
+    // The nonce is bound to the wallet the requester named, so nobody else who sees the link or the
+    // message can sign it with their own wallet. Without an address nothing is issued.
+    async requestWalletLink(identityId: string, address?: string): Promise<{ url?: string; message?: string; expiresAt?: Date }> {
+        if (!address) return {};
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const accountId = await this.db.resolveAccount(identityId);
+        const checksummed = ethers.getAddress(address.toLowerCase());
+        const expiresAt = new Date(Date.now() + CONFIG.LINK_CODE_TTL_MINUTES * 60 * 1000);
+        const message = this.buildSiweMessage(nonce, checksummed, CONFIG.SIWE_CHAIN_ID, expiresAt);
+        await this.db.createLinkCode('wallet', nonce, identityId, accountId, { address, message, expiresAt });
+        const PAYMENT_PAGE_URL = process.env.PAYMENT_PAGE_URL || 'https://x402payment.vercel.app';
+        return { url: `${PAYMENT_PAGE_URL}/link?nonce=${nonce}&address=${checksummed}`, message, expiresAt };
+    }
+
+    // The message the payment page asks the wallet to sign for a pending sign-in request
+    async getSiweMessage(nonce: string, address: string, chainId: number = CONFIG.SIWE_CHAIN_ID): Promise<string | null> {
+        const request = await this.db.getLinkCode('wallet', nonce);
+        if (!request?.address || !request.message || !ethers.isAddress(address)) return null;
+        if (request.address !== address.toLowerCase() || chainId !== CONFIG.SIWE_CHAIN_ID) return null;
+        return request.message;
+    }
+
+    private buildSiweMessage(nonce: string, address: string, chainId: number, expiresAt: Date): string {
+        return buildSiweMessage({
+            domain: CONFIG.SIWE_DOMAIN,
+            address,
+            statement: SIWE_STATEMENT,
+            uri: CONFIG.SIWE_URI,
+            version: '1',
+            chainId,
+            nonce,
+            issuedAt: new Date().toISOString(),
+            expirationTime: expiresAt.toISOString(),
+        });
+    }
+
+    // Chat sign-in: the signature is checked against the sender's latest pending SIWE message
+    async completeWalletSignIn(identityId: string, signature: string): Promise<{ success: boolean; address?: string; error?: string }> {
+        const request = await this.db.getPendingWalletSignIn(identityId);
+        if (!request?.message) return { success: false, error: 'Unknown or expired sign-in request' };
+        const signedIn = await this.signInWithEthereum(request.message, signature);
+        return { success: signedIn.success, address: signedIn.address, error: signedIn.error };
+    }
+
+    // Verifies an EIP-4361 message and its signature by the wallet the nonce was issued for, then links
+    // the wallet to the account that requested the nonce. A wallet already linked elsewhere takes the requester's account in; a new
+    // wallet joins the requester's account. Payments from the wallet are credited to that account.
+    async signInWithEthereum(
+        messageText: string,
+        signature: string
+    ): Promise<{ success: boolean; accountId?: string; address?: string; error?: string }> {
+        const siwe = parseSiweMessage(messageText);
+        if (!siwe) return { success: false, error: 'Malformed SIWE message' };
+        if (siwe.domain !== CONFIG.SIWE_DOMAIN || siwe.uri !== CONFIG.SIWE_URI) {
+            return { success: false, error: 'SIWE message is for another site' };
+        }
+        if (siwe.chainId !== CONFIG.SIWE_CHAIN_ID) return { success: false, error: 'Unsupported chain' };
+        const now = Date.now();
+        if (siwe.expirationTime && !(Date.parse(siwe.expirationTime) > now)) return { success: false, error: 'SIWE message has expired' };
+        if (siwe.notBefore && !(Date.parse(siwe.notBefore) <= now)) return { success: false, error: 'SIWE message is not valid yet' };
+
+        const request = await this.db.getLinkCode('wallet', siwe.nonce);
+        if (!request) return { success: false, error: 'Unknown or expired sign-in request' };
+        if (!request.address || request.address !== siwe.address.toLowerCase()) {
+            return { success: false, error: 'Address does not match the sign-in request' };
+        }
+
+        let signer: string;
+        try {
+            signer = ethers.verifyMessage(messageText, signature);
+        } catch {
+            return { success: false, error: 'Invalid signature' };
+        }
+        if (signer.toLowerCase() !== siwe.address.toLowerCase()) {
+            return { success: false, error: 'Signature does not match the address' };
+        }
+        if (!(await this.db.useLinkCode('wallet', siwe.nonce))) {
+            return { success: false, error: 'Sign-in request was already used' };
+        }
+
+        const walletIdentity = getWalletIdentity(siwe.address);
+        const accountId = await this.db.resolveAccount(request.identity_id);
+        const walletAccountId = await this.db.resolveAccount(walletIdentity);
+        let linkedAccountId = walletAccountId;
+        if (walletAccountId === accountId) {
+            linkedAccountId = accountId;
+        } else if (walletAccountId === walletIdentity && !(await this.db.getUser(walletIdentity))) {
+            await this.db.linkIdentity(walletIdentity, accountId, 'wallet');
+            linkedAccountId = accountId;
+        } else {
+            await this.db.mergeAccounts(accountId, walletAccountId, 'wallet', { agentId: this.runtime.agentId });
+        }
+        await this.db.recordWallet(siwe.address, siwe.chainId);
+        logger.info(`[X402_SIWE] Wallet ${siwe.address} signed in for ${linkedAccountId}`);
+        return { success: true, accountId: linkedAccountId, address: ethers.getAddress(siwe.address) };
+    }
+
+    // Bearer token for the HTTP API, issued after a SIWE sign-in and bound to the wallet's identity
+    async openWalletSession(address: string): Promise<{ token: string; expiresAt: Date }> {
+        const token = `x402s_${crypto.randomBytes(32).toString('base64url')}`;
+        const expiresAt = new Date(Date.now() + CONFIG.SIWE_SESSION_TTL_MINUTES * 60 * 1000);
+        await this.db.createWalletSession(hashSessionToken(token), getWalletIdentity(address), expiresAt);
+        return { token, expiresAt };
+    }
+
+    async getWalletSessionAccount(token: string): Promise<string | null> {
+        return token ? this.db.getWalletSessionAccount(hashSessionToken(token)) : null;
+    }
+
+    async unlinkIdentity(identityId: string): Promise<'unlinked' | 'primary' | 'not_linked'> {
+        if (await this.db.unlinkIdentity(identityId)) {
+            logger.info(`[X402_LINK] ${identityId} unlinked`);
+            return 'unlinked';
+        }
+        const linked = await this.db.getLinkedIdentities(identityId);
+        return linked.some(identity => identity.identity_id !== identityId) ? 'primary' : 'not_linked';
+    }
+
+    // Promo codes and referral codes share one command; referral codes start with REF-
+    async redeemCode(userId: string, code: string, requestKey?: string): Promise<RedeemCodeResult> {
+        const normalized = code.toUpperCase();
+        if (normalized.startsWith(REFERRAL_CODE_PREFIX)) {
+            const registered = await this.db.registerReferral(userId, normalized);
+            return registered.error ? { kind: 'error', error: registered.error } : { kind: 'referral', code: normalized };
+        }
+
+        const redeemed = await this.db.redeemCoupon(normalized, userId, requestKey);
+        const redemption = redeemed.redemption;
+        if (!redemption) return { kind: 'error', error: redeemed.error || 'unknown' };
+        return redemption.discount_percent > 0
+            ? { kind: 'discount', code: redemption.code, percent: redemption.discount_percent, plan: redemption.plan }
+            : { kind: 'credits', code: redemption.code, credits: Number(redemption.credits) };
+    }
+
+    // Refunds: `userId` is set for chat requests, which may only refund the sender's own payments
+    async requestRefund(request: {
+        txHash: string;
+        requestedBy: string;
+        amount?: number;
+        reason?: string;
+        to?: string;
+        userId?: string;
+        requestKey?: string;
+    }): Promise<{ success: boolean; refund?: RefundRecord; error?: string }> {
+        const payment = (await this.db.findPayments({ txHash: request.txHash, limit: 1 }))[0];
+        if (!payment || (request.userId && (await this.db.resolveAccount(payment.user_id)) !== request.userId)) {
+            return { success: false, error: 'Unknown payment' };
+        }
+        if (payment.status !== 'confirmed') {
+            return { success: false, error: `Payment is ${payment.status}` };
+        }
+        const remaining = payment.amount - (await this.db.getRefundedAmount(payment.tx_hash));
+        const amount = request.amount ?? remaining;
+        if (!(amount > 0) || amount > remaining + 1e-9) {
+            return { success: false, error: remaining > 1e-9 ? `Amount must be between 0 and ${remaining}` : 'Payment is already fully refunded' };
+        }
+        if (isPlanPayment(payment) && amount < remaining - 1e-9) {
+            return { success: false, error: `Pro and Daily payments can only be refunded in full (${remaining})` };
+        }
+        const to = request.to || payment.payer;
+        if (to && !ethers.isAddress(to) && !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(to)) {
+            return { success: false, error: `Invalid refund address: ${to}` };
+        }
+
+        const refund = await this.db.createRefund({
+            txHash: payment.tx_hash,
+            userId: await this.db.resolveAccount(payment.user_id),
+            assetId: payment.asset_id,
+            amount,
+            toAddress: to || null,
+            reason: request.reason,
+            requestKey: request.requestKey,
+            requestedBy: request.requestedBy,
+        });
+        if (!refund) return { success: false, error: 'Refund could not be queued' };
+        logger.info(`[X402_REFUND] Refund ${refund.id} requested by ${request.requestedBy}: ${amount} of ${payment.tx_hash}`);
+        return { success: true, refund };
+    }
+
+    // Takes back what the refunded part of a single payment granted (everything, once the whole payment
+    // is refunded), builds the return transfer and optionally sends it from the hot wallet
+    async approveRefund(id: string, actor: string, send: boolean = false): Promise<{ success: boolean; refund?: RefundRecord; error?: string }> {
+        const refund = await this.db.getRefund(id);
+        const payment = refund ? await this.db.getPayment(refund.tx_hash) : null;
+        if (!refund || !payment) return { success: false, error: `Unknown refund: ${id}` };
+        if (refund.status !== 'requested') return { success: false, error: `Refund is already ${refund.status}` };
+        if (payment.status !== 'confirmed') return { success: false, error: `Payment is ${payment.status}` };
+        // A plan cannot be taken back in part, so a refund of a Pro or Daily payment must cover all of it
+        if (isPlanPayment(payment) &&
+            (await this.db.getRefundedAmount(payment.tx_hash, ['approved', 'sent'])) + refund.amount < payment.amount - 1e-9) {
+            return { success: false, error: 'Pro and Daily payments can only be refunded in full; reject this refund and request the full amount' };
+        }
+        if (!(await this.db.reviewRefund(id, 'approved', actor))) {
+            return { success: false, error: 'Refund changed while approving; retry' };
+        }
+
+        const entry: LedgerContext = { reason: `refunded:${actor}`, agentId: this.runtime.agentId };
+        const refunded = await this.db.getRefundedAmount(payment.tx_hash, ['approved', 'sent']);
+        const asset = payment.asset_id ? getPaymentAsset(payment.asset_id) : undefined;
+        if (refunded >= payment.amount - 1e-9) {
+            await this.db.revertPayment(payment, 'refunded', entry);
+        } else if (asset) {
+            await this.db.revokePaymentCredits(payment, refund.amount / asset.prices.single, entry);
+        }
+
+        const transfer = asset && refund.to_address ? buildRefundTransfer(asset, refund.to_address, refund.amount) : null;
+        if (transfer) await this.db.setRefundTransfer(id, transfer);
+        logger.info(`[X402_REFUND] Refund ${id} approved by ${actor} (${refund.amount} ${asset?.symbol || ''} to ${refund.to_address})`);
+
+        if (send && transfer) {
+            const sent = await this.sendRefund(id);
+            if (!sent.success) return { success: true, refund: sent.refund, error: sent.error };
+        }
+        return { success: true, refund: (await this.db.getRefund(id))! };
+    }
+
+    async rejectRefund(id: string, actor: string, reason?: string): Promise<boolean> {
+        const rejected = await this.db.reviewRefund(id, 'rejected', actor, reason);
+        if (rejected) logger.info(`[X402_REFUND] Refund ${id} rejected by ${actor}`);
+        return rejected;
+    }
+
+    // Sends an approved refund's transfer from X402_REFUND_PRIVATE_KEY
+    async sendRefund(id: string): Promise<{ success: boolean; refund?: RefundRecord; error?: string }> {
+        const refund = await this.db.getRefund(id);
+        if (!refund) return { success: false, error: `Unknown refund: ${id}` };
+        const asset = refund.asset_id ? getPaymentAsset(refund.asset_id) : undefined;
+        if (refund.status !== 'approved' || !refund.transfer || !asset) {
+            return { success: false, refund, error: 'Only approved EVM refunds with a built transfer can be sent' };
+        }
+        if (!CONFIG.REFUND_PRIVATE_KEY) {
+            return { success: false, refund, error: 'X402_REFUND_PRIVATE_KEY is not configured' };
+        }
+        // The hot wallet stops with the agents' other on-chain writes
+        if (await TxPolicyService.isHalted()) {
+            return { success: false, refund, error: 'Transaction kill switch is on' };
+        }
+        if (!(await this.db.claimRefundSend(id))) {
+            return { success: false, refund, error: 'Refund is already being sent' };
+        }
+
+        const transfer = JSON.parse(refund.transfer) as RefundTransfer;
+        try {
+            const wallet = new ethers.Wallet(CONFIG.REFUND_PRIVATE_KEY, new ethers.JsonRpcProvider(asset.rpcUrl));
+            const tx = await wallet.sendTransaction({ to: transfer.to, data: transfer.data, value: BigInt(transfer.value), chainId: transfer.chainId });
+            logger.info(`[X402_REFUND] Refund ${id} submitted: ${tx.hash}`);
+            const receipt = await tx.wait();
+            if (!receipt || receipt.status !== 1) throw new Error(`Refund transfer ${tx.hash} reverted`);
+            await this.db.markRefundSent(id, tx.hash);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.error(`[X402_REFUND] Refund ${id} failed: ${message}`);
+            await this.db.releaseRefundSend(id, message);
+            return { success: false, refund: (await this.db.getRefund(id))!, error: message };
+        }
+        return { success: true, refund: (await this.db.getRefund(id))! };
+    }
+
+    // Admin sessions belong to the sender, not the account: callers check isAdminSender first
+    async canAccess(userId: string): Promise<{ allowed: boolean; reason: string; consumeType?: string }> {
+        if (await this.db.isPro(userId)) {
+            return { allowed: true, reason: 'pro' };
+        }
+        // Daily plan: 1 USDC / 30 queries per day
+        if (await this.db.getDailyPlanRemaining(userId) > 0) {
+            return { allowed: true, reason: 'daily', consumeType: 'daily' };
+        }
+        if (await this.db.getCredits(userId) > 0) {
+            return { allowed: true, reason: 'credit', consumeType: 'credit' };
+        }
+        if (await this.db.getDailyFreeRemaining(userId) > 0) {
+            return { allowed: true, reason: 'free', consumeType: 'free' };
+        }
+        return { allowed: false, reason: 'no_access' };
+    }
+
+    // Charges a message costing `cost` credits: credits by the cost, the free tier and the Daily plan
+    // one query. Free messages are not counted. Returns false when the balance was used up
+    // concurrently (another agent or replica).
+    async consumeAccess(userId: string, consumeType: string, cost: number, context: LedgerContext = {}): Promise<boolean> {
+        if (cost <= 0) return true;
+        const entry: LedgerContext = { agentId: this.runtime.agentId, ...context };
+        if (consumeType === 'daily') {
+            return this.db.consumeDaily(userId, entry);
+        } else if (consumeType === 'credit') {
+            return this.db.chargeCredits(userId, cost, entry);
+        } else if (consumeType === 'free') {
+            return this.db.consumeDailyFree(userId, entry);
+        }
+        return true;
+    }
+
+    // Reserves one message's worth of access in canAccess order (Daily plan, credits, free tier);
+    // Pro needs no reservation
+    async reserveAccess(userId: string, origin: { messageKey?: string } = {}): Promise<{ allowed: boolean; reason: string; consumeType?: string; reservationId?: string }> {
+        if (await this.db.isPro(userId)) {
+            return { allowed: true, reason: 'pro' };
+        }
+        for (const consumeType of ['daily', 'credit', 'free']) {
+            const reservationId = await this.db.reserveAccess(userId, consumeType, { ...origin, agentId: this.runtime.agentId });
+            if (reservationId) {
+                return { allowed: true, reason: consumeType, consumeType, reservationId };
+            }
+        }
+        return { allowed: false, reason: 'no_access' };
+    }
+
+    // The first agent (in any process) to claim an inbound message decides and reserves its access;
+    // the others wait for that decision and share it, so a message is never charged twice. A claim that
+    // stays pending (its agent stopped) expires, and a waiting agent takes it over and decides it.
+    async claimMessage(message: Memory, userId: string): Promise<{ allowed: boolean; reason: string; first: boolean }> {
+        // An admin sender is never charged, so there is nothing to decide across agents
+        if (await this.adminAuth.isAdminSender(message)) {
+            await this.recordUsage(userId, 'admin');
+            return { allowed: true, reason: 'admin', first: true };
+        }
+        const messageKey = getMessageKey(message);
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const claimed = attempt === 0
+                ? await this.db.claimMessage(messageKey, userId, this.runtime.agentId)
+                : await this.db.takeOverMessageClaim(messageKey, this.runtime.agentId, new Date(Date.now() - CONFIG.MESSAGE_CLAIM_WAIT_MS));
+            if (claimed) {
+                const access = await this.decideClaimedMessage(message, messageKey, userId);
+                if (access) {
+                    await this.recordUsage(userId, access.reason);
+                    return { allowed: access.allowed, reason: access.reason, first: true };
+                }
+            }
+
+            const claim = await this.waitForMessageClaim(messageKey);
+            if (claim) {
+                if (claim.status === 'granted') {
+                    this.joinMeteredBill(message, claim);
+                }
+                const reason = claim.access_type || 'no_access';
+                await this.recordUsage(userId, reason);
+                return { allowed: claim.status === 'granted', reason, first: false };
+            }
+        }
+        // Never answered uncharged: without a decision the message is not answered
+        logger.warn(`[X402] No agent decided access for message ${messageKey} - not answering`);
+        await this.recordUsage(userId, 'no_access');
+        return { allowed: false, reason: 'no_access', first: false };
+    }
+
+    // Reserves access for a claimed message and records the decision. Null when another agent took the
+    // claim over meanwhile: the reservation is given back and that agent's decision applies.
+    private async decideClaimedMessage(
+        message: Memory,
+        messageKey: string,
+        userId: string
+    ): Promise<Awaited<ReturnType<X402Service['reserveAccess']>> | null> {
+        let access: Awaited<ReturnType<X402Service['reserveAccess']>> = { allowed: false, reason: 'no_access' };
+        let decided = false;
+        try {
+            access = await this.reserveAccess(userId, { messageKey });
+        } finally {
+            decided = await this.db.decideMessageClaim(messageKey, this.runtime.agentId, access);
+        }
+        if (!decided) {
+            if (access.reservationId) await this.db.settleReservation(access.reservationId, 'released');
+            logger.warn(`[X402] Claim of message ${messageKey} was taken over by another agent`);
+            return null;
+        }
+        if (access.consumeType && access.reservationId) {
+            this.openMeteredBill(message, userId, access.consumeType, access.reservationId);
+        }
+        return access;
+    }
+
+    // Every agent that sees a message counts it, so the analytics can split usage per agent
+    private async recordUsage(userId: string, accessType: string): Promise<void> {
+        try {
+            await this.db.recordUsage(userId, this.runtime.agentId, accessType);
+        } catch (error) {
+            logger.warn(`[X402] Failed to record usage: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async waitForMessageClaim(messageKey: string): Promise<MessageClaim | null> {
+        const deadline = Date.now() + CONFIG.MESSAGE_CLAIM_WAIT_MS;
+        for (;;) {
+            const claim = await this.db.getMessageClaim(messageKey);
+            if (claim && claim.status !== 'pending') return claim;
+            if (Date.now() >= deadline) return null;
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+    }
+
+    // Metered Billing (reserve → capture → release): the claiming agent reserves access when a message
+    // arrives and opens a bill that every agent answering it joins. x402MeteringEvaluator captures the
+    // metered cost of the first response that has one; the reservation is released when the last agent
+    // leaves, so IGNORE, failed and dropped runs charge nothing.
+    openMeteredBill(message: Memory, userId: string, consumeType: string, reservationId: string): void {
+        meteredBills.set(getMessageKey(message), {
+            userId,
+            consumeType,
+            reservationId,
+            captured: false,
+            settled: false,
+            agents: new Map([[this.runtime.agentId, { messageId: message.id, tokens: 0, upstream: [] }]]),
+            timestamp: Date.now(),
+        });
+    }
+
+    // Another agent answering the same message is metered on its bill (also after it was settled);
+    // in another process the bill is rebuilt from the message claim
+    joinMeteredBill(message: Memory, claim: MessageClaim): void {
+        const messageKey = getMessageKey(message);
+        const bill = meteredBills.get(messageKey);
+        if (bill) {
+            if (!bill.agents.has(this.runtime.agentId)) {
+                bill.agents.set(this.runtime.agentId, { messageId: message.id, tokens: 0, upstream: [] });
+            }
+        } else if (claim.consume_type && claim.reservation_id) {
+            this.openMeteredBill(message, claim.user_id, claim.consume_type, claim.reservation_id);
+        }
+    }
+
+    hasMeteredBill(message: Memory): boolean {
+        return !!meteredBills.get(getMessageKey(message))?.agents.has(this.runtime.agentId);
+    }
+
+    // LLM tokens count toward the message this agent is answering (skipped while it answers several)
+    recordModelUsage(tokens: number): void {
+        if (!(tokens > 0) || CONFIG.TOKEN_PRICE_PER_1K <= 0) return;
+        const agentId = this.runtime.agentId;
+        const open = [...meteredBills.values()].filter(bill => bill.agents.has(agentId));
+        if (open.length !== 1) return;
+        open[0].agents.get(agentId)!.tokens += tokens;
+    }
+
+    // Upstream x402 payments made while answering are passed through on the message's bill
+    recordUpstreamCost(message: Memory, name: string, credits: number): boolean {
+        const agent = meteredBills.get(getMessageKey(message))?.agents.get(this.runtime.agentId);
+        if (!agent || !(credits > 0)) return false;
+        agent.upstream.push({ name, credits });
+        return true;
+    }
+
+    async captureMeteredMessage(message: Memory, responses: Memory[]): Promise<MeteredCost | null> {
+        const messageKey = getMessageKey(message);
+        const bill = meteredBills.get(messageKey);
+        const agent = bill?.agents.get(this.runtime.agentId);
+        if (!bill || !agent) return null;
+
+        try {
+            const cost = getMeteredCost(message, responses, agent.tokens, agent.upstream);
+            if (cost.credits <= 0) {
+                logger.info(`[X402_METER] Nothing to capture for ${bill.userId} (free or ignored)`);
+                return cost;
+            }
+            // A message is charged once, however many agents or processes answer it
+            if (!(await this.db.captureMessageClaim(messageKey))) return cost;
+
+            const context: LedgerContext = { messageId: message.id, reason: `query:${cost.items.map(item => item.name).join('+')}` };
+            let charged = await this.consumeAccess(bill.userId, bill.consumeType, cost.credits, context);
+            if (!charged) {
+                // The balance was used up while answering: bill whatever access is left
+                const access = await this.canAccess(bill.userId);
+                charged = access.allowed && (!access.consumeType || await this.consumeAccess(bill.userId, access.consumeType, cost.credits, context));
+            }
+            if (charged) {
+                bill.captured = true;
+                logger.info(`[X402_METER] Captured ${formatCredits(cost.credits)} from ${bill.userId} (${bill.consumeType}: ${context.reason})`);
+                // A charged message needs no hold while the other agents finish
+                await this.settleMeteredBill(bill);
+            } else {
+                logger.warn(`[X402_METER] ⚠️ Could not charge ${bill.userId} ${formatCredits(cost.credits)} - balance already used up`);
+            }
+            return cost;
+        } finally {
+            await this.leaveMeteredBill(bill);
+        }
+    }
+
+    // A run that ended without reaching the metering evaluator (error, timeout, replaced) captures nothing
+    async endMeteredRun(messageId: string | undefined): Promise<void> {
+        if (!messageId) return;
+        for (const bill of meteredBills.values()) {
+            if (bill.agents.get(this.runtime.agentId)?.messageId !== messageId) continue;
+            logger.info(`[X402_METER] Run ended without a response for ${bill.userId} - nothing captured`);
+            await this.leaveMeteredBill(bill);
+        }
+    }
+
+    private async leaveMeteredBill(bill: NonNullable<ReturnType<typeof meteredBills.get>>): Promise<void> {
+        bill.agents.delete(this.runtime.agentId);
+        if (bill.agents.size === 0) {
+            await this.settleMeteredBill(bill);
+        }
+    }
+
+    private async settleMeteredBill(bill: NonNullable<ReturnType<typeof meteredBills.get>>): Promise<void> {
+        if (bill.settled) return;
+        bill.settled = true;
+        const status = bill.captured ? 'captured' : 'released';
+        await this.db.settleReservation(bill.reservationId, status);
+        logger.info(`[X402_METER] Reservation ${status} for ${bill.userId}`);
+    }
+
+    // Also forgets message claims past their retention (a redelivered message is claimed anew after that)
+    startReservationSweeper(): void {
+        this.reservationTimer = setInterval(() => {
+            this.sweepReservations().catch(error => logger.error('[X402_METER] Reservation sweep failed:', error));
+        }, CONFIG.RESERVATION_SWEEP_INTERVAL_MS);
+    }
+
+    private async sweepReservations(): Promise<void> {
+        const released = await this.db.releaseExpiredReservations();
+        if (released > 0) {
+            logger.info(`[X402_METER] Released ${released} expired reservation(s)`);
+        }
+        await this.db.deleteMessageClaimsBefore(new Date(Date.now() - CONFIG.MESSAGE_CLAIM_RETENTION_HOURS * 60 * 60 * 1000));
+    }
+
+    // Logs accounts whose ledger disagrees with the users table (run once at startup)
+    async checkLedger(): Promise<void> {
+        const mismatches = await this.db.reconcileLedger();
+        if (mismatches.length === 0) {
+            logger.info('[X402_LEDGER] Ledger reconciles with user balances');
+            return;
+        }
+        for (const mismatch of mismatches) {
+            logger.warn(`[X402_LEDGER] ⚠️ ${mismatch.user_id} ${mismatch.account}: ledger=${mismatch.ledger} actual=${mismatch.actual}`);
+        }
+    }
+
+    // Incoming Payment Watcher
+    startPaymentWatcher(): void {
+        logger.info(`[X402_WATCHER] Watching transfers to ${CONFIG.RECEIVER_ADDRESS} every ${CONFIG.WATCHER_INTERVAL_MS}ms`);
+        this.watcherTimer = setInterval(() => {
+            this.scanIncomingTransfers().catch(error => logger.error('[X402_WATCHER] Scan failed:', error));
+        }, CONFIG.WATCHER_INTERVAL_MS);
+    }
+
+    async scanIncomingTransfers(): Promise<void> {
+        if (this.watcherRunning) return;
+        this.watcherRunning = true;
+        try {
+            // Solana payments are redeemed by signature (VERIFY_PAYMENT); only EVM logs are watched
+            for (const asset of PAYMENT_ASSETS.filter(a => !isSolanaAsset(a))) {
+                try {
+                    await this.scanAsset(asset);
+                } catch (error) {
+                    logger.error(`[X402_WATCHER] ${asset.id} scan error:`, error);
+                }
+            }
+        } finally {
+            this.watcherRunning = false;
+        }
+    }
+
+    // Scans (cursor, latest] in bounded ranges; the cursor only advances after a range is processed,
+    // and already-recorded tx hashes are skipped, so restarts never double-credit
+    private async scanAsset(asset: PaymentAsset): Promise<void> {
+        const provider = new ethers.JsonRpcProvider(asset.rpcUrl);
+        const latest = await provider.getBlockNumber();
+
+        let cursor = await this.db.getWatcherCursor(asset.id);
+        if (cursor === null) {
+            cursor = Math.max(0, latest - CONFIG.WATCHER_START_LOOKBACK_BLOCKS);
+            await this.db.setWatcherCursor(asset.id, cursor);
+        }
+        if (cursor >= latest) return;
+
+        const toBlock = Math.min(latest, cursor + CONFIG.WATCHER_MAX_BLOCK_RANGE);
+        const logs = await provider.getLogs({
+            address: asset.address,
+            topics: [TRANSFER_EVENT_TOPIC, null, ethers.zeroPadValue(getAssetReceiver(asset), 32)],
+            fromBlock: cursor + 1,
+            toBlock,
+        });
+
+        const blockTimestamps = new Map<number, number>();
+        for (const log of logs) {
+            if (await this.db.isPaymentUsed(log.transactionHash)) continue;
+
+            if (!blockTimestamps.has(log.blockNumber)) {
+                const block = await provider.getBlock(log.blockNumber);
+                blockTimestamps.set(log.blockNumber, block?.timestamp || 0);
+            }
+            const confirmations = latest - log.blockNumber + 1;
+            await this.creditWatchedTransfer(asset, log, blockTimestamps.get(log.blockNumber) || 0, confirmations);
+        }
+
+        await this.db.setWatcherCursor(asset.id, toBlock);
+    }
+
+    private async creditWatchedTransfer(
+        asset: PaymentAsset,
+        log: ethers.Log,
+        blockTimestamp: number,
+        confirmations: number
+    ): Promise<void> {
+        const payer = ethers.getAddress(ethers.dataSlice(log.topics[1], 12));
+        const amountUnits = BigInt(log.data);
+        const intent = await this.db.findIntentForTransfer(asset, amountUnits, blockTimestamp, payer);
+        // Transfers from a wallet someone signed in with (SIWE) are theirs without an intent
+        const userId = intent?.user_id || await this.db.getVerifiedWalletAccount(payer);
+        if (!userId) {
+            logger.debug(`[X402_WATCHER] ${asset.id} transfer ${log.transactionHash} matches no payment intent`);
+            return;
+        }
+
+        const amount = parseFloat(ethers.formatUnits(amountUnits, asset.decimals));
+        const credited = await creditOrHoldPayment(this.db, userId, log.transactionHash, {
+            verified: true,
+            amount,
+            asset,
+            payer,
+            amountUnits,
+            blockTimestamp,
+            blockHash: log.blockHash,
+            confirmations,
+            ...getPlanFlags(asset, amount),
+        }, intent?.id);
+        if (!credited) return;
+        if (intent) await this.db.fulfillIntent(intent.id, log.transactionHash, payer);
+
+        // Without an intent, the user's most recent chat is where they hear about it
+        const origin = intent || await this.db.getLatestIntentWithOrigin(userId);
+        if (credited.pending) {
+            if (origin) await this.notifyIntentOrigin(origin, formatPendingPaymentText(amount, asset, credited.confirmations, credited.required));
+            return;
+        }
+        logger.info(`[X402_WATCHER] ✅ Credited ${amount} ${asset.symbol} from ${log.transactionHash} to ${userId}`);
+        if (origin) await this.notifyIntentOrigin(origin, formatPaymentCreditedText(amount, asset, credited.plan, credited.creditsAdded));
+    }
+
+    // Confirmation Monitor: promote pending payments, revert credited ones dropped by a reorg
+    startConfirmationMonitor(): void {
+        this.confirmationTimer = setInterval(() => {
+            this.runConfirmationChecks().catch(error => logger.error('[X402_CONFIRM] Check failed:', error));
+        }, CONFIG.CONFIRMATION_CHECK_INTERVAL_MS);
+    }
+
+    async runConfirmationChecks(): Promise<void> {
+        if (this.confirmationRunning) return;
+        this.confirmationRunning = true;
+        try {
+            await this.checkPendingPayments();
+            await this.recheckConfirmedPayments();
+        } finally {
+            this.confirmationRunning = false;
+        }
+    }
+
+    async checkPendingPayments(userId?: string): Promise<void> {
+        for (const payment of await this.db.getPendingPayments(userId)) {
+            try {
+                await this.refreshPendingPayment(payment);
+            } catch (error) {
+                logger.error(`[X402_CONFIRM] Failed to refresh ${payment.tx_hash}:`, error);
+            }
+        }
+    }
+
+    async refreshPendingPayment(payment: PaymentRecord): Promise<PaymentRecord | null> {
+        const asset = getPaymentAsset(payment.asset_id);
+        if (!asset) return payment;
+
+        const txStatus = await getTransactionStatus(asset, payment.tx_hash);
+        if (!txStatus || !txStatus.success) {
+            const ageMs = Date.now() - parseDbTimestamp(payment.created_at).getTime();
+            if (txStatus || ageMs > CONFIG.PENDING_PAYMENT_TIMEOUT_MINUTES * 60 * 1000) {
+                await this.db.revertPayment(payment, 'reverted', { agentId: this.runtime.agentId });
+            }
+            return this.db.getPayment(payment.tx_hash);
+        }
+
+        const { confirmations, blockHash } = txStatus;
+        const required = asset.minConfirmations;
+        await this.db.setPaymentConfirmations(payment.tx_hash, confirmations, blockHash);
+        if (confirmations < required) {
+            return this.db.getPayment(payment.tx_hash);
+        }
+
+        // Another agent or replica may be promoting the same payment
+        if (!(await this.db.promotePendingPayment(payment.tx_hash, blockHash))) {
+            return this.db.getPayment(payment.tx_hash);
+        }
+        const plan = payment.payment_type.split('_')[0] as PaymentPlan;
+        const granted = await grantPaymentPlan(this.db, await this.db.resolveAccount(payment.user_id), plan, asset, payment.amount, {
+            agentId: this.runtime.agentId,
+            paymentTxHash: payment.tx_hash,
+        }, payment.discount_percent);
+        await this.db.setPaymentCreditsGranted(payment.tx_hash, granted.creditsAdded);
+        logger.info(`[X402_CONFIRM] ✅ Payment ${payment.tx_hash} confirmed (${confirmations}/${required}) for ${payment.user_id}`);
+
+        const intent = payment.intent_id ? await this.db.getIntent(payment.intent_id) : null;
+        if (intent) {
+            await this.notifyIntentOrigin(intent, formatPaymentCreditedText(payment.amount, asset, plan, granted.creditsAdded));
+        }
+        return this.db.getPayment(payment.tx_hash);
+    }
+
+    private async recheckConfirmedPayments(): Promise<void> {
+        const since = new Date(Date.now() - CONFIG.REORG_RECHECK_MINUTES * 60 * 1000);
+        for (const payment of await this.db.getRecentlyConfirmedPayments(since)) {
+            const asset = getPaymentAsset(payment.asset_id);
+            if (!asset) continue;
+            try {
+                const txStatus = await getTransactionStatus(asset, payment.tx_hash);
+                if (txStatus && txStatus.success) {
+                    if (payment.recheck_misses > 0) await this.db.clearPaymentMisses(payment.tx_hash);
+                    if (payment.block_hash && txStatus.blockHash && txStatus.blockHash !== payment.block_hash) {
+                        // Re-included in another block after a reorg - still valid
+                        await this.db.setPaymentConfirmations(payment.tx_hash, txStatus.confirmations, txStatus.blockHash);
+                    }
+                    continue;
+                }
+
+                // No receipt may just be a lagging RPC node: revoke only once it stays missing across blocks
+                if (!txStatus) {
+                    const misses = await this.db.recordPaymentMiss(payment.tx_hash, await getChainHead(asset));
+                    if (misses < CONFIG.REORG_MISSING_RECHECKS) {
+                        logger.warn(`[X402_CONFIRM] Payment ${payment.tx_hash} not found (${misses}/${CONFIG.REORG_MISSING_RECHECKS}) - rechecking later`);
+                        continue;
+                    }
+                }
+
+                logger.warn(`[X402_CONFIRM] ⚠️ Payment ${payment.tx_hash} ${txStatus ? 'failed' : 'disappeared'} after reorg - revoking`);
+                await this.db.revertPayment(payment, 'reverted', { agentId: this.runtime.agentId });
+                const intent = payment.intent_id ? await this.db.getIntent(payment.intent_id) : null;
+                if (intent) {
+                    await this.notifyIntentOrigin(
+                        intent,
+                        `⚠️ チェーンの再編成により、お支払い (${payment.amount} ${asset.symbol}) が取り消されました。\n付与された利用権も取り消されています。お手数ですが再度お支払いください。`
+                    );
+                }
+            } catch (error) {
+                logger.error(`[X402_CONFIRM] Failed to recheck ${payment.tx_hash}:`, error);
+            }
+        }
+    }
+
+    // Subscription Monitor: Pro renewal reminders before expiry, and a notice when the grace period starts
+    startSubscriptionMonitor(): void {
+        this.subscriptionTimer = setInterval(() => {
+            this.checkProSubscriptions().catch(error => logger.error('[X402_PRO] Check failed:', error));
+        }, CONFIG.SUBSCRIPTION_CHECK_INTERVAL_MS);
+    }
+
+    async checkProSubscriptions(): Promise<void> {
+        if (this.subscriptionRunning) return;
+        this.subscriptionRunning = true;
+        try {
+            const now = new Date();
+            const reminderCutoff = new Date(now);
+            reminderCutoff.setDate(reminderCutoff.getDate() + CONFIG.PRO_REMINDER_DAYS);
+
+            for (const user of await this.db.getProUsersDueForNotice('pro_reminded_for', reminderCutoff)) {
+                const expiresAt = new Date(user.pro_expires_at);
+                if (expiresAt <= now) continue; // Covered by the expiry notice
+                if (!(await this.db.claimProNotice(user.user_id, 'pro_reminded_for', user.pro_expires_at))) continue;
+                const days = Math.ceil((expiresAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+                await this.notifyProUser(
+                    user.user_id,
+                    `⏰ **Pro会員の有効期限まであと${days}日です**（${formatBusinessDate(expiresAt)}まで）\n\n期限前に更新すると、現在の有効期限から${CONFIG.PRO_DURATION_DAYS}日間延長されます。`
+                );
+            }
+
+            for (const user of await this.db.getProUsersDueForNotice('pro_expiry_notified_for', now)) {
+                const graceEnd = getProGraceEnd(new Date(user.pro_expires_at));
+                if (graceEnd <= now) {
+                    await this.db.isPro(user.user_id); // Ends the subscription
+                    continue;
+                }
+                if (!(await this.db.claimProNotice(user.user_id, 'pro_expiry_notified_for', user.pro_expires_at))) continue;
+                await this.notifyProUser(
+                    user.user_id,
+                    `⚠️ **Pro会員の有効期限が切れました**\n\n${formatBusinessDate(graceEnd)}までは猶予期間として引き続きご利用いただけます。猶予期間中に更新すると、元の有効期限から延長されます。`
+                );
+            }
+        } finally {
+            this.subscriptionRunning = false;
+        }
+    }
+
+    // Sent where the user was last quoted, with fresh renewal links
+    private async notifyProUser(userId: string, text: string): Promise<void> {
+        const origin = await this.db.getLatestIntentWithOrigin(userId);
+        if (!origin) {
+            logger.info(`[X402_PRO] No conversation to notify ${userId} in`);
+            return;
+        }
+        const quote = await getPaymentQuote(this.db, userId, {
+            roomId: origin.room_id || undefined,
+            agentId: origin.agent_id || undefined,
+            source: origin.source || undefined,
+        });
+        await this.notifyIntentOrigin(origin, quote ? `${text}\n\n${formatProRenewalLines(userId, quote)}` : text);
+        logger.info(`[X402_PRO] Notified ${userId}`);
+    }
+
+    private async notifyIntentOrigin(intent: PaymentIntent, text: string): Promise<void> {
+        if (!intent.room_id || !intent.source) return;
+        const service = (intent.agent_id && X402Service.instances.get(intent.agent_id)) || this;
+        try {
+            await service.runtime.sendMessageToTarget(
+                { source: intent.source, roomId: intent.room_id as UUID },
+                { text, source: intent.source }
+            );
+        } catch (error) {
+            logger.warn(`[X402_WATCHER] Could not notify room ${intent.room_id} (${intent.source}):`, error);
+        }
+    }
+
+    setFacilitator(facilitator: X402Facilitator | null): void {
+        this.facilitator = facilitator;
+    }
+
+    // Verify and settle a signed EIP-3009 TransferWithAuthorization, then credit the user
+    async settleAuthorization(
+        payload: ExactEvmPayload,
+        requirements: X402PaymentRequirements,
+        userId?: string
+    ): Promise<{ success: boolean; error?: string; userId?: string; transaction?: string; payer?: string; plan?: 'pro' | 'daily' | 'single'; creditsAdded?: number }> {
+        if (!this.facilitator) {
+            return { success: false, error: 'EIP-3009 settlement is not configured' };
+        }
+
+        const nonceKey = `${requirements.network}:${payload.authorization.nonce.toLowerCase()}`;
+        if (this.settlingNonces.has(nonceKey)) {
+            return { success: false, error: 'Authorization is already being settled' };
+        }
+        this.settlingNonces.add(nonceKey);
+
+        try {
+            const verification = await this.facilitator.verify(payload, requirements);
+            if (!verification.isValid) {
+                return { success: false, error: verification.invalidReason || 'Invalid authorization' };
+            }
+
+            const settlement = await this.facilitator.settle(payload, requirements);
+            if (!settlement.success || !settlement.transaction) {
+                return { success: false, error: settlement.errorReason || 'Settlement failed' };
+            }
+
+            const asset = getRequirementsAsset(requirements);
+            if (!asset) {
+                return { success: false, error: `Unsupported asset ${requirements.asset} on ${requirements.network}` };
+            }
+            const payer = payload.authorization.from;
+            const amount = parseFloat(ethers.formatUnits(payload.authorization.value, asset.decimals));
+            const creditedUserId = userId || await this.db.resolveAccount(getWalletIdentity(payer));
+            // We submitted this transfer ourselves; the reorg re-check still covers it
+            const applied = await applyVerifiedPayment(this.db, creditedUserId, settlement.transaction, {
+                verified: true,
+                amount,
+                asset,
+                payer,
+                ...getPlanFlags(asset, amount),
+            });
+            if (!applied) {
+                return { success: false, error: 'Transaction has already been used' };
+            }
+
+            logger.info(`[X402] EIP-3009 payment settled for ${creditedUserId}: ${settlement.transaction}`);
+            return { success: true, userId: creditedUserId, transaction: settlement.transaction, payer, ...applied };
+        } catch (error: any) {
+            logger.error('[X402] EIP-3009 settlement error:', error);
+            return { success: false, error: error.message };
+        } finally {
+            this.settlingNonces.delete(nonceKey);
+        }
+    }
+}
@@ -0,0 +1,245 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import path from 'path';
+import fs from 'fs';
+import { CONFIG } from './config';
+
+// ============================================
+// Storage Backends (sql.js file or Postgres/PGlite via @elizaos/plugin-sql)
+// ============================================
+// Queries use `?` placeholders and SQL that both SQLite and Postgres accept;
+// the few type differences in the schema are resolved from `dialect`.
+export type X402StoreDialect = 'sqlite' | 'postgres';
+
+export interface X402StoreExecutor {
+    // Returns the number of rows changed, so conditional updates can be used as atomic checks
+    run(sql: string, params?: unknown[]): Promise<number>;
+    // Also runs UPDATE ... RETURNING (SQLite 3.35+ and Postgres) to read a value as it is changed
+    all<T = Record<string, any>>(sql: string, params?: unknown[]): Promise<T[]>;
+}
+
+export interface X402Store extends X402StoreExecutor {
+    readonly dialect: X402StoreDialect;
+    init(): Promise<void>;
+    // Runs `fn` in one transaction: everything it executes through `tx` commits or rolls back together
+    transaction<T>(fn: (tx: X402StoreExecutor) => Promise<T>): Promise<T>;
+    flush(): Promise<void>;
+    close(): Promise<void>;
+    describe(): string;
+}
+
+// Tables owned by the x402 plugin (qualified with the x402 schema on Postgres)
+const X402_TABLES = [
+    'users', 'payments', 'payment_intents', 'watcher_cursors', 'schema_migrations',
+    'admin_credentials', 'admin_sessions', 'admin_login_attempts', 'ledger', 'access_reservations',
+    'message_claims', 'identities', 'link_codes', 'wallets', 'refunds',
+    'coupons', 'coupon_redemptions', 'referral_codes', 'referrals', 'client_spends',
+    'agent_transactions', 'tx_policy_settings', 'usage_daily', 'wallet_sessions',
+];
+
+// In-memory sql.js database persisted to a file. Writes are batched into one debounced flush,
+// and each flush writes a temp file and renames it so a crash never leaves a torn x402.db.
+// Only one process may own the file; use the postgres store for multiple replicas.
+class SqlJsStore implements X402Store {
+    readonly dialect = 'sqlite' as const;
+    private db: SqlJsDatabase | null = null;
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private dirty = false;
+    private inTransaction = false;
+
+    constructor(private dbPath: string) {}
+
+    async init(): Promise<void> {
+        const dir = path.dirname(this.dbPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const SQL = await initSqlJs();
+        if (fs.existsSync(this.dbPath)) {
+            this.db = new SQL.Database(fs.readFileSync(this.dbPath));
+            logger.info(`[X402DB] Loaded existing database from: ${this.dbPath}`);
+        } else {
+            this.db = new SQL.Database();
+            logger.info(`[X402DB] Created new database`);
+        }
+
+        // Pending writes must reach the disk even when the process exits between flushes
+        process.once('exit', () => this.flushSync());
+    }
+
+    async run(sql: string, params: unknown[] = []): Promise<number> {
+        if (!this.db) return 0;
+        this.db.run(sql, params as any[]);
+        const changed = this.db.getRowsModified();
+        this.scheduleFlush();
+        return changed;
+    }
+
+    async all<T = Record<string, any>>(sql: string, params: unknown[] = []): Promise<T[]> {
+        if (!this.db) return [];
+        const stmt = this.db.prepare(sql);
+        stmt.bind(params as any[]);
+        const rows: T[] = [];
+        while (stmt.step()) {
+            rows.push(stmt.getAsObject() as unknown as T);
+        }
+        stmt.free();
+        if (/^\s*(INSERT|UPDATE|DELETE)\b/i.test(sql)) {
+            this.scheduleFlush();
+        }
+        return rows;
+    }
+
+    // Nothing else may use the store while this is open (migrations run before it is shared)
+    async transaction<T>(fn: (tx: X402StoreExecutor) => Promise<T>): Promise<T> {
+        if (!this.db) throw new Error('sql.js store is not initialized');
+        this.db.run('BEGIN');
+        this.inTransaction = true;
+        try {
+            const result = await fn(this);
+            this.db.run('COMMIT');
+            return result;
+        } catch (error) {
+            this.db.run('ROLLBACK');
+            throw error;
+        } finally {
+            this.inTransaction = false;
+            this.scheduleFlush();
+        }
+    }
+
+    async flush(): Promise<void> {
+        this.flushSync();
+    }
+
+    async close(): Promise<void> {
+        this.flushSync();
+        this.db?.close();
+        this.db = null;
+    }
+
+    describe(): string {
+        return `sql.js file ${this.dbPath}`;
+    }
+
+    private scheduleFlush(): void {
+        this.dirty = true;
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => this.flushSync(), CONFIG.STORE_FLUSH_DELAY_MS);
+    }
+
+    private flushSync(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        if (!this.db || !this.dirty) return;
+        // export() reopens the database, which would drop an open transaction
+        if (this.inTransaction) return;
+        try {
+            const tmpPath = `${this.dbPath}.${process.pid}.tmp`;
+            fs.writeFileSync(tmpPath, Buffer.from(this.db.export()));
+            fs.renameSync(tmpPath, this.dbPath);
+            this.dirty = false;
+        } catch (error) {
+            logger.error(`[X402DB] Failed to save database:`, error);
+        }
+    }
+}
+
+// Minimal surface shared by the pg Pool and PGlite clients that plugin-sql hands out
+type PgQueryable = {
+    query(sql: string, params?: unknown[]): Promise<{ rows: any[]; rowCount?: number | null; affectedRows?: number }>;
+    // pg Pool: transactions need a dedicated client
+    connect?(): Promise<PgQueryable & { release(): void }>;
+    // PGlite: single connection with its own transaction helper
+    transaction?<T>(fn: (tx: PgQueryable) => Promise<T>): Promise<T>;
+};
+
+// Shares the agent runtime's database (Postgres or PGlite, whichever plugin-sql is configured with).
+// Tables live in their own schema so they cannot collide with ElizaOS tables.
+class PostgresStore implements X402Store {
+    readonly dialect = 'postgres' as const;
+    private tablePattern = new RegExp(`(?<![.\\w])(${X402_TABLES.join('|')})\\b`, 'g');
+
+    constructor(private client: PgQueryable, private schema: string) {}
+
+    async init(): Promise<void> {
+        await this.client.query(`CREATE SCHEMA IF NOT EXISTS ${this.schema}`);
+    }
+
+    async run(sql: string, params: unknown[] = []): Promise<number> {
+        const result = await this.client.query(this.toPostgres(sql), params);
+        return result.rowCount ?? result.affectedRows ?? 0;
+    }
+
+    async all<T = Record<string, any>>(sql: string, params: unknown[] = []): Promise<T[]> {
+        const result = await this.client.query(this.toPostgres(sql), params);
+        return result.rows as T[];
+    }
+
+    async transaction<T>(fn: (tx: X402StoreExecutor) => Promise<T>): Promise<T> {
+        if (this.client.transaction) {
+            return this.client.transaction(tx => fn(new PostgresStore(tx, this.schema)));
+        }
+        if (!this.client.connect) {
+            throw new Error('The database connection does not support transactions');
+        }
+
+        const conn = await this.client.connect();
+        try {
+            await conn.query('BEGIN');
+            const result = await fn(new PostgresStore(conn, this.schema));
+            await conn.query('COMMIT');
+            return result;
+        } catch (error) {
+            await conn.query('ROLLBACK');
+            throw error;
+        } finally {
+            conn.release();
+        }
+    }
+
+    async flush(): Promise<void> {
+        // Every statement is committed as it runs
+    }
+
+    async close(): Promise<void> {
+        // The connection belongs to the runtime's database adapter
+    }
+
+    describe(): string {
+        return `postgres schema ${this.schema}`;
+    }
+
+    // `?` -> `$n`, and bare x402 table names -> schema-qualified names
+    private toPostgres(sql: string): string {
+        let index = 0;
+        return sql
+            .replace(/\?/g, () => `$${++index}`)
+            .replace(this.tablePattern, `${this.schema}.$1`);
+    }
+}
+
+export async function createX402Store(runtime?: IAgentRuntime): Promise<X402Store> {
+    if (CONFIG.STORE === 'postgres') {
+        if (!runtime) {
+            throw new Error('The postgres x402 store needs an agent runtime');
+        }
+        const client = await runtime.getConnection() as PgQueryable;
+        if (!client || typeof client.query !== 'function') {
+            throw new Error('X402_STORE=postgres requires @elizaos/plugin-sql (Postgres or PGlite) as the database adapter');
+        }
+        return new PostgresStore(client, CONFIG.STORE_SCHEMA);
+    }
+    return new SqlJsStore(path.join(CONFIG.DB_DIR, 'x402.db'));
+}
+
+// Timestamps are ISO strings, except SQLite CURRENT_TIMESTAMP defaults ('YYYY-MM-DD HH:MM:SS', UTC)
+export function parseDbTimestamp(value: string): Date {
+    return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+        ? new Date(value.replace(' ', 'T') + 'Z')
+        : new Date(value);
+}
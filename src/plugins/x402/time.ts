@@ -0,0 +1,52 @@
+import { CONFIG } from './config';
+
+// ============================================
+// Business Day (JST day boundaries)
+// ============================================
+// Calendar date (YYYY-MM-DD) in the business timezone
+export function getBusinessDate(at: Date = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', {
+        timeZone: CONFIG.TIMEZONE,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    }).format(at);
+}
+
+// How far the business timezone's wall clock is ahead of UTC at `at`
+function getTimeZoneOffsetMs(at: Date): number {
+    const parts: Record<string, string> = {};
+    for (const part of new Intl.DateTimeFormat('en-US', {
+        timeZone: CONFIG.TIMEZONE,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(at)) {
+        parts[part.type] = part.value;
+    }
+    const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+// Last millisecond of the business day containing `at` (independent of the server's TZ)
+export function getBusinessDayEnd(at: Date = new Date()): Date {
+    const [year, month, day] = getBusinessDate(at).split('-').map(Number);
+    const nextMidnight = Date.UTC(year, month - 1, day + 1);
+    // Resolve the offset at midnight itself, which differs from now across a DST change
+    const guess = nextMidnight - getTimeZoneOffsetMs(at);
+    return new Date(nextMidnight - getTimeZoneOffsetMs(new Date(guess)) - 1);
+}
+
+export function formatBusinessDate(date: Date): string {
+    return date.toLocaleDateString('ja-JP', { timeZone: CONFIG.TIMEZONE });
+}
+
+export function getProGraceEnd(expiresAt: Date): Date {
+    const graceEnd = new Date(expiresAt);
+    graceEnd.setDate(graceEnd.getDate() + CONFIG.PRO_GRACE_DAYS);
+    return graceEnd;
+}
@@ -0,0 +1,506 @@
+import type { IAgentRuntime, Memory, Action, State, HandlerCallback, ActionResult } from '@elizaos/core';
+import { logger, Service } from '@elizaos/core';
+import { ethers } from 'ethers';
+import { CONFIG } from './config';
+import { X402Database } from './database';
+import type { X402Service } from './service';
+import type { AdminRouteHandler } from './admin-routes';
+
+// ============================================
+// Agent Transactions (on-chain writes under the transaction policy)
+// ============================================
+// pending waits for an admin; sending and sent (and failed ones that reached the chain) count toward the budgets
+export type AgentTransactionStatus = 'pending' | 'approved' | 'sending' | 'sent' | 'failed' | 'rejected' | 'expired';
+
+export type AgentTransaction = {
+    id: string;
+    agent_id: string;
+    kind: string; // e.g. erc8004:endorseAgent
+    signer: string; // name the sending service registered its wallet under
+    chain_id: number;
+    to_address: string;
+    data: string;
+    value: string; // wei
+    gas_limit: string;
+    cost: number; // worst case, in the chain's native token
+    description: string;
+    requested_by: string | null;
+    status: AgentTransactionStatus;
+    tx_hash: string | null;
+    error: string | null;
+    reviewed_by: string | null;
+    business_date: string;
+    created_at: string;
+    expires_at: string | null;
+    reviewed_at: string | null;
+    sent_at: string | null;
+};
+
+// ============================================
+// Transaction Policy (on-chain writes the agents send from hot keys)
+// ============================================
+// Services register their wallet with `runtime.getService<TxPolicyService>('tx-policy')?.registerSigner(name, wallet)`
+// and submit each write instead of sending it. Its worst-case cost is checked against the per-kind and
+// daily budgets; above the approval threshold it waits for an admin (chat or REST), and the kill switch
+// stops everything. Approved transactions are sent by the agent that submitted them.
+export type AgentTransactionRequest = {
+    kind: string; // '<service>:<method>', the key of its budget in X402_TX_BUDGETS
+    signer: string;
+    to: string;
+    data: string;
+    value?: bigint;
+    description: string; // shown to the admin who approves it
+    requestedBy?: string; // the user whose message led to it
+    requireApproval?: boolean;
+};
+
+export type AgentTransactionResult =
+    | { status: 'sent'; id: string; txHash: string }
+    | { status: 'pending'; id: string; expiresAt: Date }
+    | { status: 'rejected' | 'failed'; id?: string; error: string };
+
+// Called when a transaction that waited for approval reaches the chain, so the submitting service can
+// refresh whatever it would have refreshed after an immediate send
+export type AgentTransactionSentHandler = (tx: { id: string; kind: string; data: string; txHash: string }) => Promise<void>;
+
+type TxBudget = { maxPerTx: number; dailyBudget: number; approvalThreshold: number };
+
+// Per-kind overrides of the X402_TX_* limits (the daily budget across all kinds always applies too)
+function loadTxBudgets(): Record<string, Partial<TxBudget>> {
+    if (!CONFIG.TX_BUDGETS) return {};
+    try {
+        const overrides = JSON.parse(CONFIG.TX_BUDGETS) as Record<string, Record<string, unknown>>;
+        for (const [kind, budget] of Object.entries(overrides)) {
+            for (const [key, limit] of Object.entries(budget)) {
+                if (!['maxPerTx', 'dailyBudget', 'approvalThreshold'].includes(key) || typeof limit !== 'number' || !(limit >= 0)) {
+                    throw new Error(`${kind}.${key} must be a known non-negative limit`);
+                }
+            }
+        }
+        logger.info(`[X402_TX] Transaction budgets: ${JSON.stringify(overrides)}`);
+        return overrides as Record<string, Partial<TxBudget>>;
+    } catch (error) {
+        logger.error('[X402_TX] Invalid X402_TX_BUDGETS, using the default limits for every kind:', error);
+        return {};
+    }
+}
+
+const TX_BUDGETS = loadTxBudgets();
+
+function getTxBudget(kind: string): TxBudget {
+    return {
+        maxPerTx: CONFIG.TX_MAX_PER_TX,
+        dailyBudget: CONFIG.TX_DAILY_BUDGET,
+        approvalThreshold: CONFIG.TX_APPROVAL_THRESHOLD,
+        ...TX_BUDGETS[kind],
+    };
+}
+
+type TxEstimate = {
+    chainId: number;
+    gasLimit: bigint;
+    fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint };
+    cost: number;
+};
+
+// The fee cap is sent with the transaction, so it can never cost more than estimated
+async function estimateAgentTransaction(signer: ethers.Signer, tx: { to: string; data: string; value: bigint }): Promise<TxEstimate> {
+    if (!signer.provider) throw new Error('Signer has no provider');
+    const [network, feeData, gas] = await Promise.all([
+        signer.provider.getNetwork(),
+        signer.provider.getFeeData(),
+        signer.estimateGas(tx),
+    ]);
+    const gasLimit = (gas * 120n) / 100n;
+    const fees: TxEstimate['fees'] | null = feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null
+        ? { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+        : feeData.gasPrice !== null ? { gasPrice: feeData.gasPrice } : null;
+    if (!fees) throw new Error('No fee data from the RPC');
+    const feePerGas = 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas;
+    return { chainId: Number(network.chainId), gasLimit, fees, cost: Number(ethers.formatEther(gasLimit * feePerGas + tx.value)) };
+}
+
+function getNativeSymbol(chainId: number): string {
+    return chainId === 137 || chainId === 80002 ? 'POL' : 'ETH';
+}
+
+const TX_KILL_SWITCH_KEY = 'kill_switch';
+
+export class TxPolicyService extends Service {
+    static serviceType = 'tx-policy';
+    capabilityDescription = 'Checks on-chain writes from agent hot keys against budgets, admin approvals and a kill switch';
+    private db: X402Database;
+    private signers = new Map<string, ethers.Signer>();
+    private sentHandlers = new Map<string, AgentTransactionSentHandler>();
+    private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+    // Approvals arrive on any agent; the one that submitted the transaction holds its signer
+    private static instances = new Map<string, TxPolicyService>();
+
+    constructor(runtime: IAgentRuntime) {
+        super(runtime);
+        this.db = X402Database.getInstance();
+    }
+
+    static async start(runtime: IAgentRuntime) {
+        const service = new TxPolicyService(runtime);
+        await service.db.init(runtime);
+        TxPolicyService.instances.set(runtime.agentId, service);
+        service.sweepTimer = setInterval(() => {
+            service.sweep().catch(error => logger.error('[X402_TX] Transaction sweep failed:', error));
+        }, CONFIG.TX_SWEEP_INTERVAL_MS);
+        logger.info(`*** Transaction policy: ${CONFIG.TX_MAX_PER_TX} per tx, ${CONFIG.TX_DAILY_BUDGET} per day, approval above ${CONFIG.TX_APPROVAL_THRESHOLD}${CONFIG.TX_KILL_SWITCH ? ' (kill switch on)' : ''} ***`);
+        return service;
+    }
+
+    static async stop(_runtime: IAgentRuntime) {
+        logger.info('*** Stopping transaction policy service ***');
+    }
+
+    async stop() {
+        logger.info('*** Stopping transaction policy service instance ***');
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+        TxPolicyService.instances.delete(this.runtime.agentId);
+    }
+
+    static isRunningFor(agentId: string): boolean {
+        return TxPolicyService.instances.has(agentId);
+    }
+
+    // X402_TX_KILL_SWITCH=true cannot be turned off from the admin API
+    static async isHalted(): Promise<boolean> {
+        return CONFIG.TX_KILL_SWITCH || (await X402Database.getInstance().getTxPolicySetting(TX_KILL_SWITCH_KEY)) === 'on';
+    }
+
+    static async setKillSwitch(enabled: boolean, actor: string): Promise<void> {
+        await X402Database.getInstance().setTxPolicySetting(TX_KILL_SWITCH_KEY, enabled ? 'on' : 'off', actor);
+        logger.warn(`[X402_TX] Kill switch turned ${enabled ? 'on' : 'off'} by ${actor}`);
+    }
+
+    // Sent right away when the submitting agent runs in this process; otherwise its sweep sends it
+    static async approve(id: string, actor: string): Promise<{ success: boolean; transaction?: AgentTransaction; result?: AgentTransactionResult; error?: string }> {
+        const db = X402Database.getInstance();
+        const tx = await db.getAgentTransaction(id);
+        if (!tx) return { success: false, error: `Unknown transaction: ${id}` };
+        if (tx.status !== 'pending') return { success: false, transaction: tx, error: `Transaction is already ${tx.status}` };
+        if (!(await db.reviewAgentTransaction(id, 'approved', actor))) {
+            return { success: false, transaction: tx, error: 'Transaction expired or changed while approving' };
+        }
+        logger.info(`[X402_TX] Transaction ${id} (${tx.kind}) approved by ${actor}`);
+
+        const owner = TxPolicyService.instances.get(tx.agent_id);
+        const result = owner ? await owner.sendApproved(id) : undefined;
+        return { success: true, transaction: (await db.getAgentTransaction(id))!, result };
+    }
+
+    static async reject(id: string, actor: string, reason?: string): Promise<boolean> {
+        const rejected = await X402Database.getInstance().reviewAgentTransaction(id, 'rejected', actor, reason);
+        if (rejected) logger.info(`[X402_TX] Transaction ${id} rejected by ${actor}`);
+        return rejected;
+    }
+
+    // Re-registering a name replaces the wallet (transactions already submitted keep the name)
+    registerSigner(name: string, signer: ethers.Signer, onApprovedSent?: AgentTransactionSentHandler): void {
+        this.signers.set(name, signer);
+        if (onApprovedSent) {
+            this.sentHandlers.set(name, onApprovedSent);
+        }
+    }
+
+    async submit(request: AgentTransactionRequest): Promise<AgentTransactionResult> {
+        const signer = this.signers.get(request.signer);
+        if (!signer) return { status: 'failed', error: `Signer ${request.signer} is not registered` };
+
+        const value = request.value ?? 0n;
+        let estimate: TxEstimate;
+        try {
+            estimate = await estimateAgentTransaction(signer, { to: request.to, data: request.data, value });
+        } catch (error) {
+            // A write that cannot be estimated would revert
+            return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+        }
+
+        const budget = getTxBudget(request.kind);
+        const record = {
+            agentId: this.runtime.agentId,
+            kind: request.kind,
+            signer: request.signer,
+            chainId: estimate.chainId,
+            to: request.to,
+            data: request.data,
+            value: value.toString(),
+            gasLimit: estimate.gasLimit.toString(),
+            cost: estimate.cost,
+            description: request.description,
+            requestedBy: request.requestedBy,
+        };
+
+        const rejection = (await TxPolicyService.isHalted()) ? 'kill_switch' : estimate.cost > budget.maxPerTx ? 'per_tx_limit' : null;
+        if (rejection) {
+            const tx = await this.db.createAgentTransaction(record, 'rejected', rejection);
+            logger.warn(`[X402_TX] ${request.kind} rejected (${rejection}): ${estimate.cost} ${getNativeSymbol(estimate.chainId)}`);
+            return { status: 'rejected', id: tx.id, error: rejection };
+        }
+
+        if (request.requireApproval || estimate.cost > budget.approvalThreshold) {
+            const tx = await this.db.createAgentTransaction(record, 'pending');
+            logger.info(`[X402_TX] ${request.kind} ${tx.id} is waiting for approval (${estimate.cost} ${getNativeSymbol(estimate.chainId)})`);
+            await this.notifyApprovers(tx);
+            return { status: 'pending', id: tx.id, expiresAt: new Date(tx.expires_at!) };
+        }
+
+        const tx = await this.db.createAgentTransaction(record, 'sending');
+        return this.send(tx, signer, estimate);
+    }
+
+    // While the kill switch is on an approved transaction stays approved (an admin can still reject it)
+    async sendApproved(id: string): Promise<AgentTransactionResult> {
+        const tx = await this.db.getAgentTransaction(id);
+        if (!tx || tx.status !== 'approved' || tx.agent_id !== this.runtime.agentId) {
+            return { status: 'failed', id, error: 'Only an approved transaction of this agent can be sent' };
+        }
+        const signer = this.signers.get(tx.signer);
+        if (!signer) return { status: 'failed', id, error: `Signer ${tx.signer} is not registered` };
+        if (await TxPolicyService.isHalted()) return { status: 'rejected', id, error: 'kill_switch' };
+
+        // Fees may have moved since it was submitted
+        let estimate: TxEstimate;
+        try {
+            estimate = await estimateAgentTransaction(signer, { to: tx.to_address, data: tx.data, value: BigInt(tx.value) });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await this.db.finishAgentTransaction(id, 'failed', { error: message });
+            return { status: 'failed', id, error: message };
+        }
+        if (estimate.cost > getTxBudget(tx.kind).maxPerTx) {
+            await this.db.finishAgentTransaction(id, 'rejected', { error: 'per_tx_limit' });
+            return { status: 'rejected', id, error: 'per_tx_limit' };
+        }
+        if (!(await this.db.claimAgentTransaction(id, { gasLimit: estimate.gasLimit.toString(), cost: estimate.cost }))) {
+            return { status: 'failed', id, error: 'Transaction is already being sent' };
+        }
+        const result = await this.send((await this.db.getAgentTransaction(id))!, signer, estimate);
+        const onSent = this.sentHandlers.get(tx.signer);
+        if (result.status === 'sent' && onSent) {
+            try {
+                await onSent({ id, kind: tx.kind, data: tx.data, txHash: result.txHash });
+            } catch (error) {
+                logger.warn(`[X402_TX] Sent handler of ${tx.signer} failed for ${id}:`, error);
+            }
+        }
+        return result;
+    }
+
+    private async send(tx: AgentTransaction, signer: ethers.Signer, estimate: TxEstimate): Promise<AgentTransactionResult> {
+        const budget = getTxBudget(tx.kind);
+        if (!(await this.db.checkAgentTransactionBudget(tx, { daily: CONFIG.TX_DAILY_BUDGET, kindDaily: budget.dailyBudget }))) {
+            logger.warn(`[X402_TX] ${tx.kind} ${tx.id} is over today's budget - not sent`);
+            return { status: 'rejected', id: tx.id, error: 'daily_budget' };
+        }
+
+        try {
+            const response = await signer.sendTransaction({
+                to: tx.to_address,
+                data: tx.data,
+                value: BigInt(tx.value),
+                chainId: tx.chain_id,
+                gasLimit: estimate.gasLimit,
+                ...estimate.fees,
+            });
+            await this.db.setAgentTransactionHash(tx.id, response.hash);
+            logger.info(`[X402_TX] ${tx.kind} ${tx.id} submitted: ${response.hash}`);
+            const receipt = await response.wait();
+            if (!receipt || receipt.status !== 1) throw new Error(`Transaction ${response.hash} reverted`);
+            await this.db.finishAgentTransaction(tx.id, 'sent', { txHash: response.hash });
+            return { status: 'sent', id: tx.id, txHash: response.hash };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.error(`[X402_TX] ${tx.kind} ${tx.id} failed: ${message}`);
+            await this.db.finishAgentTransaction(tx.id, 'failed', { error: message });
+            return { status: 'failed', id: tx.id, error: message };
+        }
+    }
+
+    // Expires stale approvals and sends this agent's approved transactions (approved on another replica, or
+    // while its signer was not registered yet)
+    private async sweep(): Promise<void> {
+        const expired = await this.db.expireAgentTransactions();
+        if (expired > 0) {
+            logger.info(`[X402_TX] ${expired} transaction(s) expired without approval`);
+        }
+        if (await TxPolicyService.isHalted()) return;
+        const approved = await this.db.findAgentTransactions({ agentId: this.runtime.agentId, status: 'approved' });
+        for (const tx of approved.filter(tx => this.signers.has(tx.signer))) {
+            await this.sendApproved(tx.id);
+        }
+    }
+
+    // Admin DMs (X402_TX_APPROVAL_NOTIFY) get the approve / reject commands
+    private async notifyApprovers(tx: AgentTransaction): Promise<void> {
+        const targets = CONFIG.TX_APPROVAL_NOTIFY.split(',').map(target => target.trim()).filter(Boolean);
+        for (const target of targets) {
+            const separator = target.indexOf(':');
+            const source = target.slice(0, separator);
+            const channelId = target.slice(separator + 1);
+            if (separator <= 0 || !channelId) {
+                logger.warn(`[X402_TX] Invalid approval notify target: ${target}`);
+                continue;
+            }
+            try {
+                await this.runtime.sendMessageToTarget({ source, channelId }, { text: formatAgentTransactionApproval(tx), source });
+            } catch (error) {
+                logger.warn(`[X402_TX] Could not notify ${target}:`, error);
+            }
+        }
+    }
+}
+
+// ============================================
+// Transaction Approvals (chat)
+// ============================================
+// Admins with the billing scope answer the approval DM with "承認 tx <id>" / "却下 tx <id> 理由"
+// (or "/tx approve <id>" / "/tx reject <id> reason")
+const TX_REVIEW_COMMAND_REGEX = /^\/?(?:tx\s+(approve|reject)|(承認|却下)\s*tx)\s*[:：]?\s*([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\s*(.*)$/is;
+
+export function getTxReviewCommand(message: Memory): { decision: 'approve' | 'reject'; id: string; reason: string } | null {
+    const match = (message.content.text || '').trim().match(TX_REVIEW_COMMAND_REGEX);
+    if (!match) return null;
+    const decision = match[1] ? match[1].toLowerCase() === 'approve' : match[2] === '承認';
+    return { decision: decision ? 'approve' : 'reject', id: match[3].toLowerCase(), reason: match[4].trim() };
+}
+
+function formatAgentTransactionApproval(tx: AgentTransaction): string {
+    return `🔐 **トランザクションの承認リクエスト**
+
+• 種類: ${tx.kind}
+• 内容: ${tx.description}
+• 宛先: \`${tx.to_address}\`（チェーン ${tx.chain_id}）
+• 最大コスト: ${tx.cost} ${getNativeSymbol(tx.chain_id)}（ガス代 + 送金額）
+• 期限: ${tx.expires_at ? new Date(tx.expires_at).toLocaleString('ja-JP', { timeZone: CONFIG.TIMEZONE }) : '-'}
+
+承認: 「承認 tx ${tx.id}」
+却下: 「却下 tx ${tx.id} 理由」
+※ billing 権限の管理者ログインが必要です。`;
+}
+
+function formatAgentTransactionResult(result: AgentTransactionResult | undefined): string {
+    if (!result) return 'このトランザクションは送信元のエージェントが送信します。';
+    switch (result.status) {
+        case 'sent':
+            return `送信しました: \`${result.txHash}\``;
+        case 'rejected':
+            return result.error === 'kill_switch'
+                ? '⛔ キルスイッチが有効なため送信を保留しています（解除後に送信されます）。'
+                : `❌ 予算の上限を超えるため送信しませんでした（${result.error}）。`;
+        case 'failed':
+            return `❌ 送信に失敗しました（${result.error}）。`;
+        default:
+            return '承認待ちです。';
+    }
+}
+
+// Transaction Review Action: an admin approves or rejects a transaction waiting for approval
+export const reviewTransactionAction: Action = {
+    name: 'REVIEW_TRANSACTION',
+    similes: ['承認 tx', '却下 tx', 'tx approve', 'tx reject'],
+    description: 'Approves or rejects an on-chain transaction that is waiting for admin approval (admins only)',
+
+    validate: async (_runtime: IAgentRuntime, message: Memory, _state: State): Promise<boolean> => {
+        return !!getTxReviewCommand(message);
+    },
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state: State,
+        _options: any,
+        callback: HandlerCallback,
+        _responses: Memory[]
+    ): Promise<ActionResult> => {
+        const service = runtime.getService<X402Service>('x402');
+        const command = getTxReviewCommand(message);
+        if (!service || !command) return { success: false };
+
+        const db = service.getDatabase();
+        const tx = await db.getAgentTransaction(command.id);
+        // Every agent in the room sees the command; the one that submitted the transaction answers
+        if (tx && tx.agent_id !== runtime.agentId && TxPolicyService.isRunningFor(tx.agent_id)) {
+            return { success: false };
+        }
+
+        const actor = await service.getAdminAuth().getSenderCredential(message, 'billing');
+        if (!actor) {
+            await callback({ text: '🔒 トランザクションの承認には billing 権限の管理者ログインが必要です。', source: message.content.source });
+            return { success: false };
+        }
+
+        let text: string;
+        if (command.decision === 'approve') {
+            const approved = await TxPolicyService.approve(command.id, actor);
+            text = approved.success
+                ? `✅ トランザクション ${command.id} を承認しました。\n${formatAgentTransactionResult(approved.result)}`
+                : `❌ 承認できませんでした（${approved.error}）。`;
+        } else {
+            text = (await TxPolicyService.reject(command.id, actor, command.reason || undefined))
+                ? `🚫 トランザクション ${command.id} を却下しました。`
+                : '❌ 承認待ちまたは承認済みのトランザクションだけ却下できます。';
+        }
+        await callback({ text, source: message.content.source });
+        return { success: true };
+    },
+    examples: []
+};
+
+// ============================================
+// Admin REST API (transactions)
+// ============================================
+// Query: agent, kind, status, limit - on-chain writes under the transaction policy, newest first
+export const adminListTransactionsHandler: AdminRouteHandler = async (req, res, db) => {
+    const query = (req.query || {}) as Record<string, string | undefined>;
+    const status = query.status as AgentTransactionStatus | undefined;
+    if (status && !['pending', 'approved', 'sending', 'sent', 'failed', 'rejected', 'expired'].includes(status)) {
+        res.status(400).json({ error: `Unknown status: ${status}` });
+        return;
+    }
+    const transactions = await db.findAgentTransactions({
+        agentId: query.agent,
+        kind: query.kind,
+        status,
+        limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    });
+    res.status(200).json({ transactions, killSwitch: await TxPolicyService.isHalted() });
+};
+
+export const adminApproveTransactionHandler: AdminRouteHandler = async (req, res, _db, _service, actor) => {
+    const approved = await TxPolicyService.approve(req.params?.id || '', actor);
+    if (!approved.success) {
+        res.status(approved.transaction ? 409 : 404).json({ error: approved.error, transaction: approved.transaction });
+        return;
+    }
+    res.status(200).json({ success: true, transaction: approved.transaction, result: approved.result });
+};
+
+// Body: { reason? }
+export const adminRejectTransactionHandler: AdminRouteHandler = async (req, res, db, _service, actor) => {
+    const id = req.params?.id || '';
+    const reason = (req.body as { reason?: unknown } | undefined)?.reason;
+    if (!(await TxPolicyService.reject(id, actor, typeof reason === 'string' ? reason : undefined))) {
+        res.status(409).json({ error: 'Only a pending or approved transaction can be rejected' });
+        return;
+    }
+    res.status(200).json({ success: true, transaction: await db.getAgentTransaction(id) });
+};
+
+// Body: { enabled } - stops (or resumes) every on-chain write of the agents, refunds included
+export const adminKillSwitchHandler: AdminRouteHandler = async (req, res, _db, _service, actor) => {
+    const enabled = (req.body as { enabled?: unknown } | undefined)?.enabled;
+    if (typeof enabled !== 'boolean') {
+        res.status(400).json({ error: 'enabled must be a boolean' });
+        return;
+    }
+    await TxPolicyService.setKillSwitch(enabled, actor);
+    res.status(200).json({ success: true, killSwitch: await TxPolicyService.isHalted(), lockedByEnv: CONFIG.TX_KILL_SWITCH });
+};
@@ -0,0 +1,55 @@
+// ============================================
+// Shared Records (payments, access reservations, message claims)
+// ============================================
+export type PaymentPlan = 'pro' | 'daily' | 'single';
+export type PaymentStatus = 'pending' | 'confirmed' | 'reverted' | 'refunded';
+
+export type PaymentRecord = {
+    id: number;
+    tx_hash: string;
+    user_id: string;
+    amount: number;
+    payment_type: string;
+    status: PaymentStatus;
+    network: string | null;
+    asset_id: string | null;
+    intent_id: string | null;
+    block_hash: string | null;
+    confirmations: number;
+    credits_granted_millis: number;
+    payer: string | null;
+    discount_percent: number;
+    recheck_misses: number;
+    recheck_missed_block: number | null;
+    confirmed_at: string | null;
+    created_at: string;
+};
+
+export type ProNoticeColumn = 'pro_reminded_for' | 'pro_expiry_notified_for';
+
+export type ReservationStatus = 'reserved' | 'captured' | 'released' | 'expired';
+
+export type AccessReservation = {
+    id: string;
+    user_id: string;
+    consume_type: string;
+    held: number;
+    message_key: string | null;
+    agent_id: string | null;
+    status: ReservationStatus;
+    created_at: string;
+    expires_at: string;
+    settled_at: string | null;
+};
+
+export type MessageClaim = {
+    message_key: string;
+    user_id: string;
+    agent_id: string | null;
+    status: 'pending' | 'granted' | 'denied';
+    access_type: string | null;
+    consume_type: string | null;
+    reservation_id: string | null;
+    captured: number;
+    created_at: string;
+};
@@ -0,0 +1,266 @@
+import { logger } from '@elizaos/core';
+import { ethers } from 'ethers';
+import type { PaymentPlan, PaymentRecord } from './types';
+import type { PaymentAsset } from './assets';
+import { PAYMENT_ASSETS, isSolanaAsset, getAssetReceiver } from './assets';
+
+// ============================================
+// Blockchain Verification (any ERC-20 in the payment asset registry)
+// ============================================
+export type PaymentVerificationResult = {
+    verified: boolean;
+    amount?: number;
+    asset?: PaymentAsset;
+    error?: string;
+    isPro?: boolean;
+    isDaily?: boolean;
+    payer?: string;
+    amountUnits?: bigint;
+    blockTimestamp?: number;
+    blockHash?: string;
+    confirmations?: number;
+    references?: string[]; // Solana account keys and memos, for Solana Pay reference matching
+};
+
+export const TRANSFER_EVENT_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Verify an ERC-20 transfer of the given asset to the receiver address
+async function verifyErc20Payment(txHash: string, asset: PaymentAsset): Promise<PaymentVerificationResult> {
+    try {
+        const provider = new ethers.JsonRpcProvider(asset.rpcUrl);
+        logger.info(`[VERIFY_PAYMENT] Checking transaction on ${asset.networkName} (${asset.symbol}): ${txHash}`);
+        const tx = await provider.getTransaction(txHash);
+
+        if (!tx) {
+            return { verified: false, error: `${asset.networkName}上でトランザクションが見つかりません` };
+        }
+
+        const receipt = await provider.getTransactionReceipt(txHash);
+        if (!receipt || receipt.status !== 1) {
+            return { verified: false, error: 'トランザクションが失敗しています' };
+        }
+
+        const erc20Interface = new ethers.Interface([
+            'event Transfer(address indexed from, address indexed to, uint256 value)'
+        ]);
+
+        for (const log of receipt.logs) {
+            // Only Transfer events emitted by the token contract itself count
+            if (log.address.toLowerCase() !== asset.address.toLowerCase()) continue;
+            try {
+                const parsed = erc20Interface.parseLog({ topics: log.topics as string[], data: log.data });
+                if (parsed && parsed.name === 'Transfer') {
+                    const from = parsed.args[0];
+                    const to = parsed.args[1];
+                    const value = parsed.args[2];
+
+                    if (to.toLowerCase() === getAssetReceiver(asset).toLowerCase()) {
+                        const amount = parseFloat(ethers.formatUnits(value, asset.decimals));
+                        logger.info(`[VERIFY_PAYMENT] Found transfer of ${amount} ${asset.symbol}`);
+                        const block = await provider.getBlock(receipt.blockNumber);
+                        return {
+                            verified: true,
+                            amount,
+                            asset,
+                            ...getPlanFlags(asset, amount),
+                            payer: from,
+                            amountUnits: BigInt(value),
+                            blockTimestamp: block?.timestamp,
+                            blockHash: receipt.blockHash,
+                            confirmations: await receipt.confirmations(),
+                        };
+                    }
+                }
+            } catch (e) {
+                continue;
+            }
+        }
+
+        return { verified: false, error: `受取アドレスへの${asset.symbol}転送が見つかりません` };
+    } catch (error: any) {
+        logger.error(`[VERIFY_PAYMENT] ${asset.id} error:`, error);
+        return { verified: false, error: `${asset.networkName}検証エラー: ${error.message}` };
+    }
+}
+
+export function getPlanFlags(asset: PaymentAsset, amount: number, prices: PaymentAsset['prices'] = asset.prices): { isPro: boolean; isDaily: boolean } {
+    const isPro = amount >= prices.pro;
+    return { isPro, isDaily: !isPro && amount >= prices.daily };
+}
+
+// Solana JSON-RPC (plain fetch, the same way HttpFacilitator talks to a facilitator)
+async function solanaRpc<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    if (!response.ok) {
+        throw new Error(`Solana RPC ${method} failed: HTTP ${response.status}`);
+    }
+    const body = await response.json() as { result?: T; error?: { message: string } };
+    if (body.error) {
+        throw new Error(`Solana RPC ${method}: ${body.error.message}`);
+    }
+    return body.result as T;
+}
+
+type SolanaParsedInstruction = {
+    program?: string;
+    parsed?: any;
+};
+
+type SolanaParsedTransaction = {
+    slot: number;
+    blockTime: number | null;
+    meta: {
+        err: unknown;
+        postTokenBalances?: { accountIndex: number; mint: string }[];
+        innerInstructions?: { instructions: SolanaParsedInstruction[] }[];
+    } | null;
+    transaction: {
+        message: {
+            accountKeys: { pubkey: string }[];
+            instructions: SolanaParsedInstruction[];
+        };
+    };
+};
+
+export const SOLANA_SIGNATURE_REGEX = /[1-9A-HJ-NP-Za-km-z]{86,88}/;
+
+// Solana "confirmations" count down to finalization; a finalized transaction is as deep as it gets
+async function getSolanaSignatureStatus(
+    asset: PaymentAsset,
+    signature: string
+): Promise<{ success: boolean; confirmations: number } | null> {
+    const result = await solanaRpc<{ value: ({ confirmations: number | null; confirmationStatus: string; err: unknown } | null)[] }>(
+        asset.rpcUrl, 'getSignatureStatuses', [[signature], { searchTransactionHistory: true }]
+    );
+    const status = result.value[0];
+    if (!status) return null;
+    const confirmations = status.confirmationStatus === 'finalized'
+        ? Math.max(asset.minConfirmations, status.confirmations ?? 0)
+        : status.confirmations ?? 0;
+    return { success: !status.err, confirmations };
+}
+
+// Verify an SPL token transfer (transfer / transferChecked) into the receiver token account
+async function verifySplPayment(signature: string, asset: PaymentAsset): Promise<PaymentVerificationResult> {
+    try {
+        logger.info(`[VERIFY_PAYMENT] Checking transaction on ${asset.networkName} (${asset.symbol}): ${signature}`);
+        const tx = await solanaRpc<SolanaParsedTransaction | null>(asset.rpcUrl, 'getTransaction', [
+            signature,
+            { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 },
+        ]);
+
+        if (!tx || !tx.meta) {
+            return { verified: false, error: `${asset.networkName}上でトランザクションが見つかりません` };
+        }
+        if (tx.meta.err) {
+            return { verified: false, error: 'トランザクションが失敗しています' };
+        }
+
+        const receiver = getAssetReceiver(asset);
+        const accountKeys = tx.transaction.message.accountKeys.map(key => key.pubkey);
+        // The receiver token account must hold this asset's mint
+        const receiverIndex = accountKeys.indexOf(receiver);
+        const receiverBalance = tx.meta.postTokenBalances?.find(balance => balance.accountIndex === receiverIndex);
+        if (!receiverBalance || receiverBalance.mint !== asset.address) {
+            return { verified: false, error: `受取アドレスへの${asset.symbol}転送が見つかりません` };
+        }
+
+        const instructions = [
+            ...tx.transaction.message.instructions,
+            ...(tx.meta.innerInstructions || []).flatMap(inner => inner.instructions),
+        ];
+        const memos = instructions
+            .filter(ix => ix.program === 'spl-memo' && typeof ix.parsed === 'string')
+            .map(ix => ix.parsed as string);
+
+        for (const ix of instructions) {
+            if (ix.program !== 'spl-token' || !ix.parsed) continue;
+            const { type, info } = ix.parsed;
+            if ((type !== 'transfer' && type !== 'transferChecked') || info?.destination !== receiver) continue;
+            if (info.mint && info.mint !== asset.address) continue;
+
+            const amountUnits = BigInt(info.tokenAmount?.amount ?? info.amount);
+            const amount = parseFloat(ethers.formatUnits(amountUnits, asset.decimals));
+            logger.info(`[VERIFY_PAYMENT] Found transfer of ${amount} ${asset.symbol}`);
+            const status = await getSolanaSignatureStatus(asset, signature);
+            return {
+                verified: true,
+                amount,
+                asset,
+                ...getPlanFlags(asset, amount),
+                payer: info.authority || info.multisigAuthority,
+                amountUnits,
+                blockTimestamp: tx.blockTime ?? undefined,
+                confirmations: status?.confirmations ?? 0,
+                references: [...accountKeys, ...memos],
+            };
+        }
+
+        return { verified: false, error: `受取アドレスへの${asset.symbol}転送が見つかりません` };
+    } catch (error: any) {
+        logger.error(`[VERIFY_PAYMENT] ${asset.id} error:`, error);
+        return { verified: false, error: `${asset.networkName}検証エラー: ${error.message}` };
+    }
+}
+
+// Current depth of a payment's transaction; null when it is not (or no longer) on chain
+export async function getTransactionStatus(
+    asset: PaymentAsset,
+    txHash: string
+): Promise<{ success: boolean; confirmations: number; blockHash: string | null } | null> {
+    if (isSolanaAsset(asset)) {
+        const status = await getSolanaSignatureStatus(asset, txHash);
+        return status ? { ...status, blockHash: null } : null;
+    }
+    const provider = new ethers.JsonRpcProvider(asset.rpcUrl);
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (!receipt) return null;
+    return {
+        success: receipt.status === 1,
+        confirmations: receipt.status === 1 ? await receipt.confirmations() : 0,
+        blockHash: receipt.blockHash,
+    };
+}
+
+// Latest block number (slot on Solana)
+export async function getChainHead(asset: PaymentAsset): Promise<number> {
+    if (isSolanaAsset(asset)) {
+        return solanaRpc<number>(asset.rpcUrl, 'getSlot', [{ commitment: 'confirmed' }]);
+    }
+    return new ethers.JsonRpcProvider(asset.rpcUrl).getBlockNumber();
+}
+
+// Main verification function - tries each candidate asset in registry order
+export async function verifyPaymentOnChain(txHash: string, assets: PaymentAsset[] = PAYMENT_ASSETS): Promise<PaymentVerificationResult> {
+    logger.info(`[VERIFY_PAYMENT] Checking transaction: ${txHash}`);
+
+    // EVM tx hashes and Solana signatures never overlap, so only the matching chain family is queried
+    const isSolanaSignature = !txHash.startsWith('0x');
+    for (const asset of assets.filter(a => isSolanaAsset(a) === isSolanaSignature)) {
+        const result = isSolanaAsset(asset)
+            ? await verifySplPayment(txHash, asset)
+            : await verifyErc20Payment(txHash, asset);
+        if (result.verified) {
+            return result;
+        }
+    }
+
+    // Nothing matched - return combined error
+    return {
+        verified: false,
+        error: `トランザクションが見つかりません。${assets.map(a => `${a.networkName}(${a.symbol})`).join('または')}で送金してください。`
+    };
+}
+
+// Pro and Daily payments bought a plan as well as credits
+export function isPlanPayment(payment: PaymentRecord): boolean {
+    return payment.payment_type.split('_')[0] !== 'single';
+}
+
+export function getPaymentPlan(result: PaymentVerificationResult): PaymentPlan {
+    return result.isPro ? 'pro' : (result.isDaily ? 'daily' : 'single');
+}